@@ -0,0 +1,118 @@
+import { GoogleAuth } from 'google-auth-library';
+import { CapacityAdvisorResponse } from '../src/types';
+import { MACHINE_TYPES } from '../src/config';
+import { NETWORK_ERROR_STATUS, getErrorStatus, getFriendlyErrorMessage, isStockoutError } from '../src/utils';
+import { fetchAllZonesCapacity } from '../src/services/apiService';
+import { generateMockRecommendationsWithShape } from '../src/services/simulationEngine';
+import {
+  CHECK_USAGE,
+  CLI_EXIT_CODES,
+  CheckOptions,
+  buildCheckReport,
+  buildCheckRequest,
+  formatCheckTable,
+  getCheckExitCode,
+  parseCheckArgs,
+  toRequestConfig
+} from '../src/services/cliService';
+
+/**
+ * Capacity Advisor CLI
+ *
+ * Headless `capacity-advisor check` for CI pipelines: asks the Capacity Advisor (or the simulator)
+ * whether a workload is obtainable, prints a table or JSON report, and exits non-zero below the
+ * obtainability threshold. Runs the same services as the app.
+ *
+ * Live calls authenticate with GOOGLE_OAUTH_ACCESS_TOKEN when set, otherwise with Application
+ * Default Credentials (`gcloud auth application-default login`, GOOGLE_APPLICATION_CREDENTIALS,
+ * or the attached service account).
+ */
+
+const getAccessToken = async (): Promise<string> => {
+  const fromEnv = process.env.GOOGLE_OAUTH_ACCESS_TOKEN?.trim();
+  if (fromEnv) return fromEnv;
+
+  const auth = new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/cloud-platform.read-only'] });
+  const token = await auth.getAccessToken().catch(() => null);
+  if (!token) {
+    throw new Error('No credentials found. Set GOOGLE_OAUTH_ACCESS_TOKEN or run `gcloud auth application-default login`.');
+  }
+  return token;
+};
+
+const fetchAdvice = async (options: CheckOptions): Promise<CapacityAdvisorResponse | null> => {
+  const config = toRequestConfig(options);
+
+  if (options.mock) {
+    return generateMockRecommendationsWithShape(
+      options.region,
+      options.machineType,
+      MACHINE_TYPES.find(m => m.id === options.machineType),
+      options.size,
+      options.targetShape,
+      {
+        alternativeMachineTypes: config.alternativeMachineTypes,
+        provisioningModel: config.provisioningModel,
+        includedZones: config.includedZones,
+        excludedZones: config.excludedZones
+      }
+    );
+  }
+
+  try {
+    return await fetchAllZonesCapacity(await getAccessToken(), options.project, options.region, config);
+  } catch (error) {
+    // A stockout is an answer (no capacity), not a failure
+    if (isStockoutError(error)) return null;
+    throw error;
+  }
+};
+
+const runCheck = async (args: string[]): Promise<number> => {
+  let options: CheckOptions;
+  try {
+    options = parseCheckArgs(args);
+  } catch (error: any) {
+    console.error(`capacity-advisor: ${error.message}\n\n${CHECK_USAGE}`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  if (options.dryRun) {
+    console.log(JSON.stringify(buildCheckRequest(options), null, 2));
+    return CLI_EXIT_CODES.ok;
+  }
+
+  let response: CapacityAdvisorResponse | null;
+  try {
+    response = await fetchAdvice(options);
+  } catch (error: any) {
+    const status = getErrorStatus(error);
+    console.error(`capacity-advisor: ${getFriendlyErrorMessage(status, error.message || String(error))}`);
+    return status === NETWORK_ERROR_STATUS ? CLI_EXIT_CODES.offline : CLI_EXIT_CODES.failed;
+  }
+
+  const report = buildCheckReport(options, response);
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatCheckTable(report));
+  return getCheckExitCode(report);
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '--help' || command === 'help' || args.includes('--help')) {
+    console.log(CHECK_USAGE);
+    return command ? CLI_EXIT_CODES.ok : CLI_EXIT_CODES.usage;
+  }
+  if (command !== 'check') {
+    console.error(`capacity-advisor: unknown command "${command}"\n\n${CHECK_USAGE}`);
+    return CLI_EXIT_CODES.usage;
+  }
+  return runCheck(args);
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error('capacity-advisor:', error);
+    process.exitCode = CLI_EXIT_CODES.failed;
+  }
+);
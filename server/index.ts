@@ -0,0 +1,372 @@
+import http from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { GoogleAuth, OAuth2Client } from 'google-auth-library';
+import { GoogleGenAI } from '@google/genai';
+import {
+  PROXY_ROUTES,
+  PROJECT_ID_PATTERN,
+  REGION_PATTERN,
+  CapacityAdviceProxyRequest,
+  GeminiProxyChunk
+} from '../src/services/proxyContract';
+import { GROUNDING_MODEL, buildGroundingPrompt, parseGroundingPromptInput } from '../src/services/groundingPrompt';
+
+/**
+ * Backend Proxy
+ *
+ * Serves the SPA's Compute Engine and Gemini calls with server-side credentials so neither an
+ * access token nor a Gemini key has to live in the browser. Compute calls use Application Default
+ * Credentials (a service account key via GOOGLE_APPLICATION_CREDENTIALS, or the attached service
+ * account on Cloud Run / GKE); Gemini uses GEMINI_API_KEY.
+ *
+ * Routes are mounted under /api (see src/services/proxyContract.ts); nginx forwards /api/ here.
+ *
+ * Every route but /health needs an authenticated caller (PROXY_AUTH), is rate limited per caller,
+ * and only serves the projects in ALLOWED_PROJECTS. The Gemini route takes the structured request
+ * and builds the prompt itself, so the key only ever answers the app's own prompt.
+ */
+
+const PORT = Number(process.env.PORT) || 8080;
+const ROUTE_PREFIX = '/api';
+const MAX_BODY_BYTES = 1024 * 1024;
+// Upstream calls are abandoned after this long (or as soon as the caller disconnects)
+const UPSTREAM_TIMEOUT_MS = 30 * 1000;
+const GEMINI_TIMEOUT_MS = 120 * 1000;
+
+const API_VERSIONS = {
+  V1: 'https://compute.googleapis.com/compute/v1',
+  ALPHA: 'https://compute.googleapis.com/compute/alpha'
+};
+
+type ProxyAuthMode = 'iap' | 'shared-secret' | 'none';
+
+interface ProxyConfig {
+  authMode: ProxyAuthMode;
+  /** Expected `aud` of the IAP JWT, e.g. /projects/123/global/backendServices/456. */
+  iapAudience: string;
+  sharedSecret: string;
+  /** Empty only when ALLOW_ALL_PROJECTS=true. */
+  allowedProjects: string[];
+}
+
+/**
+ * Reads the security settings; refuses to start with an open proxy unless that is explicitly configured.
+ */
+const loadConfig = (): ProxyConfig => {
+  const authMode = (process.env.PROXY_AUTH || '').trim() as ProxyAuthMode;
+  const iapAudience = (process.env.IAP_AUDIENCE || '').trim();
+  const sharedSecret = process.env.PROXY_SHARED_SECRET || '';
+  const allowedProjects = (process.env.ALLOWED_PROJECTS || '').split(',').map(p => p.trim()).filter(Boolean);
+  const problems: string[] = [];
+
+  if (!['iap', 'shared-secret', 'none'].includes(authMode)) {
+    problems.push('PROXY_AUTH must be "iap", "shared-secret" or (local development only) "none"');
+  }
+  if (authMode === 'iap' && !iapAudience) problems.push('PROXY_AUTH=iap needs IAP_AUDIENCE');
+  if (authMode === 'shared-secret' && sharedSecret.length < 32) problems.push('PROXY_AUTH=shared-secret needs a PROXY_SHARED_SECRET of at least 32 characters');
+  if (allowedProjects.length === 0 && process.env.ALLOW_ALL_PROJECTS !== 'true') {
+    problems.push('set ALLOWED_PROJECTS, or ALLOW_ALL_PROJECTS=true to serve every project the service account can read');
+  }
+  if (problems.length > 0) {
+    console.error(`Capacity advisor proxy not started: ${problems.join('; ')}.`);
+    process.exit(1);
+  }
+  return { authMode, iapAudience, sharedSecret, allowedProjects };
+};
+
+const config = loadConfig();
+
+const auth = new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/cloud-platform.read-only'] });
+const iapVerifier = new OAuth2Client();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public reason = 'proxyError', public retryAfterSeconds?: number) {
+    super(message);
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+// Same envelope as Compute Engine errors so the frontend's error mapping applies unchanged.
+const sendError = (res: http.ServerResponse, error: HttpError) => {
+  if (error.retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  sendJson(res, error.status, { error: { code: error.status, message: error.message, errors: [{ reason: error.reason, message: error.message }] } });
+};
+
+// --- Caller authentication ---
+
+const IAP_ISSUERS = ['https://cloud.google.com/iap'];
+const IAP_KEYS_TTL_MS = 60 * 60 * 1000;
+let iapKeys: { fetchedAt: number; keys: Promise<Record<string, string>> } | null = null;
+
+const getIapKeys = (): Promise<Record<string, string>> => {
+  if (!iapKeys || Date.now() - iapKeys.fetchedAt > IAP_KEYS_TTL_MS) {
+    const keys = iapVerifier.getIapPublicKeys().then(r => r.pubkeys);
+    keys.catch(() => { iapKeys = null; });
+    iapKeys = { fetchedAt: Date.now(), keys };
+  }
+  return iapKeys.keys;
+};
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Identifies the caller (also the rate limit key) or rejects the request with 401.
+ */
+const authenticate = async (req: http.IncomingMessage): Promise<string> => {
+  if (config.authMode === 'iap') {
+    const assertion = req.headers['x-goog-iap-jwt-assertion'];
+    if (typeof assertion !== 'string') throw new HttpError(401, 'This proxy only serves requests through Identity-Aware Proxy.', 'authError');
+    try {
+      const ticket = await iapVerifier.verifySignedJwtWithCertsAsync(assertion, await getIapKeys(), config.iapAudience, IAP_ISSUERS);
+      const payload = ticket.getPayload();
+      return `iap:${payload?.email || payload?.sub}`;
+    } catch (e) {
+      throw new HttpError(401, 'The Identity-Aware Proxy assertion is invalid.', 'authError');
+    }
+  }
+
+  const address = req.socket.remoteAddress || 'unknown';
+  if (config.authMode === 'shared-secret') {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    // Compare digests so the check takes the same time whatever the length
+    if (!token || !timingSafeEqual(digest(token), digest(config.sharedSecret))) {
+      throw new HttpError(401, 'A valid proxy bearer token is required.', 'authError');
+    }
+    return `secret:${address}`;
+  }
+  return `anonymous:${address}`;
+};
+
+// --- Per-caller rate limits (same budgets as the browser buckets in src/services/rateLimiter.ts) ---
+
+type LimitClass = 'capacityAdvice' | 'list' | 'gemini';
+
+const SERVER_RATE_LIMITS: Record<LimitClass, { maxRequests: number; windowSeconds: number }> = {
+  capacityAdvice: { maxRequests: 60, windowSeconds: 60 },
+  list: { maxRequests: 120, windowSeconds: 60 },
+  gemini: { maxRequests: 10, windowSeconds: 60 }
+};
+
+const windows = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Fixed-window counter per caller and class; throws 429 with Retry-After once the window is used up.
+ */
+const enforceRateLimit = (caller: string, limitClass: LimitClass) => {
+  const now = Date.now();
+  const { maxRequests, windowSeconds } = SERVER_RATE_LIMITS[limitClass];
+  const key = `${limitClass}|${caller}`;
+
+  let current = windows.get(key);
+  if (!current || current.resetAt <= now) {
+    // Drop finished windows so one-off callers don't accumulate
+    windows.forEach((w, k) => { if (w.resetAt <= now) windows.delete(k); });
+    current = { count: 0, resetAt: now + windowSeconds * 1000 };
+    windows.set(key, current);
+  }
+  if (current.count >= maxRequests) {
+    throw new HttpError(429, `Rate limit of ${maxRequests} requests per ${windowSeconds}s exceeded.`, 'userRateLimitExceeded', Math.ceil((current.resetAt - now) / 1000));
+  }
+  current.count += 1;
+};
+
+/**
+ * Aborts when the deadline passes or the caller goes away, whichever comes first.
+ */
+const createUpstreamSignal = (res: http.ServerResponse, timeoutMs: number): AbortSignal => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new HttpError(504, 'The upstream request timed out.')), timeoutMs);
+  // The response's close, not the request's: req emits 'close' as soon as its body has been read.
+  // It also fires after a normal response; only a close before the end is a disconnect.
+  res.on('close', () => {
+    clearTimeout(timer);
+    if (!res.writableFinished) controller.abort(new Error('Client disconnected.'));
+  });
+  return controller.signal;
+};
+
+const readJsonBody = async <T>(req: http.IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+  } catch (e) {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const requireProject = (project: string | null | undefined): string => {
+  if (!project || !PROJECT_ID_PATTERN.test(project)) throw new HttpError(400, 'A valid project is required.');
+  if (config.allowedProjects.length > 0 && !config.allowedProjects.includes(project)) {
+    throw new HttpError(403, `Project ${project} is not served by this proxy.`);
+  }
+  return project;
+};
+
+const requireRegion = (region: string | null | undefined): string => {
+  if (!region || !REGION_PATTERN.test(region)) throw new HttpError(400, 'A valid region is required.');
+  return region;
+};
+
+/**
+ * Carries the list paging parameters (maxResults, pageToken) over to the upstream URL.
+ */
+const withPaging = (url: string, query: URLSearchParams): string => {
+  const params = new URLSearchParams();
+  const maxResults = query.get('maxResults');
+  const pageToken = query.get('pageToken');
+  if (maxResults && /^\d+$/.test(maxResults)) params.set('maxResults', maxResults);
+  if (pageToken) params.set('pageToken', pageToken);
+  const paging = params.toString();
+  return paging ? `${url}${url.includes('?') ? '&' : '?'}${paging}` : url;
+};
+
+/**
+ * Calls Compute Engine with the server's credentials and relays status, Retry-After and body as-is.
+ */
+const forwardToCompute = async (res: http.ServerResponse, signal: AbortSignal, url: string, method: 'GET' | 'POST', body?: unknown) => {
+  const headers = await auth.getRequestHeaders(url);
+  headers.set('Content-Type', 'application/json');
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal
+    });
+  } catch (error) {
+    throw signal.aborted ? signal.reason : error;
+  }
+
+  const retryAfter = response.headers.get('Retry-After');
+  res.writeHead(response.status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...(retryAfter ? { 'Retry-After': retryAfter } : {})
+  });
+  res.end(await response.text());
+};
+
+const streamGemini = async (res: http.ServerResponse, signal: AbortSignal, body: unknown) => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new HttpError(500, 'GEMINI_API_KEY is not set on the proxy.');
+
+  let prompt: string;
+  try {
+    const { state, machineSpecs } = parseGroundingPromptInput(body);
+    requireRegion(state.region);
+    prompt = buildGroundingPrompt(state, machineSpecs);
+  } catch (error: any) {
+    throw error instanceof HttpError ? error : new HttpError(400, `Invalid analysis request: ${error.message}`);
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' });
+  const write = (chunk: GeminiProxyChunk) => res.write(`${JSON.stringify(chunk)}\n`);
+
+  try {
+    const stream = await new GoogleGenAI({ apiKey }).models.generateContentStream({
+      model: GROUNDING_MODEL,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        temperature: 0.7,
+        abortSignal: signal
+      }
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.text) write({ type: 'text', content: chunk.text });
+      const groundingMeta = chunk.candidates?.[0]?.groundingMetadata;
+      if (groundingMeta) write({ type: 'metadata', content: groundingMeta });
+    }
+  } catch (error: any) {
+    if (signal.aborted && res.destroyed) return;
+    // Headers are already sent; the status travels in the stream
+    write({ type: 'error', status: error.status || error.code || 500, message: error.message || 'Gemini request failed.' });
+  }
+  res.end();
+};
+
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (!url.pathname.startsWith(`${ROUTE_PREFIX}/`)) throw new HttpError(404, 'Not found.');
+  const route = url.pathname.slice(ROUTE_PREFIX.length);
+  const query = url.searchParams;
+
+  const endpoint = `${req.method} ${route}`;
+  // Health checks come from the load balancer, unauthenticated
+  if (endpoint === `GET ${PROXY_ROUTES.health}`) return sendJson(res, 200, { status: 'ok' });
+
+  const caller = await authenticate(req);
+  enforceRateLimit(caller, endpoint === `POST ${PROXY_ROUTES.capacityAdvice}` ? 'capacityAdvice' : endpoint === `POST ${PROXY_ROUTES.geminiStream}` ? 'gemini' : 'list');
+  const signal = createUpstreamSignal(res, endpoint === `POST ${PROXY_ROUTES.geminiStream}` ? GEMINI_TIMEOUT_MS : UPSTREAM_TIMEOUT_MS);
+
+  switch (endpoint) {
+    case `GET ${PROXY_ROUTES.regions}`: {
+      const project = requireProject(query.get('project'));
+      return forwardToCompute(res, signal, withPaging(`${API_VERSIONS.V1}/projects/${project}/regions`, query), 'GET');
+    }
+
+    case `GET ${PROXY_ROUTES.region}`: {
+      const project = requireProject(query.get('project'));
+      const region = requireRegion(query.get('region'));
+      return forwardToCompute(res, signal, `${API_VERSIONS.V1}/projects/${project}/regions/${region}`, 'GET');
+    }
+
+    case `GET ${PROXY_ROUTES.machineTypes}`: {
+      const project = requireProject(query.get('project'));
+      const region = requireRegion(query.get('region'));
+      const filter = encodeURIComponent(`zone eq .*/zones/${region}-.*`);
+      return forwardToCompute(res, signal, withPaging(`${API_VERSIONS.V1}/projects/${project}/aggregated/machineTypes?filter=${filter}`, query), 'GET');
+    }
+
+    case `GET ${PROXY_ROUTES.acceleratorTypes}`: {
+      const project = requireProject(query.get('project'));
+      return forwardToCompute(res, signal, withPaging(`${API_VERSIONS.V1}/projects/${project}/aggregated/acceleratorTypes`, query), 'GET');
+    }
+
+    case `POST ${PROXY_ROUTES.capacityAdvice}`: {
+      const body = await readJsonBody<CapacityAdviceProxyRequest>(req);
+      const project = requireProject(body.project);
+      const region = requireRegion(body.region);
+      if (!body.request || typeof body.request !== 'object') throw new HttpError(400, 'A capacity advice request is required.');
+      return forwardToCompute(res, signal, `${API_VERSIONS.ALPHA}/projects/${project}/regions/${region}/advice/capacity`, 'POST', body.request);
+    }
+
+    case `POST ${PROXY_ROUTES.geminiStream}`:
+      return streamGemini(res, signal, await readJsonBody<unknown>(req));
+
+    default:
+      throw new HttpError(404, `No route for ${req.method} ${url.pathname}.`);
+  }
+};
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch((error: any) => {
+    if (res.headersSent || res.destroyed) {
+      if (!res.destroyed) console.error('Proxy request failed mid-response:', error);
+      res.end();
+      return;
+    }
+    if (!(error instanceof HttpError)) console.error('Proxy request failed:', error);
+    sendError(res, error instanceof HttpError ? error : new HttpError(502, error.message || 'Proxy request failed.'));
+  });
+});
+
+server.listen(PORT, () => {
+  const projects = config.allowedProjects.length > 0 ? config.allowedProjects.join(', ') : 'all';
+  console.log(`Capacity advisor proxy listening on :${PORT} (auth: ${config.authMode}, projects: ${projects})`);
+  if (config.authMode === 'none') console.warn('PROXY_AUTH=none: any caller can use this proxy. Only use this for local development.');
+});
@@ -6,6 +6,11 @@ import ConfigurationPanel from './components/ConfigurationPanel';
 import ResultsDashboard from './components/ResultsDashboard';
 import ToastContainer from './components/Toast';
 import CommandPalette, { Command } from './components/CommandPalette';
+import RunHistoryPanel from './components/RunHistoryPanel';
+import RunDiffView from './components/RunDiffView';
+import BatchAnalysisPanel from './components/BatchAnalysisPanel';
+import { RunRecord } from './services/runHistoryStore';
+import { findLatestComparablePair } from './services/runDiffService';
 
 // Lazy load the debug console for better performance (Code Splitting)
 const DebugConsole = React.lazy(() => import('./components/DebugConsole'));
@@ -32,10 +37,31 @@ const App: React.FC = () => {
     isFetchingRegions,
     isFetchingMachineTypes,
     removeToast,
-    regionConfig
+    regionConfig,
+    regionAccelerators,
+    zonesMissingAccelerator,
+    zonesMissingMachineType,
+    signIn,
+    signOut,
+    copyShareLink,
+    scenarios,
+    scenarioActions,
+    runs,
+    runActions,
+    watchStatus,
+    watchActions,
+    batch,
+    batchActions,
+    isSigningIn,
+    isSignInConfigured,
+    tokenInfo,
+    isCheckingToken,
+    proxyMode
   } = useCapacityLogic();
 
   const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [comparedRuns, setComparedRuns] = useState<[RunRecord, RunRecord] | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
 
   // Global Keyboard Shortcut for Command Palette (Cmd+K / Ctrl+K)
@@ -68,6 +94,8 @@ const App: React.FC = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const latestPair = useMemo(() => findLatestComparablePair(runs), [runs]);
+
   // Define Commands
   const commands: Command[] = useMemo(() => [
     {
@@ -85,6 +113,20 @@ const App: React.FC = () => {
       action: clearResults,
       category: 'Actions'
     },
+    {
+      id: 'copy-link',
+      label: 'Copy Link to Configuration',
+      icon: <Icons.Copy size={16} />,
+      action: copyShareLink,
+      category: 'Actions'
+    },
+    {
+      id: 'watch',
+      label: watchStatus.settings.enabled ? 'Stop Watch Mode' : 'Start Watch Mode',
+      icon: <Icons.Eye size={16} />,
+      action: () => watchStatus.settings.enabled ? watchActions.stop() : watchActions.start(),
+      category: 'Actions'
+    },
     {
       id: 'theme',
       label: state.darkMode ? 'Switch to Light Mode' : 'Switch to Dark Mode',
@@ -106,6 +148,13 @@ const App: React.FC = () => {
       action: () => updateState({ showDebug: !state.showDebug }),
       category: 'View'
     },
+    {
+      id: 'history',
+      label: 'Open Run History',
+      icon: <Icons.History size={16} />,
+      action: () => setIsHistoryOpen(true),
+      category: 'View'
+    },
     {
       id: 'export-csv',
       label: 'Export Results as CSV',
@@ -126,8 +175,35 @@ const App: React.FC = () => {
       icon: <Icons.Globe size={16} />,
       action: () => handleExport('html'),
       category: 'Export'
-    }
-  ], [state.darkMode, state.mockMode, state.showDebug, handleSearch, clearResults, updateState, handleExport]);
+    },
+    ...(batch.rows.length > 0 ? [{
+      id: 'export-batch-csv',
+      label: 'Export Batch Report as CSV',
+      icon: <Icons.FileText size={16} />,
+      action: () => batchActions.exportReport('csv'),
+      category: 'Export'
+    }, {
+      id: 'export-batch-html',
+      label: 'Export Batch Report as HTML',
+      icon: <Icons.Globe size={16} />,
+      action: () => batchActions.exportReport('html'),
+      category: 'Export'
+    }] : []),
+    ...(latestPair ? [{
+      id: 'compare-previous',
+      label: 'Compare Latest Run with Previous',
+      icon: <Icons.History size={16} />,
+      action: () => setComparedRuns(latestPair),
+      category: 'View'
+    }] : []),
+    ...scenarios.map(scenario => ({
+      id: `scenario-${scenario.id}`,
+      label: `Load Scenario: ${scenario.name}`,
+      icon: <Icons.Bookmark size={16} />,
+      action: () => scenarioActions.load(scenario.id),
+      category: 'Scenarios'
+    }))
+  ], [state.darkMode, state.mockMode, state.showDebug, handleSearch, clearResults, copyShareLink, updateState, handleExport, scenarios, scenarioActions, latestPair, watchStatus.settings.enabled, watchActions, batch.rows.length, batchActions]);
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-[#0B1120] text-slate-900 dark:text-slate-100 font-sans transition-colors duration-300 pb-32 relative">
@@ -139,6 +215,12 @@ const App: React.FC = () => {
         mockMode={state.mockMode}
         darkMode={state.darkMode}
         onUpdate={updateState}
+        authSession={state.authSession}
+        isSigningIn={isSigningIn}
+        isSignInConfigured={isSignInConfigured}
+        onSignIn={signIn}
+        onSignOut={signOut}
+        onOpenHistory={() => setIsHistoryOpen(true)}
       />
 
       {/* 
@@ -158,13 +240,29 @@ const App: React.FC = () => {
           isFetchingMachineTypes={isFetchingMachineTypes}
           onSearch={handleSearch}
           regionConfig={regionConfig}
+          regionAccelerators={regionAccelerators}
+          zonesMissingAccelerator={zonesMissingAccelerator}
+          zonesMissingMachineType={zonesMissingMachineType}
+          onSignIn={signIn}
+          isSigningIn={isSigningIn}
+          isSignInConfigured={isSignInConfigured}
+          tokenInfo={tokenInfo}
+          isCheckingToken={isCheckingToken}
+          proxyMode={proxyMode}
+          scenarios={scenarios}
+          scenarioActions={scenarioActions}
+          watchStatus={watchStatus}
+          watchActions={watchActions}
         />
 
         <ResultsDashboard 
           state={state}
+          runs={runs}
           onExport={handleExport}
           onClear={clearResults}
         />
+
+        <BatchAnalysisPanel batch={batch} actions={batchActions} mockMode={state.mockMode} />
       </main>
       
       {/* Toast Notifications */}
@@ -177,6 +275,18 @@ const App: React.FC = () => {
         commands={commands} 
       />
 
+      {/* Run History */}
+      <RunHistoryPanel
+        runs={runs}
+        actions={runActions}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onCompare={setComparedRuns}
+      />
+
+      {/* Run Comparison */}
+      <RunDiffView runs={comparedRuns} onClose={() => setComparedRuns(null)} />
+
       {/* Floating Action Button for Debug Console */}
       <div className="fixed bottom-4 right-4 md:bottom-8 md:right-8 z-50 flex flex-col gap-3 items-end">
         {/* Scroll to Top Button */}
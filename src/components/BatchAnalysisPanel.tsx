@@ -0,0 +1,157 @@
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Icons } from '../constants';
+import { BatchRowStatus, MAX_BATCH_ENTRIES, summarizeBatchRow } from '../services/batchService';
+import { getRiskTier } from '../utils';
+import { BatchState, BatchActions } from '../hooks/useBatchAnalysis';
+import { RISK_STYLES } from '../riskStyles';
+
+interface BatchAnalysisPanelProps {
+  batch: BatchState;
+  actions: BatchActions;
+  mockMode: boolean;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-50 dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700' },
+  running: { label: 'Running', className: 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800 animate-pulse' },
+  success: { label: 'Done', className: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800' },
+  error: { label: 'Failed', className: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-50 dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700' }
+};
+
+const buttonClass = 'px-3 py-1.5 rounded-md text-[10px] font-bold uppercase text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1.5';
+
+/**
+ * Upload a workload manifest, run every entry, and review or download the consolidated results.
+ */
+const BatchAnalysisPanel: React.FC<BatchAnalysisPanelProps> = ({ batch, actions, mockMode }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { rows, running, manifestName } = batch;
+  const settled = rows.filter(r => r.status !== 'queued' && r.status !== 'running').length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden"
+    >
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex flex-col md:flex-row justify-between md:items-center gap-3">
+        <div>
+          <h4 className="text-sm font-black uppercase text-slate-900 dark:text-white tracking-tight flex items-center gap-2">
+            <Icons.Layers /> Batch Analysis
+          </h4>
+          <span className="text-[10px] text-slate-500 font-bold uppercase">
+            {manifestName
+              ? `${manifestName} • ${settled}/${rows.length} done • ${mockMode ? 'Simulated' : 'Live API'}`
+              : `CSV or JSON manifest: machineType, region, count, shape (optional), provisioningModel (optional), label (optional) • up to ${MAX_BATCH_ENTRIES} entries`}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-1 shadow-sm">
+            <button onClick={() => fileInputRef.current?.click()} disabled={running} className={buttonClass} title="Upload a CSV or JSON manifest">
+              <Icons.Upload size={12} /> Manifest
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) actions.loadManifest(file);
+                e.target.value = '';
+              }}
+            />
+            {rows.length > 0 && (
+              <>
+                <div className="w-px bg-slate-200 dark:bg-slate-700 my-1"></div>
+                <button onClick={() => actions.exportReport('csv')} disabled={running || settled === 0} className={buttonClass} title="Download the combined report as CSV">
+                  <Icons.Download size={12} /> CSV
+                </button>
+                <button onClick={() => actions.exportReport('html')} disabled={running || settled === 0} className={buttonClass} title="Download the combined report as HTML">
+                  <Icons.Download size={12} /> HTML
+                </button>
+              </>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <button
+                onClick={running ? actions.cancel : actions.start}
+                className={`px-4 py-2 rounded-lg text-[10px] font-bold uppercase flex items-center gap-2 shadow-sm transition-colors ${
+                  running ? 'bg-red-500/90 text-white hover:bg-red-600' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                }`}
+              >
+                {running ? <><Icons.Cancel size={12} /> Cancel</> : <><Icons.Bolt size={12} /> {settled > 0 ? 'Run Again' : 'Run Batch'}</>}
+              </button>
+              <button onClick={actions.clear} className="p-2 rounded-lg text-slate-400 hover:text-red-500 transition-colors" title="Remove the manifest and its results">
+                <Icons.Trash size={14} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-left text-[11px]">
+            <thead className="bg-slate-50/80 dark:bg-slate-950/50 text-[10px] font-black uppercase text-slate-400 dark:text-slate-500 tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Workload</th>
+                <th className="px-3 py-3">Machine Type</th>
+                <th className="px-3 py-3">Region</th>
+                <th className="px-3 py-3 text-right">VMs</th>
+                <th className="px-3 py-3">Shape</th>
+                <th className="px-3 py-3">Status</th>
+                <th className="px-3 py-3">Obtainability</th>
+                <th className="px-3 py-3">Uptime</th>
+                <th className="px-6 py-3">Best Zones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rows.map(row => {
+                const summary = summarizeBatchRow(row);
+                const status = STATUS_STYLES[row.status];
+                const risk = summary.topObtainability !== null ? RISK_STYLES[getRiskTier(summary.topObtainability)] : null;
+                return (
+                  <tr key={row.entry.row} className="hover:bg-slate-50 dark:hover:bg-slate-800/40">
+                    <td className="px-6 py-2.5 font-bold text-slate-800 dark:text-slate-100 max-w-[220px] truncate" title={row.entry.label}>{row.entry.label}</td>
+                    <td className="px-3 py-2.5 font-mono text-slate-600 dark:text-slate-300">{row.entry.machineType}</td>
+                    <td className="px-3 py-2.5 font-mono text-slate-600 dark:text-slate-300">{row.entry.region}</td>
+                    <td className="px-3 py-2.5 font-mono text-right text-slate-900 dark:text-white">{row.entry.size}</td>
+                    <td className="px-3 py-2.5 text-slate-500">{row.entry.targetShape}</td>
+                    <td className="px-3 py-2.5">
+                      <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-wide border ${status.className}`} title={row.error || undefined}>
+                        {status.label}
+                      </span>
+                      {row.error && <div className="text-[10px] text-red-600 dark:text-red-400 mt-1 max-w-[240px] truncate" title={row.error}>{row.error}</div>}
+                    </td>
+                    <td className="px-3 py-2.5">
+                      {risk && (
+                        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-mono ${risk.badgeClass}`}>
+                          {Math.round(summary.topObtainability! * 100)}%
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2.5 font-mono text-slate-600 dark:text-slate-300">
+                      {summary.topUptime !== null ? `${Math.round(summary.topUptime * 100)}%` : ''}
+                    </td>
+                    <td className="px-6 py-2.5 font-mono text-[10px] text-slate-500 dark:text-slate-400">
+                      {row.status === 'success' && summary.optionCount === 0 ? 'Stockout' : summary.bestZones.join(', ')}
+                      {summary.optionCount > 1 && <span className="text-slate-400"> (+{summary.optionCount - 1} options)</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default BatchAnalysisPanel;
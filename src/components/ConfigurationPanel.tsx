@@ -1,11 +1,18 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Icons } from '../constants';
-import { MACHINE_FAMILIES, MachineTypeOption } from '../config';
-import { AppState, TargetShape } from '../types';
+import { MACHINE_FAMILIES, MachineTypeOption, AcceleratorTypeOption, ACCELERATOR_TYPES, ACCELERATOR_ATTACHABLE_SERIES } from '../config';
+import { AppState, TargetShape, ProvisioningModel, TokenInfo } from '../types';
 import Autocomplete from './Autocomplete';
 import RegionAutocomplete, { RegionOption } from './RegionAutocomplete';
 import MachineTypeInfo from './MachineTypeInfo';
+import TokenStatus from './TokenStatus';
+import ScenarioLibrary from './ScenarioLibrary';
+import WatchModeCard from './WatchModeCard';
+import { Scenario } from '../services/scenarioStore';
+import { PROJECT_ID_REGEX } from '../services/proxyContract';
+import { ScenarioActions } from '../hooks/useScenarios';
+import { WatchStatus, WatchActions } from '../hooks/useWatchMode';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface ConfigurationPanelProps {
@@ -19,6 +26,23 @@ interface ConfigurationPanelProps {
   isFetchingMachineTypes: boolean;
   onSearch: () => void;
   regionConfig: Record<string, string[]>;
+  /** Attachable accelerators offered in at least one zone of the selected region. */
+  regionAccelerators: AcceleratorTypeOption[];
+  /** Zones of the selected region that don't offer the chosen accelerator. */
+  zonesMissingAccelerator: string[];
+  /** Zones of the selected region that don't offer the selected machine type. */
+  zonesMissingMachineType: string[];
+  onSignIn: () => void;
+  isSigningIn: boolean;
+  isSignInConfigured: boolean;
+  tokenInfo: TokenInfo | null;
+  isCheckingToken: boolean;
+  /** Live calls go through the backend proxy, which holds the credentials. */
+  proxyMode: boolean;
+  scenarios: Scenario[];
+  scenarioActions: ScenarioActions;
+  watchStatus: WatchStatus;
+  watchActions: WatchActions;
 }
 
 const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
@@ -31,7 +55,20 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
   isFetchingRegions,
   isFetchingMachineTypes,
   onSearch,
-  regionConfig
+  regionConfig,
+  regionAccelerators,
+  zonesMissingAccelerator,
+  zonesMissingMachineType,
+  onSignIn,
+  isSigningIn,
+  isSignInConfigured,
+  tokenInfo,
+  isCheckingToken,
+  proxyMode,
+  scenarios,
+  scenarioActions,
+  watchStatus,
+  watchActions
 }) => {
   const [isShapeOpen, setIsShapeOpen] = useState(false);
   const [dismissedProjectError, setDismissedProjectError] = useState(false);
@@ -52,15 +89,15 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
     setDismissedProjectError(false);
   }, [state.project]);
 
-  const projectRegex = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
-  const isValidProject = !state.project || projectRegex.test(state.project);
+  const isValidProject = !state.project || PROJECT_ID_REGEX.test(state.project);
   // Show validation if project is not empty OR if there's a validation error
   const showValidation = (state.project.length > 0) || !!state.validationErrors?.project;
   
   // Region Validation
   const selectedRegionZones = state.region ? regionConfig[state.region] : [];
   const hasZones = !state.mockMode && !!state.region && selectedRegionZones && selectedRegionZones.length > 0;
-  const showRegionError = !state.mockMode && !!state.region && !isFetchingRegions && (!selectedRegionZones || selectedRegionZones.length === 0);
+  const isFanOut = state.analysisMode === 'multiRegion';
+  const showRegionError = !isFanOut && !state.mockMode && !!state.region && !isFetchingRegions && (!selectedRegionZones || selectedRegionZones.length === 0);
 
   const isSearchDisabled = state.loading || (!isValidProject && state.project.length > 0) || showRegionError;
 
@@ -87,6 +124,88 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
 
   const selectedShape = shapeOptions.find(o => o.value === state.targetShape) || shapeOptions[0];
 
+  // Zone Policy (allowlist / denylist)
+  const regionZones = selectedRegionZones || [];
+  const cycleZonePolicy = (zone: string) => {
+    const included = state.includedZones.filter(z => z !== zone);
+    const excluded = state.excludedZones.filter(z => z !== zone);
+    if (state.includedZones.includes(zone)) {
+      updateState({ includedZones: included, excludedZones: [...excluded, zone] });
+    } else if (state.excludedZones.includes(zone)) {
+      updateState({ includedZones: included, excludedZones: excluded });
+    } else {
+      updateState({ includedZones: [...included, zone], excludedZones: excluded });
+    }
+  };
+
+  // Multi-Region Fan-out
+  const fanOutRegions = state.fanOutRegions;
+  const continents = useMemo(() => 
+    Array.from(new Set(regionOptions.map(o => o.continent))),
+    [regionOptions]
+  );
+  const fanOutOptions = useMemo(() => 
+    regionOptions.filter(o => !fanOutRegions.includes(o.id)),
+    [regionOptions, fanOutRegions]
+  );
+
+  const selectContinent = (continent: string) => {
+    updateState({ fanOutRegions: regionOptions.filter(o => o.continent === continent).map(o => o.id) });
+  };
+
+  const addFanOutRegion = (id: string) => {
+    if (!id || fanOutRegions.includes(id)) return;
+    updateState({ fanOutRegions: [...fanOutRegions, id] });
+  };
+
+  // Instance-count Sweep
+  const sweep = state.sweepConfig;
+  const updateSweep = (updates: Partial<AppState['sweepConfig']>) => updateState({ sweepConfig: { ...sweep, ...updates } });
+  const parseCount = (value: string) => {
+    const val = parseInt(value);
+    return isNaN(val) ? 1 : Math.min(9999, Math.max(1, val));
+  };
+
+  // GPU Accelerators (attached, N1 only)
+  const selectedAccelerator = ACCELERATOR_TYPES.find(a => a.id === state.acceleratorType);
+  const canAttachAccelerator = !state.selectedMachineType || ACCELERATOR_ATTACHABLE_SERIES.includes(state.selectedMachineType.split('-')[0].toUpperCase());
+  const isAcceleratorInRegion = !selectedAccelerator || regionAccelerators.some(a => a.id === selectedAccelerator.id);
+  // Keep an unavailable selection visible so it can be flagged and cleared
+  const acceleratorOptions = selectedAccelerator && !isAcceleratorInRegion ? [...regionAccelerators, selectedAccelerator] : regionAccelerators;
+  const selectAccelerator = (id: string) => {
+    const option = ACCELERATOR_TYPES.find(a => a.id === id);
+    const count = option && option.validCounts.includes(state.acceleratorCount) ? state.acceleratorCount : 1;
+    updateState({ acceleratorType: id, acceleratorCount: count });
+  };
+
+  const provisioningOptions = [
+    { value: ProvisioningModel.SPOT, label: 'Spot', desc: 'Preemptible, lowest cost' },
+    { value: ProvisioningModel.STANDARD, label: 'On-Demand', desc: 'Standard, no preemption' },
+  ];
+
+  // Ranked Fallback Types (rank 2+)
+  const alternatives = state.alternativeMachineTypes;
+  const fallbackOptions = useMemo(() => 
+    filteredMachineTypes.filter(m => m.id !== state.selectedMachineType && !alternatives.includes(m.id)),
+    [filteredMachineTypes, state.selectedMachineType, alternatives]
+  );
+
+  const addAlternative = (id: string) => {
+    if (!id || id === state.selectedMachineType || alternatives.includes(id)) return;
+    updateState({ alternativeMachineTypes: [...alternatives, id] });
+  };
+
+  const removeAlternative = (index: number) => {
+    updateState({ alternativeMachineTypes: alternatives.filter((_, i) => i !== index) });
+  };
+
+  const promoteAlternative = (index: number) => {
+    if (index === 0) return;
+    const next = [...alternatives];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    updateState({ alternativeMachineTypes: next });
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
        
@@ -102,6 +221,21 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                   <h2 className="text-xs font-bold uppercase text-slate-400 dark:text-slate-500 tracking-widest flex items-center gap-2">
                      <Icons.Layers size={14} /> Workload Configuration
                   </h2>
+                  <div className="flex bg-slate-50 dark:bg-slate-950 p-0.5 rounded-lg border border-slate-200 dark:border-slate-800">
+                      {([['single', 'Single Region'], ['multiRegion', 'Multi-Region'], ['sweep', 'Count Sweep']] as const).map(([mode, label]) => (
+                          <button
+                              key={mode}
+                              onClick={() => updateState({ analysisMode: mode })}
+                              className={`px-2.5 py-1 rounded-md text-[9px] font-bold uppercase tracking-wide transition-all ${
+                                  state.analysisMode === mode
+                                  ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-300 shadow-sm ring-1 ring-slate-200 dark:ring-slate-700'
+                                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                              }`}
+                          >
+                              {label}
+                          </button>
+                      ))}
+                  </div>
                </div>
 
                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -204,12 +338,178 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                              placeholder="Search instance type..."
                              error={state.validationErrors?.machineType}
                           />
+                          {!isFanOut && zonesMissingMachineType.length > 0 && (
+                              <p className="flex items-center gap-1 text-[9px] font-medium text-amber-600 dark:text-amber-400 mt-1 ml-1">
+                                  <Icons.Alert size={10} />
+                                  {zonesMissingMachineType.length === (regionConfig[state.region] || []).length
+                                      ? `${state.selectedMachineType} is not offered anywhere in ${state.region}.`
+                                      : `${state.selectedMachineType} not offered in ${zonesMissingMachineType.join(', ')}.`}
+                              </p>
+                          )}
+                       </div>
+
+                       {/* Ranked Fallback Types */}
+                       <div className="relative z-40">
+                          <Autocomplete 
+                             key={`fallback-${alternatives.length}`}
+                             label="Fallback Types (Ranked)"
+                             options={fallbackOptions}
+                             value=""
+                             onChange={addAlternative}
+                             placeholder="Add an acceptable alternative..."
+                          />
+                          {alternatives.length > 0 && (
+                              <div className="mt-2 space-y-1.5">
+                                  {alternatives.map((type, idx) => (
+                                      <div key={type} className="flex items-center justify-between bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-1.5 shadow-sm">
+                                          <div className="flex items-center gap-2 min-w-0">
+                                              <span className="text-[9px] font-black text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800 rounded px-1.5 py-0.5">#{idx + 2}</span>
+                                              <span className="text-xs font-mono font-bold text-slate-700 dark:text-slate-200 truncate">{type}</span>
+                                          </div>
+                                          <div className="flex items-center gap-1 shrink-0">
+                                              <button
+                                                  onClick={() => promoteAlternative(idx)}
+                                                  disabled={idx === 0}
+                                                  className="p-1 text-slate-400 hover:text-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                                  title="Increase Priority"
+                                              >
+                                                  <Icons.ArrowUp size={12} />
+                                              </button>
+                                              <button
+                                                  onClick={() => removeAlternative(idx)}
+                                                  className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                                                  title="Remove Fallback"
+                                              >
+                                                  <Icons.Cancel size={12} />
+                                              </button>
+                                          </div>
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                       </div>
+
+                       {/* GPU Accelerators */}
+                       <div>
+                           <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">GPU Accelerator</label>
+                           <div className={`flex flex-wrap gap-1.5 rounded-lg ${state.validationErrors?.accelerator ? 'ring-1 ring-red-500 p-1' : ''}`}>
+                               {[{ id: '', name: 'None' }, ...acceleratorOptions].map(option => {
+                                   const isSelected = state.acceleratorType === option.id;
+                                   const isUnavailable = isSelected && !isAcceleratorInRegion;
+                                   return (
+                                       <motion.button
+                                           key={option.id || 'none'}
+                                           whileTap={{ scale: 0.95 }}
+                                           onClick={() => selectAccelerator(option.id)}
+                                           disabled={!!option.id && !canAttachAccelerator && !isSelected}
+                                           className={`px-2.5 py-1 rounded-md text-[9px] font-bold uppercase tracking-wide border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                                               isUnavailable
+                                               ? 'bg-amber-500 text-white border-amber-500 shadow-sm'
+                                               : isSelected 
+                                               ? 'bg-indigo-600 text-white border-indigo-600 shadow-sm' 
+                                               : 'bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-800 hover:border-indigo-300 dark:hover:border-slate-600'
+                                           }`}
+                                       >
+                                           {option.name}
+                                       </motion.button>
+                                   );
+                               })}
+                           </div>
+                           {selectedAccelerator && (
+                               <div className="flex items-center gap-1.5 mt-2 ml-1">
+                                   <span className="text-[9px] font-bold uppercase text-slate-400">GPUs per VM</span>
+                                   {selectedAccelerator.validCounts.map(count => (
+                                       <button
+                                           key={count}
+                                           onClick={() => updateState({ acceleratorCount: count })}
+                                           className={`w-6 h-6 rounded-md text-[10px] font-bold border transition-all ${
+                                               state.acceleratorCount === count
+                                               ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300 border-indigo-300 dark:border-indigo-700'
+                                               : 'bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-800 hover:border-indigo-300'
+                                           }`}
+                                       >
+                                           {count}
+                                       </button>
+                                   ))}
+                               </div>
+                           )}
+                           {!canAttachAccelerator && (
+                               <p className="text-[9px] text-slate-400 mt-1 ml-1">Attached GPUs require an {ACCELERATOR_ATTACHABLE_SERIES.join('/')} machine type.</p>
+                           )}
+                           {selectedAccelerator && !isFanOut && zonesMissingAccelerator.length > 0 && (
+                               <p className="flex items-center gap-1 text-[9px] font-medium text-amber-600 dark:text-amber-400 mt-1 ml-1">
+                                   <Icons.Alert size={10} />
+                                   {isAcceleratorInRegion
+                                       ? `${selectedAccelerator.name} not offered in ${zonesMissingAccelerator.join(', ')}.`
+                                       : `${selectedAccelerator.name} is not offered anywhere in ${state.region}.`}
+                               </p>
+                           )}
                        </div>
-                       <MachineTypeInfo details={machineDetails} />
+
+                       <MachineTypeInfo 
+                          details={machineDetails} 
+                          attachedAccelerator={selectedAccelerator ? { acceleratorType: selectedAccelerator.id, acceleratorCount: state.acceleratorCount } : undefined} 
+                       />
                    </div>
                    
                    {/* Right Column: Region & Shape */}
                    <div className="space-y-4">
+                       {isFanOut ? (
+                       <div className="relative z-40">
+                           <RegionAutocomplete 
+                                key={`fanout-${fanOutRegions.length}`}
+                                label="Target Regions"
+                                options={fanOutOptions}
+                                value=""
+                                onChange={addFanOutRegion}
+                                placeholder="Add a region..."
+                                isLoading={isFetchingRegions}
+                                error={state.validationErrors?.fanOutRegions}
+                           />
+                           <div className="flex flex-wrap gap-1.5 mt-2">
+                               {continents.map(continent => (
+                                   <motion.button
+                                       key={continent}
+                                       whileTap={{ scale: 0.95 }}
+                                       onClick={() => selectContinent(continent)}
+                                       className="flex items-center gap-1 px-2.5 py-1 rounded-md text-[9px] font-bold uppercase tracking-wide border bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-800 hover:border-indigo-300 dark:hover:border-slate-600 transition-all"
+                                       title={`Compare every region in ${continent}`}
+                                   >
+                                       <Icons.Globe size={10} />
+                                       {continent}
+                                   </motion.button>
+                               ))}
+                           </div>
+                           {fanOutRegions.length > 0 && (
+                               <div className="mt-2">
+                                   <div className="flex items-center justify-between mb-1.5 ml-1">
+                                       <span className="text-[9px] font-bold uppercase text-slate-400">{fanOutRegions.length} regions selected</span>
+                                       <button
+                                           onClick={() => updateState({ fanOutRegions: [] })}
+                                           className="text-[9px] font-bold uppercase text-slate-400 hover:text-indigo-500 transition-colors"
+                                       >
+                                           Clear
+                                       </button>
+                                   </div>
+                                   <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto">
+                                       {fanOutRegions.map(region => (
+                                           <span key={region} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-md text-[10px] font-mono font-bold border bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 border-indigo-100 dark:border-indigo-800">
+                                               {region}
+                                               <button
+                                                   onClick={() => updateState({ fanOutRegions: fanOutRegions.filter(r => r !== region) })}
+                                                   className="p-0.5 text-indigo-400 hover:text-red-500 transition-colors"
+                                                   title="Remove Region"
+                                               >
+                                                   <Icons.Cancel size={10} />
+                                               </button>
+                                           </span>
+                                       ))}
+                                   </div>
+                               </div>
+                           )}
+                       </div>
+                       ) : (
+                       <>
                        <div className="group relative z-40">
                            <RegionAutocomplete 
                                 label="Target Region"
@@ -242,7 +542,114 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                                )}
                            </AnimatePresence>
                        </div>
+
+                       {/* Zone Policy */}
+                       {regionZones.length > 0 && (
+                           <div>
+                               <div className="flex items-center justify-between mb-1.5 ml-1">
+                                   <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">Zone Policy</label>
+                                   {(state.includedZones.length > 0 || state.excludedZones.length > 0) && (
+                                       <button
+                                           onClick={() => updateState({ includedZones: [], excludedZones: [] })}
+                                           className="text-[9px] font-bold uppercase text-slate-400 hover:text-indigo-500 transition-colors"
+                                       >
+                                           Reset
+                                       </button>
+                                   )}
+                               </div>
+                               <div className={`flex flex-wrap gap-1.5 rounded-lg ${state.validationErrors?.zones ? 'ring-1 ring-red-500 p-1' : ''}`}>
+                                   {regionZones.map(zone => {
+                                       const isIncluded = state.includedZones.includes(zone);
+                                       const isExcluded = state.excludedZones.includes(zone);
+                                       const lacksAccelerator = zonesMissingAccelerator.includes(zone);
+                                       const lacksMachineType = zonesMissingMachineType.includes(zone);
+                                       return (
+                                           <motion.button
+                                               key={zone}
+                                               whileTap={{ scale: 0.95 }}
+                                               onClick={() => cycleZonePolicy(zone)}
+                                               title={`${isIncluded ? 'Included (allowlist)' : isExcluded ? 'Excluded (denylist)' : 'Any'}${lacksMachineType ? ` • ${state.selectedMachineType} not offered` : ''}${lacksAccelerator ? ` • ${state.acceleratorType} not offered` : ''}`}
+                                               className={`flex items-center gap-1 px-2.5 py-1 rounded-md text-[10px] font-mono font-bold border transition-all ${
+                                                   isIncluded
+                                                   ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 border-emerald-300 dark:border-emerald-800'
+                                                   : isExcluded
+                                                       ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 border-red-200 dark:border-red-900/50 line-through'
+                                                       : 'bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-800 hover:border-indigo-300 dark:hover:border-slate-600'
+                                               }`}
+                                           >
+                                               {isIncluded && <Icons.Check size={10} />}
+                                               {isExcluded && <Icons.Cancel size={10} />}
+                                               {zone}
+                                               {(lacksMachineType || lacksAccelerator) && <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />}
+                                           </motion.button>
+                                       );
+                                   })}
+                               </div>
+                               <p className="text-[9px] text-slate-400 mt-1 ml-1">Click a zone to cycle: Any → Include only → Exclude.</p>
+                           </div>
+                       )}
+                       </>
+                       )}
                        
+                       {state.analysisMode === 'sweep' ? (
+                       <div className={`space-y-3 rounded-xl ${state.validationErrors?.sweep ? 'ring-1 ring-red-500 p-2' : ''}`}>
+                          <div className="grid grid-cols-3 gap-3">
+                              {([
+                                  ['minCount', 'Min Count'],
+                                  ['maxCount', 'Max Count'],
+                                  ['step', sweep.strategy === 'binary' ? 'Resolution' : 'Step']
+                              ] as const).map(([key, label]) => (
+                                  <div key={key}>
+                                      <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">{label}</label>
+                                      <input 
+                                        type="number" 
+                                        min="1"
+                                        max="9999"
+                                        value={sweep[key]}
+                                        onChange={(e) => updateSweep({ [key]: parseCount(e.target.value) })}
+                                        className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2.5 text-sm font-semibold focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all shadow-sm text-slate-900 dark:text-white"
+                                      />
+                                  </div>
+                              ))}
+                          </div>
+                          <div className="flex gap-3">
+                              <div className="w-1/2">
+                                  <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">Strategy</label>
+                                  <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-950 p-1 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+                                      {(['binary', 'linear'] as const).map(strategy => (
+                                          <button
+                                              key={strategy}
+                                              onClick={() => updateSweep({ strategy })}
+                                              className={`px-2 py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all ${
+                                                  sweep.strategy === strategy
+                                                  ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-300 shadow-sm ring-1 ring-slate-200 dark:ring-slate-700'
+                                                  : 'text-slate-500 dark:text-slate-400 hover:bg-white/60 dark:hover:bg-slate-900'
+                                              }`}
+                                          >
+                                              {strategy}
+                                          </button>
+                                      ))}
+                                  </div>
+                              </div>
+                              <div className="w-1/2">
+                                  <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">Target Obtainability (%)</label>
+                                  <input 
+                                    type="number" 
+                                    min="1"
+                                    max="100"
+                                    value={Math.round(sweep.targetObtainability * 100)}
+                                    onChange={(e) => {
+                                        let val = parseInt(e.target.value);
+                                        if (isNaN(val)) val = 1;
+                                        updateSweep({ targetObtainability: Math.min(100, Math.max(1, val)) / 100 });
+                                    }}
+                                    className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2.5 text-sm font-semibold focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all shadow-sm text-slate-900 dark:text-white"
+                                  />
+                              </div>
+                          </div>
+                          <p className="text-[9px] text-slate-400 ml-1">Each zone is probed as a single-zone placement to locate where its score collapses.</p>
+                       </div>
+                       ) : (
                        <div className="flex gap-4">
                           <div className="w-1/2 group relative z-10">
                               <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">Count</label>
@@ -329,6 +736,32 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                               </AnimatePresence>
                           </div>
                        </div>
+                       )}
+
+                       {/* Provisioning Model */}
+                       <div>
+                          <label className="block text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-1.5 ml-1">Provisioning Model</label>
+                          <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-950 p-1 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+                              {provisioningOptions.map(option => {
+                                  const isSelected = state.provisioningModel === option.value;
+                                  return (
+                                      <motion.button
+                                          key={option.value}
+                                          whileTap={{ scale: 0.98 }}
+                                          onClick={() => updateState({ provisioningModel: option.value })}
+                                          className={`px-3 py-2 rounded-lg text-left transition-all ${
+                                              isSelected
+                                              ? 'bg-white dark:bg-slate-800 shadow-sm ring-1 ring-slate-200 dark:ring-slate-700'
+                                              : 'hover:bg-white/60 dark:hover:bg-slate-900'
+                                          }`}
+                                      >
+                                          <p className={`text-xs font-bold ${isSelected ? 'text-indigo-600 dark:text-indigo-300' : 'text-slate-600 dark:text-slate-300'}`}>{option.label}</p>
+                                          <p className="text-[9px] text-slate-400 font-medium">{option.desc}</p>
+                                      </motion.button>
+                                  );
+                              })}
+                          </div>
+                       </div>
                    </div>
                </div>
            </div>
@@ -348,6 +781,47 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                             <Icons.Terminal /> Access Token
                        </label>
 
+                       {proxyMode ? (
+                           <div className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl p-3 flex items-center gap-3">
+                               <span className="text-indigo-600 dark:text-indigo-400"><Icons.Server size={18} /></span>
+                               <div className="min-w-0">
+                                   <p className="text-xs font-bold text-slate-800 dark:text-slate-100">Server-side credentials</p>
+                                   <p className="text-[9px] text-slate-500 dark:text-slate-400">
+                                       Requests go through the backend proxy, which authenticates with its own service account. No token is needed here.
+                                   </p>
+                               </div>
+                           </div>
+                       ) : state.authSession ? (
+                           <div className="bg-emerald-50 dark:bg-emerald-900/10 border border-emerald-200 dark:border-emerald-900/50 rounded-xl p-3 flex items-center gap-3">
+                               <span className="text-emerald-600 dark:text-emerald-400"><Icons.User size={18} /></span>
+                               <div className="min-w-0">
+                                   <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">{state.authSession.email || 'Signed in with Google'}</p>
+                                   <p className="text-[9px] text-slate-500 dark:text-slate-400">
+                                       Token renews automatically while you stay signed in to Google • expires {new Date(state.authSession.expiresAt).toLocaleTimeString()}
+                                   </p>
+                               </div>
+                           </div>
+                       ) : (
+                       <>
+                       <button
+                           onClick={onSignIn}
+                           disabled={!isSignInConfigured || isSigningIn}
+                           title={isSignInConfigured ? 'Sign in with read-only Cloud Platform access' : 'Set VITE_OAUTH_CLIENT_ID to enable Google sign-in'}
+                           className={`w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-bold uppercase tracking-wider border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                               state.validationErrors?.accessToken
+                               ? 'border-red-500 text-red-600 dark:text-red-400'
+                               : 'border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40'
+                           }`}
+                       >
+                           <Icons.LogIn />
+                           {isSigningIn ? 'Waiting for Google...' : 'Sign in with Google'}
+                       </button>
+
+                       <div className="flex items-center gap-2 text-[9px] font-bold uppercase text-slate-400">
+                           <div className="flex-1 h-px bg-slate-200 dark:bg-slate-800"></div>
+                           or paste a token
+                           <div className="flex-1 h-px bg-slate-200 dark:bg-slate-800"></div>
+                       </div>
                        <div className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl p-3 flex items-center justify-between group/cmd transition-colors">
                           <div className="flex flex-col">
                               <span className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider mb-0.5">CLI Helper</span>
@@ -372,10 +846,32 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = React.memo(({
                            }`}
                            placeholder="Paste token here..."
                        />
+                       </>
+                       )}
+
+                       <TokenStatus tokenInfo={tokenInfo} isChecking={isCheckingToken} />
                    </div>
                </motion.div>
            )}
 
+           <motion.div 
+             initial={{ opacity: 0, x: 20 }}
+             animate={{ opacity: 1, x: 0 }}
+             transition={{ delay: 0.15 }}
+             className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm p-6"
+           >
+               <ScenarioLibrary scenarios={scenarios} actions={scenarioActions} />
+           </motion.div>
+
+           <motion.div 
+             initial={{ opacity: 0, x: 20 }}
+             animate={{ opacity: 1, x: 0 }}
+             transition={{ delay: 0.15 }}
+             className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm p-6"
+           >
+               <WatchModeCard status={watchStatus} actions={watchActions} />
+           </motion.div>
+
            <motion.button 
               onClick={onSearch}
               disabled={isSearchDisabled}
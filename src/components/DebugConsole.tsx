@@ -1,7 +1,10 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { DebugData, AppState } from '../types';
 import { Icons } from '../constants';
+import { apiRequestCache } from '../services/requestCache';
+import { RATE_LIMITS, RateLimitBucket } from '../services/rateLimiter';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
 
 interface DebugConsoleProps {
   data: DebugData;
@@ -59,6 +62,18 @@ const DebugConsole: React.FC<DebugConsoleProps> = ({ data, state, isOpen, onTogg
   const [logFilter, setLogFilter] = useState('');
   const [expandedLogs, setExpandedLogs] = useState<number[]>([]);
   const [height, setHeight] = useState(400);
+  const [cacheSize, setCacheSize] = useState(() => apiRequestCache.size());
+  const rateLimits = useRateLimitStatus(isOpen ? 2000 : undefined);
+
+  // New traffic may have filled or expired cache entries
+  useEffect(() => {
+    setCacheSize(apiRequestCache.size());
+  }, [data.network, activeTab]);
+
+  const bustCache = () => {
+    apiRequestCache.clear();
+    setCacheSize(0);
+  };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -123,6 +138,35 @@ Language: ${navigator.language}
                <h4 className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Environment Telemetry</h4>
                <pre className="text-[10px] text-indigo-600 dark:text-indigo-300 font-mono-dense whitespace-pre-wrap">{sysInfo}</pre>
             </div>
+            <div className="md:col-span-2 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700/50">
+               <h4 className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-3 flex justify-between">
+                  <span>Rate Limit Buckets</span>
+                  <span className="text-slate-400 normal-case font-medium">Shared across open tabs</span>
+               </h4>
+               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                 {(Object.keys(rateLimits) as RateLimitBucket[]).map(bucket => {
+                   const status = rateLimits[bucket];
+                   const level = status.limit > 0 ? status.remaining / status.limit : 0;
+                   return (
+                     <div key={bucket}>
+                       <div className="flex justify-between text-[10px] mb-1">
+                         <span className="font-bold text-slate-700 dark:text-slate-300">{RATE_LIMITS[bucket].label}</span>
+                         <span className="font-mono-dense text-slate-500">{status.remaining}/{status.limit} per {RATE_LIMITS[bucket].windowSeconds}s</span>
+                       </div>
+                       <div className="h-1.5 bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                         <div
+                           className={`h-full transition-all ${level > 0.5 ? 'bg-emerald-500' : level > 0.2 ? 'bg-amber-500' : 'bg-red-500'}`}
+                           style={{ width: `${level * 100}%` }}
+                         />
+                       </div>
+                       {status.queued > 0 && (
+                         <span className="text-[9px] font-bold text-amber-600 dark:text-amber-400">{status.queued} queued</span>
+                       )}
+                     </div>
+                   );
+                 })}
+               </div>
+            </div>
           </div>
         );
 
@@ -289,9 +333,25 @@ Language: ${navigator.language}
          );
 
       case 'network':
-        if (data.network.length === 0) return <div className="text-slate-500 text-[10px] italic p-4">No network traffic recorded.</div>;
+        const cacheBar = (
+          <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-900/50 px-3 py-2 rounded border border-slate-200 dark:border-slate-700/50">
+            <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">
+              Response Cache • {cacheSize} {cacheSize === 1 ? 'entry' : 'entries'}
+            </span>
+            <button
+              onClick={bustCache}
+              disabled={cacheSize === 0}
+              className="text-[10px] bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-700 dark:text-white px-3 py-1 rounded border border-slate-300 dark:border-slate-600 transition-colors disabled:opacity-40"
+              title="Drop cached responses so the next requests go to the API"
+            >
+              Clear Cache
+            </button>
+          </div>
+        );
+        if (data.network.length === 0) return <div className="space-y-3">{cacheBar}<div className="text-slate-500 text-[10px] italic p-4">No network traffic recorded.</div></div>;
         return (
           <div className="space-y-3 pb-4">
+            {cacheBar}
             {data.network.map(entry => (
               <div key={entry.id} className="bg-white dark:bg-slate-900/50 p-3 rounded border border-slate-200 dark:border-slate-700/50 hover:border-slate-300 dark:hover:border-slate-600 transition-colors group">
                 <div className="flex justify-between items-start mb-2">
@@ -308,6 +368,21 @@ Language: ${navigator.language}
                             HTTP {entry.status}
                         </span>
                      )}
+                     {entry.attempt !== undefined && entry.attempt > 1 && (
+                        <span className="text-[9px] px-1.5 py-0.5 rounded font-bold text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/20">
+                            Retry #{entry.attempt - 1}
+                        </span>
+                     )}
+                     {entry.cache && entry.cache !== 'miss' && (
+                        <span className="text-[9px] px-1.5 py-0.5 rounded font-bold text-sky-600 dark:text-sky-400 bg-sky-100 dark:bg-sky-900/20" title={entry.cache === 'hit' ? 'Served from the response cache' : 'Joined an identical request already in flight'}>
+                            {entry.cache === 'hit' ? 'Cache Hit' : 'Coalesced'}
+                        </span>
+                     )}
+                     {entry.cache === 'miss' && (
+                        <span className="text-[9px] px-1.5 py-0.5 rounded font-bold text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800">
+                            Cache Miss
+                        </span>
+                     )}
                    </div>
                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                        <button 
@@ -1,16 +1,23 @@
 
 import React from 'react';
 import { Icons } from '../constants';
-import { AppState } from '../types';
+import { AppState, AuthSession } from '../types';
 import { motion } from 'framer-motion';
+import RateLimitIndicator from './RateLimitIndicator';
 
 interface HeaderProps {
   mockMode: boolean;
   darkMode: boolean;
   onUpdate: (updates: Partial<AppState>) => void;
+  authSession: AuthSession | null;
+  isSigningIn: boolean;
+  isSignInConfigured: boolean;
+  onSignIn: () => void;
+  onSignOut: () => void;
+  onOpenHistory: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ mockMode, darkMode, onUpdate }) => {
+const Header: React.FC<HeaderProps> = ({ mockMode, darkMode, onUpdate, authSession, isSigningIn, isSignInConfigured, onSignIn, onSignOut, onOpenHistory }) => {
   return (
     <nav className="sticky top-0 z-40 bg-white/80 dark:bg-[#020617]/80 border-b border-slate-200 dark:border-slate-800 shadow-sm backdrop-blur-xl transition-all duration-300">
       <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -43,6 +50,9 @@ const Header: React.FC<HeaderProps> = ({ mockMode, darkMode, onUpdate }) => {
         
         {/* Controls */}
         <div className="flex items-center gap-4">
+           {/* Rate Limiter Queue */}
+           {!mockMode && <RateLimitIndicator />}
+
            {/* Environment Toggles */}
            <div className="hidden md:flex items-center gap-1 bg-slate-100/50 dark:bg-slate-900/50 p-1 rounded-xl border border-slate-200 dark:border-slate-800">
               <button 
@@ -59,8 +69,43 @@ const Header: React.FC<HeaderProps> = ({ mockMode, darkMode, onUpdate }) => {
               </button>
            </div>
            
+           {/* Signed-in Identity */}
+           {!mockMode && (authSession ? (
+              <div className="hidden sm:flex items-center gap-2 pl-2.5 pr-1 py-1 rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+                 <span className="text-emerald-600 dark:text-emerald-400"><Icons.User /></span>
+                 <span className="text-[10px] font-bold text-slate-700 dark:text-slate-200 max-w-[180px] truncate" title={`Token valid until ${new Date(authSession.expiresAt).toLocaleTimeString()}`}>
+                    {authSession.email || 'Signed in'}
+                 </span>
+                 <button
+                    onClick={onSignOut}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    title="Sign out"
+                 >
+                    <Icons.LogOut size={12} />
+                 </button>
+              </div>
+           ) : isSignInConfigured && (
+              <button
+                 onClick={onSignIn}
+                 disabled={isSigningIn}
+                 className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-[10px] font-bold uppercase tracking-wider border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-300 hover:border-indigo-300 transition-colors disabled:opacity-50"
+              >
+                 <Icons.LogIn size={12} />
+                 {isSigningIn ? 'Signing in...' : 'Sign in'}
+              </button>
+           ))}
+
            <div className="w-px h-6 bg-slate-200 dark:bg-slate-800 hidden sm:block"></div>
            
+           {/* Run History */}
+           <button
+              onClick={onOpenHistory}
+              className="p-2.5 text-slate-500 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-indigo-300 transition-colors rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 border border-transparent hover:border-slate-200 dark:hover:border-slate-700"
+              title="Run History"
+           >
+              <Icons.History size={18} />
+           </button>
+
            {/* Theme Toggle */}
            <motion.button 
               whileTap={{ scale: 0.9, rotate: 15 }}
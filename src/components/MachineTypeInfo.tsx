@@ -1,16 +1,24 @@
 
 import React from 'react';
-import { MachineTypeOption } from '../config';
+import { MachineTypeOption, ACCELERATOR_TYPES } from '../config';
+import { GuestAccelerator } from '../types';
 import { Icons } from '../constants';
 
 interface MachineTypeInfoProps {
   details: MachineTypeOption | undefined;
+  /** GPUs attached on top of the machine type (N1 only). */
+  attachedAccelerator?: GuestAccelerator;
 }
 
-const MachineTypeInfo: React.FC<MachineTypeInfoProps> = ({ details }) => {
+const MachineTypeInfo: React.FC<MachineTypeInfoProps> = ({ details, attachedAccelerator }) => {
   if (!details) return null;
 
-  const isGPU = details.family.includes('GPU') || details.family.includes('Accelerator');
+  const isGPU = details.family.includes('GPU') || details.family.includes('Accelerator') || !!attachedAccelerator;
+  const gpu = attachedAccelerator
+    ? { label: ACCELERATOR_TYPES.find(a => a.id === attachedAccelerator.acceleratorType)?.name || attachedAccelerator.acceleratorType, count: attachedAccelerator.acceleratorCount, attached: true }
+    : details.accelerator
+      ? { label: details.accelerator.type, count: details.accelerator.count, attached: false }
+      : null;
 
   return (
     <div className="bg-slate-50 dark:bg-slate-900/50 rounded-2xl p-4 border border-slate-200 dark:border-slate-700 mt-2 space-y-3 transition-colors">
@@ -42,10 +50,17 @@ const MachineTypeInfo: React.FC<MachineTypeInfoProps> = ({ details }) => {
           </div>
         </div>
       </div>
-      <div className="pt-2 border-t border-slate-200/60 dark:border-slate-700">
+      <div className="pt-2 border-t border-slate-200/60 dark:border-slate-700 space-y-1">
         <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400">
           <span className="text-slate-400 dark:text-slate-500">Family:</span> {details.family}
         </p>
+        {gpu && (
+          <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 flex items-center gap-1">
+            <span className="text-slate-400 dark:text-slate-500">GPU:</span>
+            <span className="text-indigo-600 dark:text-indigo-300">{gpu.count}x {gpu.label}</span>
+            <span className="text-slate-400 dark:text-slate-500 font-medium">({gpu.attached ? 'attached' : 'built-in'})</span>
+          </p>
+        )}
       </div>
     </div>
   );
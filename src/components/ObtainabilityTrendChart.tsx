@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { RunRecord } from '../services/runHistoryStore';
+import { TREND_WINDOWS, buildZoneTrend, filterRunsByWindow } from '../services/trendService';
+
+interface ObtainabilityTrendChartProps {
+  /** Runs of the current configuration, oldest first. */
+  runs: RunRecord[];
+}
+
+const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+const obtainabilityKey = (zone: string) => `${zone}|obtainability`;
+const uptimeKey = (zone: string) => `${zone}|uptime`;
+
+const formatTime = (time: number, span: number) =>
+  span > 24 * 60 * 60 * 1000
+    ? new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const TrendTooltip = ({ active, payload, zones }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-slate-900 dark:bg-slate-800 text-white p-3 rounded-lg shadow-2xl border border-slate-700/50 ring-1 ring-white/10 backdrop-blur-md min-w-[200px]">
+        <div className="font-bold text-xs mb-2 border-b border-slate-700/80 pb-2">{new Date(point.completedAt).toLocaleString()}</div>
+        <div className="space-y-1.5">
+          {zones.map((zone: string, index: number) => (
+            <div key={zone} className="flex justify-between gap-4 text-[10px]">
+              <span className="text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></span>
+                {zone}
+              </span>
+              {point[obtainabilityKey(zone)] === undefined ? (
+                <span className="text-slate-500">Not recommended</span>
+              ) : (
+                <span className="font-mono font-bold text-slate-200">
+                  {point[obtainabilityKey(zone)]}%
+                  {point[uptimeKey(zone)] !== undefined && <span className="text-slate-400 font-normal"> • up {point[uptimeKey(zone)]}%</span>}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Obtainability (solid) and uptime (dashed) per zone across stored runs of the same configuration.
+ */
+const ObtainabilityTrendChart: React.FC<ObtainabilityTrendChartProps> = React.memo(({ runs }) => {
+  const [windowId, setWindowId] = useState('24h');
+  const trendWindow = TREND_WINDOWS.find(w => w.id === windowId) || TREND_WINDOWS[0];
+
+  const trend = useMemo(() => buildZoneTrend(filterRunsByWindow(runs, trendWindow)), [runs, trendWindow]);
+
+  const data = useMemo(() => trend.points.map(point => ({
+    completedAt: point.completedAt,
+    ...Object.fromEntries(Object.entries(point.zones).flatMap(([zone, score]) => [
+      [obtainabilityKey(zone), Math.round(score.obtainability * 100)],
+      ...(score.uptime !== null ? [[uptimeKey(zone), Math.round(score.uptime * 100)]] : [])
+    ]))
+  })), [trend]);
+
+  const span = data.length > 1 ? data[data.length - 1].completedAt - data[0].completedAt : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden"
+    >
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+        <div>
+          <h4 className="text-sm font-black uppercase text-slate-900 dark:text-white tracking-tight">Obtainability Trend</h4>
+          <span className="text-[10px] text-slate-500 font-bold uppercase">
+            {data.length} of {runs.length} runs • solid: obtainability, dashed: uptime
+          </span>
+        </div>
+        <div className="flex bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-1 shadow-sm self-start sm:self-center">
+          {TREND_WINDOWS.map(w => (
+            <button
+              key={w.id}
+              onClick={() => setWindowId(w.id)}
+              className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase transition-colors ${
+                w.id === trendWindow.id
+                ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300'
+                : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+              }`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full h-[300px] p-4">
+        {data.length < 2 ? (
+          <div className="h-full flex items-center justify-center text-xs text-slate-500 text-center px-6">
+            Fewer than two runs in this window. Widen it, re-run the analysis, or turn on watch mode to build a trend.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.1} />
+              <XAxis
+                dataKey="completedAt"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => formatTime(time, span)}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#94a3b8', fontSize: 10, fontWeight: 600 }}
+                dy={10}
+              />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 10 }} domain={[0, 100]} />
+              <Tooltip content={<TrendTooltip zones={trend.zones} />} />
+              <Legend wrapperStyle={{ fontSize: '10px', paddingTop: '10px', opacity: 0.7 }} />
+              {trend.zones.flatMap((zone, idx) => [
+                <Line
+                  key={obtainabilityKey(zone)}
+                  name={zone}
+                  type="monotone"
+                  dataKey={obtainabilityKey(zone)}
+                  stroke={COLORS[idx % COLORS.length]}
+                  strokeWidth={2}
+                  dot={{ r: 3, strokeWidth: 0, fill: COLORS[idx % COLORS.length] }}
+                  isAnimationActive={false}
+                />,
+                <Line
+                  key={uptimeKey(zone)}
+                  name={`${zone} uptime`}
+                  legendType="none"
+                  type="monotone"
+                  dataKey={uptimeKey(zone)}
+                  stroke={COLORS[idx % COLORS.length]}
+                  strokeWidth={1}
+                  strokeDasharray="4 3"
+                  strokeOpacity={0.6}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ])}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </motion.div>
+  );
+});
+
+export default ObtainabilityTrendChart;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { QuotaCheckResult } from '../types';
+import { Icons } from '../constants';
+
+interface QuotaVerdictCardProps {
+  quotaCheck: QuotaCheckResult;
+}
+
+/**
+ * Hard quota verdict from the region's live quotas: capacity is moot if the project can't cover the request.
+ */
+const QuotaVerdictCard: React.FC<QuotaVerdictCardProps> = ({ quotaCheck }) => {
+  const { sufficient, checks, region } = quotaCheck;
+
+  return (
+    <div className={`rounded-2xl border shadow-sm overflow-hidden ${
+        sufficient
+        ? 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800'
+        : 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900/50'
+    }`}>
+      <div className="px-6 py-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span className={sufficient ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+            {sufficient ? <Icons.Check /> : <Icons.Alert />}
+          </span>
+          <div>
+            <h3 className="text-xs font-black uppercase text-slate-900 dark:text-white tracking-wider">
+              Quota {sufficient ? 'Sufficient' : 'Insufficient'}
+            </h3>
+            <p className="text-[10px] text-slate-500 dark:text-slate-400">
+              {checks.length === 0
+                ? `No matching quota metrics reported for ${region}.`
+                : sufficient
+                  ? `The request fits within the remaining quota in ${region}.`
+                  : `The request exceeds the remaining quota in ${region}. Provisioning will fail regardless of capacity.`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {checks.length > 0 && (
+        <div className="border-t border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+          {checks.map(check => (
+            <div key={check.metric} className="grid grid-cols-12 gap-4 items-center px-6 py-2.5 text-[10px]">
+              <div className="col-span-4 font-mono font-bold text-slate-800 dark:text-slate-100 truncate">{check.metric}</div>
+              <div className="col-span-5 flex items-center gap-3">
+                <div className="flex-1 h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${check.sufficient ? 'bg-emerald-500' : 'bg-red-500'}`}
+                    style={{ width: `${check.limit > 0 ? Math.min(100, ((check.usage + check.required) / check.limit) * 100) : 100}%` }}
+                  />
+                </div>
+                <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                  {check.usage} used / {check.limit}
+                </span>
+              </div>
+              <div className={`col-span-3 text-right font-bold ${check.sufficient ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                Needs {check.required} • {check.available} free
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotaVerdictCard;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Icons } from '../constants';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
+
+/**
+ * "N requests queued" chip, shown while the client-side rate limiter holds requests back.
+ */
+const RateLimitIndicator: React.FC = () => {
+  const waiting = Object.values(useRateLimitStatus()).filter(status => status.queued > 0);
+  const queued = waiting.reduce((sum, status) => sum + status.queued, 0);
+  const nextTokenAt = Math.min(...waiting.map(status => status.nextTokenAt));
+  const nextInSeconds = Math.max(0, Math.ceil((nextTokenAt - Date.now()) / 1000));
+
+  return (
+    <AnimatePresence>
+      {queued > 0 && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400"
+          title="Requests are waiting for a client-side rate limit bucket (see the Debug Console)"
+        >
+          <Icons.Refresh size={12} className="animate-spin" />
+          <span className="text-[10px] font-bold whitespace-nowrap">
+            {queued} {queued === 1 ? 'request' : 'requests'} queued
+          </span>
+          <span className="hidden sm:inline text-[9px] font-medium opacity-80 whitespace-nowrap">
+            • next in {nextInSeconds}s
+          </span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RateLimitIndicator;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { RegionRunResult } from '../types';
+import { REGION_METADATA } from '../config';
+import { Icons } from '../constants';
+
+interface RegionFanOutSummaryProps {
+  regions: string[];
+  results: RegionRunResult[];
+  loading: boolean;
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 0.7) return 'bg-emerald-500';
+  if (score >= 0.4) return 'bg-amber-500';
+  return 'bg-red-500';
+};
+
+/**
+ * Per-region status of a multi-region fan-out run, ranked by best obtainability.
+ * Failed regions stay in the list with their error instead of aborting the run.
+ */
+const RegionFanOutSummary: React.FC<RegionFanOutSummaryProps> = ({ regions, results, loading }) => {
+  const settled = new Map(results.map(r => [r.region, r]));
+  const rows = [...regions].sort((a, b) => {
+    const ra = settled.get(a);
+    const rb = settled.get(b);
+    if (!ra || !rb) return ra ? -1 : rb ? 1 : 0;
+    if (ra.status !== rb.status) return ra.status === 'success' ? -1 : 1;
+    return rb.topObtainability - ra.topObtainability;
+  });
+  const failedCount = results.filter(r => r.status === 'error').length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-indigo-600 dark:text-indigo-400"><Icons.Globe /></span>
+          <h3 className="text-xs font-black uppercase text-slate-900 dark:text-white tracking-wider">Region Comparison</h3>
+        </div>
+        <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400">
+          {results.length}/{regions.length} settled{failedCount > 0 ? ` • ${failedCount} failed` : ''}
+        </span>
+      </div>
+
+      <div className="divide-y divide-slate-100 dark:divide-slate-800">
+        {rows.map(region => {
+          const result = settled.get(region);
+          return (
+            <motion.div
+              key={region}
+              layout
+              className="grid grid-cols-12 gap-4 items-center px-6 py-2.5"
+            >
+              <div className="col-span-4 min-w-0">
+                <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100 truncate">{region}</p>
+                <p className="text-[9px] text-slate-400 truncate">{REGION_METADATA[region]?.name || 'Unknown location'}</p>
+              </div>
+
+              {!result ? (
+                <div className="col-span-8 text-[10px] font-bold uppercase text-slate-400 animate-pulse">
+                  {loading ? 'Querying...' : 'Not queried'}
+                </div>
+              ) : result.status === 'error' ? (
+                <div className="col-span-8 flex items-start gap-2 text-red-600 dark:text-red-400">
+                  <span className="shrink-0 mt-0.5"><Icons.Alert size={12} /></span>
+                  <p className="text-[10px] leading-snug">{result.error}</p>
+                </div>
+              ) : (
+                <>
+                  <div className="col-span-5 flex items-center gap-3">
+                    <div className="flex-1 h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                      <div className={`h-full ${getScoreColor(result.topObtainability)}`} style={{ width: `${result.topObtainability * 100}%` }} />
+                    </div>
+                    <span className="text-xs font-black text-slate-700 dark:text-slate-200 w-10 text-right">{(result.topObtainability * 100).toFixed(0)}%</span>
+                  </div>
+                  <div className="col-span-3 text-right text-[10px] font-bold text-slate-500 dark:text-slate-400">
+                    {result.recommendationCount} options • {result.latencyMs}ms
+                  </div>
+                </>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RegionFanOutSummary;
@@ -1,24 +1,48 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { AppState } from '../types';
 import { Icons } from '../constants';
+import { getProvisioningModelLabel, getGuestAccelerators } from '../utils';
 import ScoreGauge from './ScoreGauge';
 import ZoneDistributionChart from './ZoneDistributionChart';
 import ZoneComparisonChart from './ZoneComparisonChart';
 import GeminiCard from './GeminiCard';
+import RegionFanOutSummary from './RegionFanOutSummary';
+import SweepChart from './SweepChart';
+import QuotaVerdictCard from './QuotaVerdictCard';
+import ObtainabilityTrendChart from './ObtainabilityTrendChart';
+import { RunRecord } from '../services/runHistoryStore';
+import { pickScenarioConfig } from '../services/scenarioStore';
+import { selectTrendRuns, buildPlacementSparklines } from '../services/trendService';
 import { SkeletonCard, DistributionSkeleton, GeminiSkeleton } from './SkeletonCard';
 
 interface ResultsDashboardProps {
   state: AppState;
+  /** Run history, newest first; runs of the current configuration feed the trend chart. */
+  runs: RunRecord[];
   onExport: (type: 'csv' | 'html' | 'pdf') => void;
   onClear: () => void;
 }
 
-const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, onExport, onClear }) => {
+const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, runs, onExport, onClear }) => {
+  const isFanOut = state.analysisMode === 'multiRegion';
+  const isSweep = state.analysisMode === 'sweep';
+  // Serialized so the memo only recomputes when the configuration itself changes
+  const configKey = JSON.stringify(pickScenarioConfig(state));
+  const trendRuns = useMemo(
+    () => selectTrendRuns(runs, JSON.parse(configKey), state.mockMode ? 'mock' : 'live'),
+    [runs, configKey, state.mockMode]
+  );
+  const sparklines = useMemo(() => buildPlacementSparklines(trendRuns), [trendRuns]);
+  const fanOutSummary = isFanOut && (state.loading || state.regionResults) ? (
+      <RegionFanOutSummary regions={state.fanOutRegions} results={state.regionResults || []} loading={state.loading} />
+  ) : null;
+  const quotaVerdict = state.quotaCheck ? <QuotaVerdictCard quotaCheck={state.quotaCheck} /> : null;
   
   // Error State - Simplified
   if (state.error) {
     return (
+        <div className="space-y-6">
         <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900/50 rounded-2xl p-6 animate-enter">
             <div className="flex items-start gap-4">
                 <div className="p-3 bg-white dark:bg-red-900/30 rounded-lg text-red-600 dark:text-red-400 shrink-0 shadow-sm border border-red-100 dark:border-red-800">
@@ -30,11 +54,14 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, onExport, on
                 </div>
             </div>
         </div>
+        {quotaVerdict}
+        {fanOutSummary}
+        </div>
     );
   }
 
   // Idle State (No Result, No Loading, No Grounding)
-  if (!state.result && !state.loading && !state.groundingLoading && !state.groundingMetadata) return null;
+  if (!state.result && !state.sweepResult && !state.loading && !state.groundingLoading && !state.groundingMetadata) return null;
 
   const topScore = state.result?.recommendations?.[0]?.scores?.find(s => s.name === 'obtainability')?.value || 0;
 
@@ -47,7 +74,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, onExport, on
               <div className="flex items-center gap-2 mt-1.5">
                   <span className={`w-2 h-2 rounded-full ${state.loading ? 'bg-slate-300' : state.mockMode ? 'bg-amber-400' : 'bg-emerald-500'} animate-pulse`}></span>
                   <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
-                      {state.loading ? 'ANALYZING...' : `${state.mockMode ? 'Simulated' : 'Live GCP'} • ${state.region}`}
+                      {state.loading ? 'ANALYZING...' : `${state.mockMode ? 'Simulated' : 'Live GCP'} • ${getProvisioningModelLabel(state.provisioningModel)} • ${isFanOut ? `${state.fanOutRegions.length} regions` : isSweep ? `${state.region} count sweep` : state.region}`}
                   </span>
               </div>
           </div>
@@ -85,6 +112,18 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, onExport, on
           </div>
        </div>
 
+       {quotaVerdict}
+       {fanOutSummary}
+
+       {isSweep ? (
+           state.loading || !state.sweepResult ? (
+               <div className="h-[420px]">
+                   <DistributionSkeleton />
+               </div>
+           ) : (
+               <SweepChart result={state.sweepResult} config={state.sweepConfig} />
+           )
+       ) : (
        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
            {/* Row 1, Col 1: Gauge */}
            <div className="h-[350px]">
@@ -123,19 +162,29 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ state, onExport, on
                        <SkeletonCard />
                    </div>
                ) : (
-                   <ZoneComparisonChart recommendations={state.result.recommendations} projectId={state.project} />
+                   <ZoneComparisonChart recommendations={state.result.recommendations} projectId={state.project} provisioningModel={state.provisioningModel} guestAccelerators={getGuestAccelerators(state.acceleratorType, state.acceleratorCount)} trends={sparklines} />
                )}
            </div>
+
+           {/* Row 3: Score trend across stored runs of this configuration */}
+           {!state.loading && state.result && trendRuns.length > 1 && (
+               <div className="xl:col-span-3">
+                   <ObtainabilityTrendChart runs={trendRuns} />
+               </div>
+           )}
            
-           {/* Row 3: AI Insights - Full Width */}
-           <div className="xl:col-span-3 min-h-[300px]">
-               {state.loading ? (
-                   <GeminiSkeleton />
-               ) : (
-                   <GeminiCard data={state.groundingMetadata} loading={state.groundingLoading} />
-               )}
-           </div>
+           {/* Row 4: AI Insights - Full Width (single-region runs only) */}
+           {!isFanOut && (
+               <div className="xl:col-span-3 min-h-[300px]">
+                   {state.loading ? (
+                       <GeminiSkeleton />
+                   ) : (
+                       <GeminiCard data={state.groundingMetadata} loading={state.groundingLoading} />
+                   )}
+               </div>
+           )}
        </div>
+       )}
     </div>
   );
 };
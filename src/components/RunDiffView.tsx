@@ -0,0 +1,194 @@
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Icons } from '../constants';
+import { RunRecord } from '../services/runHistoryStore';
+import { diffResponses, diffConfigs, getScore, RecommendationDiffRow, DiffStatus, Verdict } from '../services/runDiffService';
+import { getRiskTier } from '../utils';
+import { RISK_STYLES, ZONE_ROW_CLASS, ZONE_ROW_GRID_CLASS } from '../riskStyles';
+
+interface RunDiffViewProps {
+  /** Baseline (older) run and the run compared against it; null closes the view. */
+  runs: [RunRecord, RunRecord] | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; className: string }> = {
+  appeared: { label: 'New', className: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800' },
+  disappeared: { label: 'Gone', className: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800' },
+  changed: { label: 'Changed', className: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800' },
+  unchanged: { label: 'Same', className: 'bg-slate-50 dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700' }
+};
+
+const VERDICT_RANK: Record<Verdict, number> = { 'No-Go': 0, Caution: 1, Go: 2 };
+
+const formatPct = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const formatValue = (value: unknown): string =>
+  Array.isArray(value) ? (value.length > 0 ? value.join(', ') : 'none') : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value || '—');
+
+const Delta: React.FC<{ value: number | null }> = ({ value }) => {
+  if (value === null) return null;
+  const points = Math.round(value * 100);
+  if (points === 0) return <span className="text-[10px] font-mono text-slate-400">±0</span>;
+  return (
+    <span className={`text-[10px] font-mono font-bold ${points > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+      {points > 0 ? '+' : ''}{points}
+    </span>
+  );
+};
+
+const ScoreCell: React.FC<{ label: string; row: RecommendationDiffRow; score: 'obtainability' | 'uptime'; delta: number | null }> = ({ label, row, score, delta }) => (
+  <div>
+    <div className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">{label}</div>
+    <div className="flex items-baseline gap-1.5 font-mono text-xs">
+      <span className="text-slate-400">{formatPct(getScore(row.before, score))}</span>
+      <span className="text-slate-300 dark:text-slate-600">→</span>
+      <span className="font-bold text-slate-900 dark:text-white">{formatPct(getScore(row.after, score))}</span>
+      <Delta value={delta} />
+    </div>
+  </div>
+);
+
+const DiffRow: React.FC<{ row: RecommendationDiffRow }> = ({ row }) => {
+  const current = row.after || row.before!;
+  const risk = RISK_STYLES[getRiskTier(getScore(current, 'obtainability') ?? 0)];
+  const status = STATUS_STYLES[row.status];
+  const rankLabel = row.afterRank !== null ? `Option ${row.afterRank + 1}` : `Was option ${row.beforeRank! + 1}`;
+
+  return (
+    <div className={`${ZONE_ROW_CLASS} ${row.status === 'disappeared' ? 'opacity-60' : ''}`}>
+      <div className={ZONE_ROW_GRID_CLASS}>
+        <div className="col-span-4">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-sm font-bold text-slate-700 dark:text-slate-200">{rankLabel}</span>
+            <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-wide border ${status.className}`}>{status.label}</span>
+            {row.beforeRank !== null && row.afterRank !== null && row.beforeRank !== row.afterRank && (
+              <span className="text-[9px] text-slate-400" title="Rank in the baseline run">was #{row.beforeRank + 1}</span>
+            )}
+          </div>
+          <div className="text-[10px] font-mono text-slate-400 dark:text-slate-500 mt-0.5 truncate">{row.zones.join(', ')}</div>
+        </div>
+
+        <div className="hidden md:block col-span-2">
+          <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider shadow-sm border ${risk.badgeClass}`}>
+            {risk.icon}
+            {risk.label}
+          </span>
+        </div>
+
+        <div className="w-full md:col-span-4 grid grid-cols-2 gap-4">
+          <ScoreCell label="Obtainability" row={row} score="obtainability" delta={row.obtainabilityDelta} />
+          <ScoreCell label="Est. Uptime" row={row} score="uptime" delta={row.uptimeDelta} />
+        </div>
+
+        <div className="w-full md:col-span-2 md:text-right space-y-0.5">
+          {row.shardChanges.length === 0 ? (
+            <span className="text-[10px] text-slate-400">Same shards</span>
+          ) : row.shardChanges.map(change => (
+            <div key={`${change.zone} ${change.machineType}`} className="text-[10px] font-mono">
+              <span className={change.beforeCount === null ? 'text-emerald-600 dark:text-emerald-400' : change.afterCount === null ? 'text-red-600 dark:text-red-400 line-through' : 'text-amber-600 dark:text-amber-400'}>
+                {change.zone} {change.machineType}
+              </span>
+              <span className="text-slate-400 ml-1">
+                {change.beforeCount ?? 0}→{change.afterCount ?? 0}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RunLabel: React.FC<{ run: RunRecord; role: string }> = ({ run, role }) => (
+  <div className="min-w-0">
+    <div className="text-[9px] font-bold uppercase text-slate-400 tracking-widest">{role}</div>
+    <div className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">
+      {run.config.size}× {run.config.selectedMachineType} • {run.analysisMode === 'multiRegion' ? `${run.config.fanOutRegions.length} regions` : run.config.region}
+    </div>
+    <div className="text-[10px] text-slate-500">{new Date(run.completedAt).toLocaleString()} • {run.source === 'mock' ? 'Simulated' : 'Live'}</div>
+  </div>
+);
+
+/**
+ * Side-by-side diff of two runs: verdict change, configuration changes and per-placement deltas.
+ */
+const RunDiffView: React.FC<RunDiffViewProps> = ({ runs, onClose }) => {
+  const diff = useMemo(() => runs ? diffResponses(runs[0].response, runs[1].response) : null, [runs]);
+  const configChanges = useMemo(() => runs ? diffConfigs(runs[0].config, runs[1].config) : [], [runs]);
+
+  return createPortal(
+    <AnimatePresence>
+      {runs && diff && (
+        <div className="fixed inset-0 z-[9999] flex items-start justify-center pt-[8vh] px-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/20 dark:bg-black/40 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-5xl bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden relative flex flex-col max-h-[84vh]"
+          >
+            <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950 flex items-center gap-6">
+              <RunLabel run={runs[0]} role="Baseline" />
+              <span className="text-slate-300 dark:text-slate-600 text-lg">→</span>
+              <RunLabel run={runs[1]} role="Compared" />
+              <button onClick={onClose} className="ml-auto p-1.5 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+                <Icons.Cancel size={14} />
+              </button>
+            </div>
+
+            <div className="overflow-y-auto custom-scrollbar">
+              {diff.verdictChanged && (
+                <div className={`mx-6 mt-4 rounded-xl border px-4 py-3 flex items-center gap-3 ${
+                  VERDICT_RANK[diff.verdictAfter] > VERDICT_RANK[diff.verdictBefore]
+                  ? 'bg-emerald-50 dark:bg-emerald-900/10 border-emerald-200 dark:border-emerald-900/50 text-emerald-700 dark:text-emerald-300'
+                  : 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-300'
+                }`}>
+                  <Icons.Alert size={16} />
+                  <span className="text-xs font-bold">Verdict changed: {diff.verdictBefore} → {diff.verdictAfter}</span>
+                </div>
+              )}
+
+              <div className="px-6 py-4 flex flex-wrap gap-x-6 gap-y-1 text-[10px] text-slate-500 dark:text-slate-400">
+                <span><b className="text-slate-700 dark:text-slate-200">{diff.rows.filter(r => r.status === 'changed').length}</b> changed</span>
+                <span><b className="text-emerald-600 dark:text-emerald-400">{diff.appeared}</b> new placements</span>
+                <span><b className="text-red-600 dark:text-red-400">{diff.disappeared}</b> gone</span>
+                {configChanges.length === 0 && <span>Same configuration</span>}
+              </div>
+
+              {configChanges.length > 0 && (
+                <div className="mx-6 mb-4 rounded-xl border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                  {configChanges.map(change => (
+                    <div key={change.field} className="px-4 py-2 grid grid-cols-12 gap-3 text-[10px]">
+                      <span className="col-span-3 font-bold uppercase text-slate-500 dark:text-slate-400">{change.field}</span>
+                      <span className="col-span-4 font-mono text-slate-400 truncate" title={formatValue(change.before)}>{formatValue(change.before)}</span>
+                      <span className="col-span-5 font-mono font-bold text-slate-800 dark:text-slate-100 truncate" title={formatValue(change.after)}>{formatValue(change.after)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="border-t border-slate-200 dark:border-slate-800">
+                {diff.rows.length === 0 ? (
+                  <div className="py-10 text-center text-xs text-slate-500">Neither run has placement recommendations to compare.</div>
+                ) : diff.rows.map(row => <DiffRow key={row.key} row={row} />)}
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
+
+export default RunDiffView;
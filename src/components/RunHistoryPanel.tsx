@@ -0,0 +1,190 @@
+import React, { useState, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Icons } from '../constants';
+import { RunRecord, RUN_HISTORY_LIMITS, filterRuns, getRunRegions, getRunMachineTypes } from '../services/runHistoryStore';
+import { RunActions } from '../hooks/useRunHistory';
+
+interface RunHistoryPanelProps {
+  runs: RunRecord[];
+  actions: RunActions;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Opens the comparison of two runs, baseline (older) first. */
+  onCompare: (runs: [RunRecord, RunRecord]) => void;
+}
+
+const MODE_LABELS: Record<RunRecord['analysisMode'], string> = {
+  single: 'Single Region',
+  multiRegion: 'Multi-Region',
+  sweep: 'Count Sweep'
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const summarizeRun = (run: RunRecord): string => {
+  if (run.sweepResult) {
+    const best = Math.max(0, ...run.sweepResult.cliffs.map(c => c.maxViableCount || 0));
+    return best > 0 ? `Up to ${best} VMs viable` : 'No viable count';
+  }
+  const top = run.response?.recommendations?.[0]?.scores?.find(s => s.name === 'obtainability')?.value;
+  return top !== undefined
+    ? `${run.response!.recommendations.length} options • top ${(top * 100).toFixed(0)}%`
+    : run.response ? 'Stockout • 0%' : 'No recommendations';
+};
+
+const selectClass = 'flex-1 min-w-0 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-700 dark:text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500';
+
+/**
+ * Slide-over list of past runs, filterable by region and machine type. Pick two runs to compare them.
+ */
+const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ runs, actions, isOpen, onClose, onCompare }) => {
+  const [region, setRegion] = useState('');
+  const [machineType, setMachineType] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (id: string) => {
+    // Keep the two most recent picks
+    setCompareIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id].slice(-2));
+  };
+
+  const startCompare = () => {
+    const picked = runs.filter(run => compareIds.includes(run.id)).sort((a, b) => a.completedAt - b.completedAt);
+    if (picked.length !== 2) return;
+    onCompare([picked[0], picked[1]]);
+    setCompareIds([]);
+    onClose();
+  };
+
+  const regions = useMemo(() => Array.from(new Set(runs.flatMap(getRunRegions))).sort(), [runs]);
+  const machineTypes = useMemo(() => Array.from(new Set(runs.flatMap(getRunMachineTypes))).sort(), [runs]);
+  const visible = useMemo(() => filterRuns(runs, { region, machineType }), [runs, region, machineType]);
+  const totalBytes = runs.reduce((sum, run) => sum + run.sizeBytes, 0);
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9998] flex justify-end">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/20 dark:bg-black/40 backdrop-blur-sm"
+          />
+
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+            className="relative w-full max-w-md h-full bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col"
+          >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100 dark:border-slate-800">
+              <h2 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 tracking-widest flex items-center gap-2">
+                <Icons.History /> Run History
+              </h2>
+              <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+                <Icons.Cancel size={14} />
+              </button>
+            </div>
+
+            <div className="px-5 py-3 space-y-2 border-b border-slate-100 dark:border-slate-800">
+              <div className="flex gap-2">
+                <select value={region} onChange={(e) => setRegion(e.target.value)} className={selectClass}>
+                  <option value="">All regions</option>
+                  {regions.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <select value={machineType} onChange={(e) => setMachineType(e.target.value)} className={selectClass}>
+                  <option value="">All machine types</option>
+                  {machineTypes.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center justify-between text-[9px] font-bold uppercase text-slate-400">
+                <span title={`Runs older than ${RUN_HISTORY_LIMITS.maxAgeMs / (24 * 60 * 60 * 1000)} days are removed automatically`}>
+                  {runs.length}/{RUN_HISTORY_LIMITS.maxRuns} runs • {formatBytes(totalBytes)} of {formatBytes(RUN_HISTORY_LIMITS.maxBytes)}
+                </span>
+                <div className="flex items-center gap-3">
+                  {compareIds.length > 0 && (
+                    <button
+                      onClick={startCompare}
+                      disabled={compareIds.length !== 2}
+                      className="text-indigo-600 dark:text-indigo-400 disabled:text-slate-400 disabled:cursor-not-allowed"
+                      title={compareIds.length === 2 ? 'Compare the selected runs' : 'Select one more run to compare'}
+                    >
+                      Compare ({compareIds.length}/2)
+                    </button>
+                  )}
+                  {runs.length > 0 && (
+                    <button onClick={actions.clearAll} className="hover:text-red-500 transition-colors">Clear all</button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-1.5">
+              {visible.length === 0 && (
+                <li className="py-10 text-center text-xs text-slate-500">
+                  {runs.length === 0 ? 'Completed analyses will appear here.' : 'No runs match these filters.'}
+                </li>
+              )}
+              {visible.map(run => (
+                <li key={run.id} className={`group/run flex items-start gap-2 p-3 rounded-xl border transition-colors ${
+                  compareIds.includes(run.id)
+                  ? 'border-indigo-300 dark:border-indigo-700 bg-indigo-50/50 dark:bg-indigo-900/10'
+                  : 'border-slate-100 dark:border-slate-800 hover:border-indigo-200 dark:hover:border-indigo-800'
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(run.id)}
+                    onChange={() => toggleCompare(run.id)}
+                    disabled={!run.response}
+                    className="mt-1 accent-indigo-600 disabled:opacity-30"
+                    title={run.response ? 'Select for comparison' : 'Sweeps have no placement list to compare'}
+                  />
+                  <button onClick={() => { actions.open(run); onClose(); }} className="flex-1 min-w-0 text-left space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">
+                        {run.config.size}× {getRunMachineTypes(run).join(' > ')}
+                      </span>
+                      <span className={`shrink-0 px-1.5 py-0.5 rounded text-[8px] font-bold uppercase ${
+                        run.source === 'mock'
+                        ? 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+                        : 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400'
+                      }`}>
+                        {run.source === 'mock' ? 'Simulated' : 'Live'}
+                      </span>
+                      {run.trigger === 'watch' && (
+                        <span className="shrink-0 px-1.5 py-0.5 rounded text-[8px] font-bold uppercase bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400">Watch</span>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-slate-500 dark:text-slate-400 truncate">
+                      {MODE_LABELS[run.analysisMode]} • {getRunRegions(run).join(', ')}
+                    </p>
+                    <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                      {summarizeRun(run)}{run.groundingMetadata ? ' • AI insight' : ''}
+                    </p>
+                    <p className="text-[9px] text-slate-400">
+                      {new Date(run.completedAt).toLocaleString()} • {(run.latencyMs / 1000).toFixed(1)}s
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => actions.remove(run.id)}
+                    className="p-1 rounded text-slate-400 hover:text-red-500 opacity-0 group-hover/run:opacity-100 transition-opacity"
+                    title="Delete run"
+                  >
+                    <Icons.Trash size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </motion.aside>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
+
+export default RunHistoryPanel;
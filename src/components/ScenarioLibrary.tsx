@@ -0,0 +1,162 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Icons } from '../constants';
+import { Scenario } from '../services/scenarioStore';
+import { ScenarioActions } from '../hooks/useScenarios';
+
+interface ScenarioLibraryProps {
+  scenarios: Scenario[];
+  actions: ScenarioActions;
+}
+
+const parseTags = (value: string): string[] => value.split(',');
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-2.5 py-1.5 text-xs text-slate-900 dark:text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 dark:placeholder:text-slate-600';
+const iconButtonClass = 'p-1 rounded text-slate-400 hover:text-indigo-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors';
+
+/**
+ * Saved configurations: save the current one, load, rename, tag, duplicate, delete, and
+ * import/export the set as a JSON file.
+ */
+const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ scenarios, actions }) => {
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allTags = useMemo(() => Array.from(new Set(scenarios.flatMap(s => s.tags))).sort(), [scenarios]);
+  const visible = tagFilter ? scenarios.filter(s => s.tags.includes(tagFilter)) : scenarios;
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    actions.save(name, parseTags(tags));
+    setName('');
+    setTags('');
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    actions.update(editing.id, { name: editing.name, tags: parseTags(editing.tags) });
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 tracking-wider">
+          <Icons.Bookmark /> Scenarios
+        </label>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import scenarios from JSON">
+            <Icons.Upload />
+          </button>
+          <button onClick={actions.exportAll} disabled={scenarios.length === 0} className={`${iconButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`} title="Export all scenarios as JSON">
+            <Icons.Download />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) actions.importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className={inputClass}
+          placeholder="Scenario name"
+        />
+        <div className="flex gap-1.5">
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className={inputClass}
+            placeholder="Tags, comma separated"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider border border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save the current configuration (overwrites a scenario with the same name)"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-bold border transition-colors ${
+                tagFilter === tag
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'border-slate-200 dark:border-slate-800 text-slate-500 dark:text-slate-400 hover:border-indigo-300'
+              }`}
+            >
+              <Icons.Tag size={9} /> {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {scenarios.length === 0 ? (
+        <p className="text-[9px] text-slate-400 ml-1">No saved scenarios yet. Name the current configuration to save it.</p>
+      ) : (
+        <ul className="space-y-1 max-h-56 overflow-y-auto custom-scrollbar">
+          {visible.map(scenario => editing?.id === scenario.id ? (
+            <li key={scenario.id} className="space-y-1.5 p-2 rounded-lg border border-indigo-200 dark:border-indigo-800">
+              <input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                className={inputClass}
+                autoFocus
+              />
+              <input
+                value={editing.tags}
+                onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                className={inputClass}
+                placeholder="Tags, comma separated"
+              />
+              <div className="flex justify-end gap-1">
+                <button onClick={() => setEditing(null)} className={iconButtonClass} title="Cancel"><Icons.Cancel size={12} /></button>
+                <button onClick={commitEdit} className={iconButtonClass} title="Save changes"><Icons.Check size={12} /></button>
+              </div>
+            </li>
+          ) : (
+            <li key={scenario.id} className="group/scenario flex items-center gap-2 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-950 transition-colors">
+              <button onClick={() => actions.load(scenario.id)} className="flex-1 min-w-0 text-left" title={`Load "${scenario.name}"`}>
+                <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">{scenario.name}</p>
+                <p className="text-[9px] text-slate-500 dark:text-slate-400 truncate">
+                  {scenario.config.selectedMachineType} × {scenario.config.size} • {scenario.config.region}
+                  {scenario.tags.length > 0 && ` • ${scenario.tags.join(', ')}`}
+                </p>
+              </button>
+              <div className="flex items-center opacity-0 group-hover/scenario:opacity-100 transition-opacity">
+                <button onClick={() => setEditing({ id: scenario.id, name: scenario.name, tags: scenario.tags.join(', ') })} className={iconButtonClass} title="Rename / edit tags"><Icons.Edit /></button>
+                <button onClick={() => actions.duplicate(scenario.id)} className={iconButtonClass} title="Duplicate"><Icons.Copy /></button>
+                <button onClick={() => actions.remove(scenario.id)} className={`${iconButtonClass} hover:!text-red-500`} title="Delete"><Icons.Trash size={12} /></button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { SweepConfig, SweepResult } from '../types';
+
+interface SweepChartProps {
+  result: SweepResult;
+  config: SweepConfig;
+}
+
+const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+const CustomTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-900 dark:bg-slate-800 text-white p-3 rounded-lg shadow-2xl border border-slate-700/50 ring-1 ring-white/10 backdrop-blur-md min-w-[160px]">
+        <div className="font-bold text-xs mb-2 border-b border-slate-700/80 pb-2">{label} VMs</div>
+        <div className="space-y-1.5">
+          {payload.map((entry: any, index: number) => (
+            <div key={index} className="flex justify-between gap-4 text-[10px]">
+              <span className="text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: entry.color }}></span>
+                {entry.name}
+              </span>
+              <span className="font-mono font-bold text-slate-200">{entry.value}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Obtainability vs. instance count per zone, with the target line and each zone's cliff.
+ */
+const SweepChart: React.FC<SweepChartProps> = React.memo(({ result, config }) => {
+  const zones = useMemo(() => result.cliffs.map(c => c.zone), [result.cliffs]);
+
+  const data = useMemo(() => result.points.map(point => ({
+    count: point.count,
+    ...Object.fromEntries(zones.map(zone => [zone, Math.round((point.scores[zone] || 0) * 100)]))
+  })), [result.points, zones]);
+
+  const targetPct = Math.round(config.targetObtainability * 100);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden"
+    >
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex justify-between items-center">
+        <div>
+          <h4 className="text-sm font-black uppercase text-slate-900 dark:text-white tracking-tight">Obtainability Cliff</h4>
+          <span className="text-[10px] text-slate-500 font-bold uppercase">
+            {config.strategy === 'binary' ? 'Binary search' : `Linear sweep, step ${config.step}`} • {config.minCount}-{config.maxCount} VMs
+          </span>
+        </div>
+        <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 px-3 py-1.5 rounded-full shadow-sm">
+          {result.callCount} calls{result.truncated ? ' (budget reached)' : ''}
+        </span>
+      </div>
+
+      <div className="w-full h-[320px] p-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.1} />
+            <XAxis
+              dataKey="count"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#94a3b8', fontSize: 10, fontWeight: 600 }}
+              dy={10}
+            />
+            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 10 }} domain={[0, 100]} />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend wrapperStyle={{ fontSize: '10px', paddingTop: '10px', opacity: 0.7 }} />
+            <ReferenceLine y={targetPct} stroke="#f59e0b" strokeDasharray="3 3" label={{ value: `Target ${targetPct}%`, position: 'insideTopRight', fill: '#f59e0b', fontSize: 9 }} />
+            {zones.map((zone, idx) => (
+              <Line
+                key={zone}
+                type="monotone"
+                dataKey={zone}
+                stroke={COLORS[idx % COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3, strokeWidth: 0, fill: COLORS[idx % COLORS.length] }}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="border-t border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+        {result.cliffs.map((cliff, idx) => (
+          <div key={cliff.zone} className="grid grid-cols-12 gap-4 items-center px-6 py-2.5 text-[10px]">
+            <div className="col-span-4 flex items-center gap-2 font-mono font-bold text-slate-800 dark:text-slate-100">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[idx % COLORS.length] }}></span>
+              {cliff.zone}
+            </div>
+            <div className="col-span-4 text-slate-500 dark:text-slate-400">
+              Max viable: <strong className="text-slate-900 dark:text-white">{cliff.maxViableCount !== null ? `${cliff.maxViableCount} VMs` : 'None'}</strong>
+            </div>
+            <div className="col-span-4 text-right text-slate-500 dark:text-slate-400">
+              {cliff.cliffCount !== null ? (
+                <>
+                  Cliff at <strong className="text-red-600 dark:text-red-400">{cliff.cliffCount} VMs</strong>
+                  {cliff.scoreBeforeCliff !== null && ` (${Math.round(cliff.scoreBeforeCliff * 100)}% → ${Math.round((cliff.scoreAtCliff || 0) * 100)}%)`}
+                </>
+              ) : (
+                <span className="text-emerald-600 dark:text-emerald-400 font-bold">No cliff in range</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+});
+
+export default SweepChart;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { TokenInfo } from '../types';
+import { Icons } from '../constants';
+import { getTokenProblem } from '../services/authService';
+
+interface TokenStatusProps {
+  tokenInfo: TokenInfo | null;
+  isChecking: boolean;
+}
+
+const SCOPE_PREFIX = 'https://www.googleapis.com/auth/';
+
+const formatRemaining = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+  return minutes > 0 ? `${minutes} min left` : 'less than a minute left';
+};
+
+/**
+ * Remaining lifetime and granted scopes of the access token, from tokeninfo.
+ */
+const TokenStatus: React.FC<TokenStatusProps> = ({ tokenInfo, isChecking }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the countdown current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (isChecking) {
+    return <p className="text-[9px] font-bold uppercase text-indigo-500 animate-pulse ml-1">Checking token...</p>;
+  }
+  if (!tokenInfo) return null;
+
+  if (tokenInfo.status === 'unreachable') {
+    return (
+      <p className="flex items-center gap-1 text-[9px] text-slate-400 ml-1">
+        <Icons.Info size={10} /> Token could not be verified (tokeninfo unreachable).
+      </p>
+    );
+  }
+
+  const problem = getTokenProblem(tokenInfo, now);
+  const remainingMs = tokenInfo.expiresAt !== null ? tokenInfo.expiresAt - now : null;
+  const isExpiringSoon = remainingMs !== null && remainingMs < 10 * 60 * 1000;
+
+  return (
+    <div className={`rounded-lg border px-3 py-2 space-y-1 ${
+        problem
+        ? 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/50'
+        : 'bg-slate-50 dark:bg-slate-950 border-slate-200 dark:border-slate-800'
+    }`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className={`flex items-center gap-1 text-[10px] font-bold ${problem ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+          {problem ? <Icons.Alert size={10} /> : <Icons.Check size={10} />}
+          {problem ? 'Token unusable' : tokenInfo.email || 'Token valid'}
+        </span>
+        {!problem && remainingMs !== null && (
+          <span className={`text-[9px] font-bold ${isExpiringSoon ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500 dark:text-slate-400'}`}>
+            {formatRemaining(remainingMs)}
+          </span>
+        )}
+      </div>
+      {problem && <p className="text-[9px] text-red-600 dark:text-red-400 leading-snug">{problem}</p>}
+      {tokenInfo.scopes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tokenInfo.scopes.map(scope => (
+            <span key={scope} className="px-1.5 py-0.5 rounded bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-[8px] font-mono text-slate-500 dark:text-slate-400">
+              {scope.replace(SCOPE_PREFIX, '')}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenStatus;
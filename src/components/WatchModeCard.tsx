@@ -0,0 +1,85 @@
+import React from 'react';
+import { Icons } from '../constants';
+import { WATCH_INTERVALS } from '../services/watchService';
+import { WatchStatus, WatchActions } from '../hooks/useWatchMode';
+
+interface WatchModeCardProps {
+  status: WatchStatus;
+  actions: WatchActions;
+}
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-2.5 py-1.5 text-xs text-slate-900 dark:text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500';
+
+const formatMinutes = (ms: number) => {
+  const minutes = Math.ceil(ms / 60000);
+  return minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+};
+
+/**
+ * Watch mode controls: on/off, interval and the obtainability threshold that raises an alert.
+ */
+const WatchModeCard: React.FC<WatchModeCardProps> = ({ status, actions }) => {
+  const { settings, supported, intervalMs, clamped, nextRunAt, lastCheckedAt } = status;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 tracking-wider">
+          <Icons.Eye /> Watch Mode
+        </label>
+        <button
+          onClick={() => settings.enabled ? actions.stop() : actions.start()}
+          disabled={!supported && !settings.enabled}
+          className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+            settings.enabled
+            ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 ring-1 ring-emerald-200 dark:ring-emerald-800'
+            : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-300'
+          }`}
+          title={supported ? 'Re-run this analysis on an interval and alert on changes' : 'Count sweeps cannot be watched'}
+        >
+          {settings.enabled ? 'Watching' : 'Off'}
+        </button>
+      </div>
+
+      <div className="flex gap-1.5">
+        <div className="flex-1">
+          <span className="block text-[9px] font-bold uppercase text-slate-400 mb-1">Every</span>
+          <select value={settings.intervalMinutes} onChange={(e) => actions.setIntervalMinutes(Number(e.target.value))} className={inputClass}>
+            {WATCH_INTERVALS.map(minutes => (
+              <option key={minutes} value={minutes}>{formatMinutes(minutes * 60000)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <span className="block text-[9px] font-bold uppercase text-slate-400 mb-1">Alert at</span>
+          <div className="relative">
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={Math.round(settings.threshold * 100)}
+              onChange={(e) => {
+                const val = parseInt(e.target.value);
+                if (!isNaN(val)) actions.setThreshold(val / 100);
+              }}
+              className={`${inputClass} pr-6`}
+              title="Alert when the top obtainability crosses this value in either direction"
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-slate-400">%</span>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-[9px] text-slate-400 leading-relaxed">
+        {!supported
+          ? 'Count sweeps are not watched. Switch to single or multi-region analysis.'
+          : settings.enabled && nextRunAt
+            ? `Next run at ${new Date(nextRunAt).toLocaleTimeString()}${lastCheckedAt ? ` • last checked ${new Date(lastCheckedAt).toLocaleTimeString()}` : ''}.`
+            : 'Alerts when the top obtainability crosses the threshold or a zone appears or disappears.'}
+        {supported && clamped && ` Runs every ${formatMinutes(intervalMs)} to stay within the API rate limit.`}
+      </p>
+    </div>
+  );
+};
+
+export default WatchModeCard;
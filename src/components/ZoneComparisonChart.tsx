@@ -1,8 +1,31 @@
 
 import React, { useMemo, useState, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { Recommendation } from '../types';
+import { Recommendation, ProvisioningModel, GuestAccelerator } from '../types';
+import { getProvisioningModelLabel, getRiskTier } from '../utils';
+import { RISK_STYLES, ZONE_ROW_CLASS, ZONE_ROW_GRID_CLASS } from '../riskStyles';
+import { getZoneSet } from '../services/runDiffService';
 import { motion, AnimatePresence } from 'framer-motion';
+import { ResponsiveContainer, LineChart, Line, YAxis } from 'recharts';
+
+/** Obtainability of one placement over recent runs (oldest first; null where it wasn't recommended). */
+const Sparkline: React.FC<{ values: (number | null)[] }> = ({ values }) => {
+  const data = values.map((value, i) => ({ i, value: value === null ? null : Math.round(value * 100) }));
+  const known = data.filter(d => d.value !== null).map(d => d.value!);
+  const first = known[0];
+  const last = known[known.length - 1];
+  const stroke = last > first ? '#10b981' : last < first ? '#ef4444' : '#94a3b8';
+  return (
+    <div className="w-16 h-6" title={`Last ${values.length} runs: ${data.map(d => d.value === null ? '—' : `${d.value}%`).join(', ')}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={[0, 100]} />
+          <Line type="monotone" dataKey="value" stroke={stroke} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
 
 interface ZoneRowProps {
   rec: Recommendation;
@@ -10,11 +33,14 @@ interface ZoneRowProps {
   isExpanded: boolean;
   onToggle: (index: number) => void;
   index: number;
+  guestAccelerators: GuestAccelerator[];
+  /** Obtainability of this placement in recent runs of the same configuration. */
+  trend?: (number | null)[];
   onShowTooltip: (e: React.MouseEvent, text: string) => void;
   onHideTooltip: () => void;
 }
 
-const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded, onToggle, index, onShowTooltip, onHideTooltip }) => {
+const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded, onToggle, index, guestAccelerators, trend, onShowTooltip, onHideTooltip }) => {
   // Handle single shard (Single Zone) vs Multi-shard (Balanced)
   const isMultiZone = rec.shards.length > 1;
   const primaryShard = rec.shards[0];
@@ -35,49 +61,32 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
   
   const totalCount = rec.shards.reduce((acc, s) => acc + s.count, 0);
 
-  // Consistent Color Logic
-  let riskLabel = 'Optimal';
-  let riskColor = 'text-emerald-700 bg-emerald-50 dark:bg-emerald-900/40 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-800';
-  let barColor = 'bg-emerald-500 dark:bg-emerald-400';
-  let riskIcon = (
-    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-  );
+  // Ranked flexibility: shards may land on different machine types
+  const landedMachineTypes = Array.from(new Set(rec.shards.map(s => s.machineType)));
 
-  if (obtainabilityScore < 0.4) {
-    riskLabel = 'Critical';
-    riskColor = 'text-red-700 bg-red-50 dark:bg-red-900/40 dark:text-red-300 border border-red-200 dark:border-red-800';
-    barColor = 'bg-red-500 dark:bg-red-400';
-    riskIcon = (
-        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-    );
-  } else if (obtainabilityScore < 0.7) {
-    riskLabel = 'Constrained';
-    riskColor = 'text-amber-700 bg-amber-50 dark:bg-amber-900/40 dark:text-amber-300 border border-amber-200 dark:border-amber-800';
-    barColor = 'bg-amber-500 dark:bg-amber-400';
-    riskIcon = (
-        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-    );
-  } else if (obtainabilityScore < 0.85) {
-    riskLabel = 'Good';
-    riskColor = 'text-blue-700 bg-blue-50 dark:bg-blue-900/40 dark:text-blue-300 border border-blue-200 dark:border-blue-800';
-    barColor = 'bg-blue-500 dark:bg-blue-400';
-    riskIcon = (
-        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-    );
-  }
+  // Consistent Color Logic
+  const { label: riskLabel, badgeClass: riskColor, barClass: barColor, icon: riskIcon } = RISK_STYLES[getRiskTier(obtainabilityScore)];
 
   // Use lazy state to generate the random suffix ONCE on mount
   const [randomId] = useState(() => Date.now().toString().slice(-4));
   const [commandType, setCommandType] = useState<'GCE' | 'GKE'>('GCE');
 
+  const provisioningModel = primaryShard.provisioningModel || ProvisioningModel.SPOT;
+  const isSpot = provisioningModel === ProvisioningModel.SPOT;
+  const namePrefix = isSpot ? 'spot' : 'ondemand';
+  const accelerator = guestAccelerators[0];
+
   const provisioningCommand = useMemo(() => {
+    // GPU VMs cannot live-migrate, so GCE requires TERMINATE on host maintenance
+    const acceleratorFlag = accelerator ? ` --accelerator=type=${accelerator.acceleratorType},count=${accelerator.acceleratorCount} --maintenance-policy=TERMINATE` : '';
     if (commandType === 'GKE') {
         const zones = rec.shards.map(s => s.location.split('/').pop()).join(',');
-        return `gcloud container node-pools create spot-pool-${randomId} \\
+        return `gcloud container node-pools create ${namePrefix}-pool-${randomId} \\
   --cluster=my-cluster \\
   --project=${projectId} \\
-  --machine-type=${primaryShard.machineType} \\
-  --spot \\
+  --machine-type=${primaryShard.machineType} \\${accelerator ? `
+  --accelerator type=${accelerator.acceleratorType},count=${accelerator.acceleratorCount} \\` : ''}${isSpot ? `
+  --spot \\` : ''}
   --num-nodes=${Math.ceil(totalCount / rec.shards.length)} \\
   --node-locations=${zones}`;
     }
@@ -87,17 +96,19 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
         // Generate a bash script for multi-zone creation
         return rec.shards.map((s, i) => {
             const z = s.location.split('/').pop();
-            return `gcloud compute instances create spot-${randomId}-${i+1} --zone=${z} --machine-type=${primaryShard.machineType} --provisioning-model=SPOT --count=${s.count} --project=${projectId} &`;
+            return `gcloud compute instances create ${namePrefix}-${randomId}-${i+1} --zone=${z} --machine-type=${s.machineType} --provisioning-model=${s.provisioningModel || provisioningModel} --count=${s.count}${acceleratorFlag} --project=${projectId} &`;
         }).join('\n') + '\nwait';
     }
 
-    return `gcloud compute instances create spot-${randomId} \\
+    return `gcloud compute instances create ${namePrefix}-${randomId} \\
   --project=${projectId} \\
   --zone=${zoneLabel} \\
   --machine-type=${primaryShard.machineType} \\
-  --provisioning-model=SPOT \\
+  --provisioning-model=${provisioningModel} \\${accelerator ? `
+  --accelerator=type=${accelerator.acceleratorType},count=${accelerator.acceleratorCount} \\
+  --maintenance-policy=TERMINATE \\` : ''}
   --count=${totalCount}`;
-  }, [isMultiZone, rec.shards, randomId, projectId, zoneLabel, primaryShard.machineType, totalCount, commandType]);
+  }, [isMultiZone, rec.shards, randomId, projectId, zoneLabel, primaryShard.machineType, totalCount, commandType, provisioningModel, isSpot, namePrefix, accelerator]);
 
   const rowVariants = {
       hidden: { opacity: 0, y: 10 },
@@ -107,11 +118,11 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
   return (
     <motion.div 
         variants={rowVariants}
-        className="group border-b border-slate-100 dark:border-slate-800 last:border-0 hover:bg-slate-50 dark:hover:bg-slate-800/40 transition-all duration-200"
+        className={ZONE_ROW_CLASS}
     >
       <div 
         onClick={() => onToggle(index)}
-        className={`flex flex-col md:grid md:grid-cols-12 gap-4 items-start md:items-center py-4 px-4 md:px-6 cursor-pointer transition-colors ${isExpanded ? 'bg-slate-50 dark:bg-slate-800/60' : ''}`}
+        className={`${ZONE_ROW_GRID_CLASS} cursor-pointer transition-colors ${isExpanded ? 'bg-slate-50 dark:bg-slate-800/60' : ''}`}
       >
         {/* Mobile Top Row: Zone + Badge + Count */}
         <div className="w-full flex md:contents justify-between items-center mb-3 md:mb-0">
@@ -146,6 +157,10 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
                             <span>{optionSubLabel}</span>
                         </>
                     )}
+                    <span className="text-slate-300 dark:text-slate-700">•</span>
+                    <span className="font-mono font-bold text-slate-500 dark:text-slate-400" title="Machine type(s) the shards landed on">
+                        {landedMachineTypes.join(', ')}
+                    </span>
                 </div>
             </div>
             </div>
@@ -162,12 +177,13 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
             </div>
         </div>
 
-        {/* Desktop: Risk Badge */}
-        <div className="hidden md:block col-span-2">
+        {/* Desktop: Risk Badge + Trend */}
+        <div className="hidden md:flex col-span-2 items-center gap-2">
           <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider shadow-sm border ${riskColor}`}>
             {riskIcon}
             {riskLabel}
           </span>
+          {trend && trend.filter(v => v !== null).length > 1 && <Sparkline values={trend} />}
         </div>
 
         {/* Progress Scores - Full width on mobile, col-span-5 on desktop */}
@@ -178,7 +194,7 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
                     <div className="flex justify-between items-end mb-1.5">
                         <span 
                             className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide cursor-help"
-                            onMouseEnter={(e) => onShowTooltip(e, "Likelihood of spot fulfillment")}
+                            onMouseEnter={(e) => onShowTooltip(e, `Likelihood of ${getProvisioningModelLabel(provisioningModel).toLowerCase()} fulfillment`)}
                             onMouseLeave={onHideTooltip}
                         >
                             Obtainability
@@ -187,7 +203,7 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
                     </div>
                     <div 
                         className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden w-full ring-1 ring-slate-200 dark:ring-slate-700/50 cursor-help"
-                        onMouseEnter={(e) => onShowTooltip(e, "Likelihood of spot fulfillment")}
+                        onMouseEnter={(e) => onShowTooltip(e, `Likelihood of ${getProvisioningModelLabel(provisioningModel).toLowerCase()} fulfillment`)}
                         onMouseLeave={onHideTooltip}
                     >
                         <motion.div 
@@ -264,6 +280,7 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
                                <div className="flex flex-col">
                                    <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Zone</span>
                                    <span className="text-xs font-mono font-bold text-slate-700 dark:text-slate-200">{s.location.split('/').pop()}</span>
+                                   <span className="text-[10px] font-mono text-slate-400 dark:text-slate-500">{s.machineType}</span>
                                </div>
                                <div className="flex flex-col items-end">
                                    <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Count</span>
@@ -337,9 +354,13 @@ const ZoneRow: React.FC<ZoneRowProps> = React.memo(({ rec, projectId, isExpanded
 interface ZoneComparisonChartProps {
   recommendations: Recommendation[];
   projectId: string;
+  provisioningModel?: ProvisioningModel;
+  guestAccelerators?: GuestAccelerator[];
+  /** Sparkline values by zone set (see buildPlacementSparklines). */
+  trends?: Record<string, (number | null)[]>;
 }
 
-const ZoneComparisonChart: React.FC<ZoneComparisonChartProps> = React.memo(({ recommendations, projectId }) => {
+const ZoneComparisonChart: React.FC<ZoneComparisonChartProps> = React.memo(({ recommendations, projectId, provisioningModel = ProvisioningModel.SPOT, guestAccelerators = [], trends }) => {
   // State for expanded row
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
   const [tooltip, setTooltip] = useState<{ show: boolean; x: number; y: number; text: string }>({ show: false, x: 0, y: 0, text: '' });
@@ -390,7 +411,7 @@ const ZoneComparisonChart: React.FC<ZoneComparisonChartProps> = React.memo(({ re
             <div>
                 <h3 className="text-base font-black uppercase text-slate-900 dark:text-white tracking-tight">Placement Options</h3>
                 <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 font-medium">
-                    Optimized for <span className="text-indigo-600 dark:text-indigo-400 font-bold">Spot Availability</span>
+                    Optimized for <span className="text-indigo-600 dark:text-indigo-400 font-bold">{getProvisioningModelLabel(provisioningModel)} Availability</span>
                 </p>
             </div>
          </div>
@@ -428,6 +449,8 @@ const ZoneComparisonChart: React.FC<ZoneComparisonChartProps> = React.memo(({ re
                     index={idx}
                     rec={rec}
                     projectId={projectId}
+                    guestAccelerators={guestAccelerators}
+                    trend={trends?.[getZoneSet(rec).join(',')]}
                     isExpanded={expandedIndex === idx}
                     onToggle={handleToggle}
                     onShowTooltip={handleShowTooltip}
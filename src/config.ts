@@ -114,8 +114,29 @@ export interface MachineTypeOption {
   cores: number;
   memory: string;
   arch: 'x86' | 'Arm';
+  /** Built-in GPUs for accelerator-optimized series (A2/A3/G2). */
+  accelerator?: { type: string; count: number };
 }
 
+export interface AcceleratorTypeOption {
+  id: string;
+  name: string;
+  /** Scarcity tier on the simulation engine's scale (1 = abundant, 5 = allocation only). */
+  scarcityTier: number;
+  validCounts: number[];
+}
+
+// GPUs that can be attached to N1 VMs via guestAccelerators
+export const ACCELERATOR_TYPES: AcceleratorTypeOption[] = [
+  { id: 'nvidia-tesla-t4', name: 'NVIDIA T4', scarcityTier: 3, validCounts: [1, 2, 4] },
+  { id: 'nvidia-tesla-p4', name: 'NVIDIA P4', scarcityTier: 3, validCounts: [1, 2, 4] },
+  { id: 'nvidia-tesla-p100', name: 'NVIDIA P100', scarcityTier: 3.5, validCounts: [1, 2, 4] },
+  { id: 'nvidia-tesla-v100', name: 'NVIDIA V100', scarcityTier: 4, validCounts: [1, 2, 4, 8] },
+];
+
+// Machine series that accept attached accelerators
+export const ACCELERATOR_ATTACHABLE_SERIES = ['N1'];
+
 export const MACHINE_FAMILIES = [
   'All',
   'General Purpose',
@@ -266,33 +287,33 @@ const H3_TYPES = [
 
 // A2 (NVIDIA A100)
 const A2_TYPES = [
-    { id: 'a2-highgpu-1g', name: 'A2 HighGPU 1g', family: 'Accelerator Optimized', series: 'A2', cores: 12, memory: '85GB', arch: 'x86' },
-    { id: 'a2-highgpu-2g', name: 'A2 HighGPU 2g', family: 'Accelerator Optimized', series: 'A2', cores: 24, memory: '170GB', arch: 'x86' },
-    { id: 'a2-highgpu-4g', name: 'A2 HighGPU 4g', family: 'Accelerator Optimized', series: 'A2', cores: 48, memory: '340GB', arch: 'x86' },
-    { id: 'a2-highgpu-8g', name: 'A2 HighGPU 8g', family: 'Accelerator Optimized', series: 'A2', cores: 96, memory: '680GB', arch: 'x86' },
-    { id: 'a2-ultragpu-1g', name: 'A2 UltraGPU 1g', family: 'Accelerator Optimized', series: 'A2', cores: 12, memory: '170GB', arch: 'x86' },
-    { id: 'a2-ultragpu-2g', name: 'A2 UltraGPU 2g', family: 'Accelerator Optimized', series: 'A2', cores: 24, memory: '340GB', arch: 'x86' },
-    { id: 'a2-ultragpu-4g', name: 'A2 UltraGPU 4g', family: 'Accelerator Optimized', series: 'A2', cores: 48, memory: '680GB', arch: 'x86' },
-    { id: 'a2-ultragpu-8g', name: 'A2 UltraGPU 8g', family: 'Accelerator Optimized', series: 'A2', cores: 96, memory: '1360GB', arch: 'x86' },
+    { id: 'a2-highgpu-1g', name: 'A2 HighGPU 1g', family: 'Accelerator Optimized', series: 'A2', cores: 12, memory: '85GB', arch: 'x86', accelerator: { type: 'nvidia-tesla-a100', count: 1 } },
+    { id: 'a2-highgpu-2g', name: 'A2 HighGPU 2g', family: 'Accelerator Optimized', series: 'A2', cores: 24, memory: '170GB', arch: 'x86', accelerator: { type: 'nvidia-tesla-a100', count: 2 } },
+    { id: 'a2-highgpu-4g', name: 'A2 HighGPU 4g', family: 'Accelerator Optimized', series: 'A2', cores: 48, memory: '340GB', arch: 'x86', accelerator: { type: 'nvidia-tesla-a100', count: 4 } },
+    { id: 'a2-highgpu-8g', name: 'A2 HighGPU 8g', family: 'Accelerator Optimized', series: 'A2', cores: 96, memory: '680GB', arch: 'x86', accelerator: { type: 'nvidia-tesla-a100', count: 8 } },
+    { id: 'a2-ultragpu-1g', name: 'A2 UltraGPU 1g', family: 'Accelerator Optimized', series: 'A2', cores: 12, memory: '170GB', arch: 'x86', accelerator: { type: 'nvidia-a100-80gb', count: 1 } },
+    { id: 'a2-ultragpu-2g', name: 'A2 UltraGPU 2g', family: 'Accelerator Optimized', series: 'A2', cores: 24, memory: '340GB', arch: 'x86', accelerator: { type: 'nvidia-a100-80gb', count: 2 } },
+    { id: 'a2-ultragpu-4g', name: 'A2 UltraGPU 4g', family: 'Accelerator Optimized', series: 'A2', cores: 48, memory: '680GB', arch: 'x86', accelerator: { type: 'nvidia-a100-80gb', count: 4 } },
+    { id: 'a2-ultragpu-8g', name: 'A2 UltraGPU 8g', family: 'Accelerator Optimized', series: 'A2', cores: 96, memory: '1360GB', arch: 'x86', accelerator: { type: 'nvidia-a100-80gb', count: 8 } },
 ] as MachineTypeOption[];
 
 // A3 (NVIDIA H100)
 const A3_TYPES = [
-    { id: 'a3-highgpu-8g', name: 'A3 HighGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86' },
-    { id: 'a3-megagpu-8g', name: 'A3 MegaGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86' },
-    { id: 'a3-edgegpu-8g', name: 'A3 EdgeGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86' },
+    { id: 'a3-highgpu-8g', name: 'A3 HighGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86', accelerator: { type: 'nvidia-h100-80gb', count: 8 } },
+    { id: 'a3-megagpu-8g', name: 'A3 MegaGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86', accelerator: { type: 'nvidia-h100-mega-80gb', count: 8 } },
+    { id: 'a3-edgegpu-8g', name: 'A3 EdgeGPU 8g', family: 'Accelerator Optimized', series: 'A3', cores: 208, memory: '1872GB', arch: 'x86', accelerator: { type: 'nvidia-h100-80gb', count: 8 } },
 ] as MachineTypeOption[];
 
 // G2 (NVIDIA L4)
 const G2_TYPES = [
-    { id: 'g2-standard-4', name: 'G2 Standard 4', family: 'Accelerator Optimized', series: 'G2', cores: 4, memory: '16GB', arch: 'x86' },
-    { id: 'g2-standard-8', name: 'G2 Standard 8', family: 'Accelerator Optimized', series: 'G2', cores: 8, memory: '32GB', arch: 'x86' },
-    { id: 'g2-standard-12', name: 'G2 Standard 12', family: 'Accelerator Optimized', series: 'G2', cores: 12, memory: '48GB', arch: 'x86' },
-    { id: 'g2-standard-16', name: 'G2 Standard 16', family: 'Accelerator Optimized', series: 'G2', cores: 16, memory: '64GB', arch: 'x86' },
-    { id: 'g2-standard-24', name: 'G2 Standard 24', family: 'Accelerator Optimized', series: 'G2', cores: 24, memory: '96GB', arch: 'x86' },
-    { id: 'g2-standard-32', name: 'G2 Standard 32', family: 'Accelerator Optimized', series: 'G2', cores: 32, memory: '128GB', arch: 'x86' },
-    { id: 'g2-standard-48', name: 'G2 Standard 48', family: 'Accelerator Optimized', series: 'G2', cores: 48, memory: '192GB', arch: 'x86' },
-    { id: 'g2-standard-96', name: 'G2 Standard 96', family: 'Accelerator Optimized', series: 'G2', cores: 96, memory: '384GB', arch: 'x86' },
+    { id: 'g2-standard-4', name: 'G2 Standard 4', family: 'Accelerator Optimized', series: 'G2', cores: 4, memory: '16GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 1 } },
+    { id: 'g2-standard-8', name: 'G2 Standard 8', family: 'Accelerator Optimized', series: 'G2', cores: 8, memory: '32GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 1 } },
+    { id: 'g2-standard-12', name: 'G2 Standard 12', family: 'Accelerator Optimized', series: 'G2', cores: 12, memory: '48GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 1 } },
+    { id: 'g2-standard-16', name: 'G2 Standard 16', family: 'Accelerator Optimized', series: 'G2', cores: 16, memory: '64GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 1 } },
+    { id: 'g2-standard-24', name: 'G2 Standard 24', family: 'Accelerator Optimized', series: 'G2', cores: 24, memory: '96GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 2 } },
+    { id: 'g2-standard-32', name: 'G2 Standard 32', family: 'Accelerator Optimized', series: 'G2', cores: 32, memory: '128GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 1 } },
+    { id: 'g2-standard-48', name: 'G2 Standard 48', family: 'Accelerator Optimized', series: 'G2', cores: 48, memory: '192GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 4 } },
+    { id: 'g2-standard-96', name: 'G2 Standard 96', family: 'Accelerator Optimized', series: 'G2', cores: 96, memory: '384GB', arch: 'x86', accelerator: { type: 'nvidia-l4', count: 8 } },
 ] as MachineTypeOption[];
 
 /* --- MEMORY OPTIMIZED --- */
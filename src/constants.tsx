@@ -22,7 +22,17 @@ import {
   Trash2,
   Code2,
   FileText,
-  ArrowUp
+  ArrowUp,
+  UserCircle,
+  LogIn,
+  LogOut,
+  Bookmark,
+  Download,
+  Upload,
+  Pencil,
+  Tag,
+  History,
+  Eye
 } from 'lucide-react';
 
 export const Icons = {
@@ -48,5 +58,15 @@ export const Icons = {
   Trash: (props: any) => <Trash2 size={14} {...props} />,
   Code: (props: any) => <Code2 size={14} {...props} />,
   FileText: (props: any) => <FileText size={14} {...props} />,
-  ArrowUp: (props: any) => <ArrowUp size={16} {...props} />
+  ArrowUp: (props: any) => <ArrowUp size={16} {...props} />,
+  User: (props: any) => <UserCircle size={14} {...props} />,
+  LogIn: (props: any) => <LogIn size={14} {...props} />,
+  LogOut: (props: any) => <LogOut size={14} {...props} />,
+  Bookmark: (props: any) => <Bookmark size={14} {...props} />,
+  Download: (props: any) => <Download size={14} {...props} />,
+  Upload: (props: any) => <Upload size={14} {...props} />,
+  Edit: (props: any) => <Pencil size={12} {...props} />,
+  Tag: (props: any) => <Tag size={12} {...props} />,
+  History: (props: any) => <History size={14} {...props} />,
+  Eye: (props: any) => <Eye size={14} {...props} />
 };
@@ -1,5 +1,7 @@
 
 import { CapacityAdvisorResponse, AppState, GroundingMetadata } from './types';
+import { getProvisioningModelLabel } from './utils';
+import { BatchRow, summarizeBatchRow } from './services/batchService';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -15,6 +17,36 @@ export const downloadFile = (content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 };
 
+/**
+ * Region(s) covered by the report; fan-out runs list every queried region.
+ */
+const getRegionSummary = (state: AppState): string =>
+  state.analysisMode === 'multiRegion' ? `${state.fanOutRegions.length} regions (${state.fanOutRegions.join(', ')})` : state.region;
+
+// Manifest values are user input, so batch reports escape what they print
+const csvCell = (value: string | number): string =>
+  /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+/**
+ * The quota verdict as a block of lines ahead of the placement table, separated by a blank line,
+ * matching the quota table of the HTML and PDF reports.
+ */
+const getQuotaCsvBlock = (state: AppState): string[] => {
+  if (!state.quotaCheck || state.quotaCheck.checks.length === 0) return [];
+  return [
+    ['Quota Check', state.quotaCheck.sufficient ? 'Sufficient' : 'Insufficient'].join(','),
+    ['Metric', 'Limit', 'In Use', 'Required', 'Verdict'].join(','),
+    ...state.quotaCheck.checks.map(c => [
+      c.metric,
+      c.limit,
+      c.usage,
+      c.required,
+      c.sufficient ? 'OK' : `Short by ${c.required - c.available}`
+    ].map(csvCell).join(',')),
+    ''
+  ];
+};
+
 export const generateCSV = (data: CapacityAdvisorResponse, state: AppState): string => {
   const headers = ['Location', 'Machine Type', 'Provisioning Model', 'Obtainability Score', 'Uptime Score', 'VM Count'];
   const rows = data.recommendations.flatMap(rec => 
@@ -32,7 +64,7 @@ export const generateCSV = (data: CapacityAdvisorResponse, state: AppState): str
     })
   );
 
-  return [headers.join(','), ...rows].join('\n');
+  return [...getQuotaCsvBlock(state), headers.join(','), ...rows].join('\n');
 };
 
 export const generateHTML = (data: CapacityAdvisorResponse, state: AppState, groundingData: GroundingMetadata | null): string => {
@@ -44,7 +76,7 @@ export const generateHTML = (data: CapacityAdvisorResponse, state: AppState, gro
     <!DOCTYPE html>
     <html>
       <head>
-        <title>Spot Capacity Report - ${state.project}</title>
+        <title>${getProvisioningModelLabel(state.provisioningModel)} Capacity Report - ${state.project}</title>
         <style>
           body { font-family: sans-serif; padding: 40px; color: #333; line-height: 1.6; }
           h1 { color: #4f46e5; border-bottom: 2px solid #eee; padding-bottom: 10px; }
@@ -58,16 +90,67 @@ export const generateHTML = (data: CapacityAdvisorResponse, state: AppState, gro
         </style>
       </head>
       <body>
-        <h1>Spot Capacity Advisor Report</h1>
+        <h1>${getProvisioningModelLabel(state.provisioningModel)} Capacity Advisor Report</h1>
         <div class="meta">
           <p><strong>Date:</strong> ${date}</p>
           <p><strong>Project:</strong> ${state.project}</p>
-          <p><strong>Region:</strong> ${state.region}</p>
+          <p><strong>Region:</strong> ${getRegionSummary(state)}</p>
+          ${state.analysisMode === 'single' && state.includedZones.length > 0 ? `<p><strong>Allowed Zones:</strong> ${state.includedZones.join(', ')}</p>` : ''}
+          ${state.analysisMode === 'single' && state.excludedZones.length > 0 ? `<p><strong>Excluded Zones:</strong> ${state.excludedZones.join(', ')}</p>` : ''}
           <p><strong>Machine Type:</strong> ${state.selectedMachineType}</p>
+          ${state.alternativeMachineTypes.length > 0 ? `<p><strong>Fallback Types (Ranked):</strong> ${state.alternativeMachineTypes.join(' &gt; ')}</p>` : ''}
+          ${state.acceleratorType ? `<p><strong>Accelerators:</strong> ${state.acceleratorCount}x ${state.acceleratorType} per VM</p>` : ''}
+          <p><strong>Provisioning Model:</strong> ${getProvisioningModelLabel(state.provisioningModel)} (${state.provisioningModel})</p>
           <p><strong>Target Size:</strong> ${state.size} VMs</p>
           <p><strong>Top Obtainability Score:</strong> <span class="score">${(topScore * 100).toFixed(0)}%</span></p>
         </div>
 
+        ${state.quotaCheck ? `
+          <h2>Quota Check: ${state.quotaCheck.sufficient ? 'Sufficient' : 'Insufficient'}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Metric</th>
+                <th>Limit</th>
+                <th>In Use</th>
+                <th>Required</th>
+                <th>Verdict</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${state.quotaCheck.checks.map(c => `<tr>
+                  <td>${c.metric}</td>
+                  <td>${c.limit}</td>
+                  <td>${c.usage}</td>
+                  <td>${c.required}</td>
+                  <td>${c.sufficient ? 'OK' : `Short by ${c.required - c.available}`}</td>
+              </tr>`).join('')}
+            </tbody>
+          </table>
+        ` : ''}
+
+        ${state.regionResults ? `
+          <h2>Region Summary</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Region</th>
+                <th>Status</th>
+                <th>Best Obtainability</th>
+                <th>Options</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${state.regionResults.map(r => `<tr>
+                  <td>${r.region}</td>
+                  <td>${r.status === 'success' ? 'OK' : r.error}</td>
+                  <td>${r.status === 'success' ? `${(r.topObtainability * 100).toFixed(0)}%` : '-'}</td>
+                  <td>${r.recommendationCount}</td>
+              </tr>`).join('')}
+            </tbody>
+          </table>
+        ` : ''}
+
         <h2>Recommended Placements</h2>
         <table>
           <thead>
@@ -106,6 +189,104 @@ export const generateHTML = (data: CapacityAdvisorResponse, state: AppState, gro
   `;
 };
 
+const escapeHtml = (value: string | number): string =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatScore = (value: number | null): string => value === null ? '' : `${(value * 100).toFixed(0)}%`;
+
+/** One line per manifest entry: its status and best placement. */
+export const generateBatchCSV = (rows: BatchRow[], state: AppState): string => {
+  const headers = ['Row', 'Label', 'Machine Type', 'Region', 'VM Count', 'Shape', 'Provisioning Model', 'Status', 'Top Obtainability', 'Top Uptime', 'Best Zones', 'Options', 'Error'];
+  const lines = rows.map(row => {
+    const summary = summarizeBatchRow(row);
+    return [
+      row.entry.row,
+      row.entry.label,
+      row.entry.machineType,
+      row.entry.region,
+      row.entry.size,
+      row.entry.targetShape,
+      row.entry.provisioningModel || state.provisioningModel,
+      row.status,
+      summary.topObtainability === null ? '' : summary.topObtainability.toFixed(2),
+      summary.topUptime === null ? '' : summary.topUptime.toFixed(2),
+      summary.bestZones.join(' '),
+      summary.optionCount,
+      row.error || ''
+    ].map(csvCell).join(',');
+  });
+
+  return [headers.join(','), ...lines].join('\n');
+};
+
+export const generateBatchHTML = (rows: BatchRow[], state: AppState, manifestName: string): string => {
+  const date = new Date().toLocaleString();
+  const succeeded = rows.filter(r => r.status === 'success').length;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Batch Capacity Report - ${escapeHtml(state.project)}</title>
+        <style>
+          body { font-family: sans-serif; padding: 40px; color: #333; line-height: 1.6; }
+          h1 { color: #4f46e5; border-bottom: 2px solid #eee; padding-bottom: 10px; }
+          .meta { background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 30px; }
+          .meta p { margin: 5px 0; font-size: 14px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 20px; }
+          th { text-align: left; background: #e0e7ff; padding: 12px; font-size: 12px; text-transform: uppercase; }
+          td { padding: 12px; border-bottom: 1px solid #eee; font-family: monospace; }
+          .error { color: #b91c1c; }
+        </style>
+      </head>
+      <body>
+        <h1>Batch Capacity Advisor Report</h1>
+        <div class="meta">
+          <p><strong>Date:</strong> ${date}</p>
+          <p><strong>Project:</strong> ${escapeHtml(state.project)}</p>
+          <p><strong>Manifest:</strong> ${escapeHtml(manifestName)}</p>
+          <p><strong>Data Source:</strong> ${state.mockMode ? 'Simulation' : 'Live API'}</p>
+          <p><strong>Completed:</strong> ${succeeded} of ${rows.length} entries</p>
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Row</th>
+              <th>Workload</th>
+              <th>Machine Type</th>
+              <th>Region</th>
+              <th>VM Count</th>
+              <th>Shape</th>
+              <th>Status</th>
+              <th>Obtainability</th>
+              <th>Est. Uptime</th>
+              <th>Best Zones</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.map(row => {
+               const summary = summarizeBatchRow(row);
+               return `<tr>
+                  <td>${row.entry.row}</td>
+                  <td>${escapeHtml(row.entry.label)}</td>
+                  <td>${escapeHtml(row.entry.machineType)}</td>
+                  <td>${escapeHtml(row.entry.region)}</td>
+                  <td>${row.entry.size}</td>
+                  <td>${row.entry.targetShape}</td>
+                  <td${row.error ? ' class="error"' : ''}>${row.error ? escapeHtml(row.error) : row.status}</td>
+                  <td><strong>${formatScore(summary.topObtainability)}</strong></td>
+                  <td>${formatScore(summary.topUptime)}</td>
+                  <td>${summary.bestZones.join(', ')}</td>
+               </tr>`;
+            }).join('')}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `;
+};
+
 /**
  * Aggressively sanitizes text for jsPDF which only supports basic ASCII/Latin-1 by default.
  * Removes emojis, replaces smart quotes, and formats Markdown structure.
@@ -151,7 +332,7 @@ export const generatePDF = (data: CapacityAdvisorResponse, state: AppState, grou
   // Title
   doc.setFontSize(22);
   doc.setTextColor(79, 70, 229); // Indigo
-  doc.text('Spot Capacity Advisor Report', 14, 22);
+  doc.text(`${getProvisioningModelLabel(state.provisioningModel)} Capacity Advisor Report`, 14, 22);
 
   // Subtitle / Date
   doc.setFontSize(10);
@@ -173,9 +354,15 @@ export const generatePDF = (data: CapacityAdvisorResponse, state: AppState, grou
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(0);
   doc.text(state.project, 60, 45);
-  doc.text(state.region, 60, 52);
-  doc.text(state.selectedMachineType, 60, 59);
-  doc.text(`SPOT (${state.size} VMs)`, 60, 66);
+  doc.text(state.analysisMode === 'multiRegion' ? `${state.fanOutRegions.length} regions` : state.region, 60, 52);
+  const gpuSuffix = state.acceleratorType ? ` + ${state.acceleratorCount}x ${state.acceleratorType}` : '';
+  doc.text(
+    state.alternativeMachineTypes.length > 0
+      ? `${state.selectedMachineType}${gpuSuffix} (+${state.alternativeMachineTypes.length} ranked fallbacks)`
+      : `${state.selectedMachineType}${gpuSuffix}`,
+    60, 59
+  );
+  doc.text(`${state.provisioningModel} (${state.size} VMs)`, 60, 66);
 
   // Table Data
   const tableRows = data.recommendations.flatMap(rec =>
@@ -192,9 +379,29 @@ export const generatePDF = (data: CapacityAdvisorResponse, state: AppState, grou
     })
   );
 
+  // Quota Verdict Table
+  let tableStartY = 85;
+  if (state.quotaCheck && state.quotaCheck.checks.length > 0) {
+    autoTable(doc, {
+      startY: tableStartY,
+      head: [[`Quota (${state.quotaCheck.sufficient ? 'Sufficient' : 'Insufficient'})`, 'Limit', 'In Use', 'Required', 'Verdict']],
+      body: state.quotaCheck.checks.map(c => [
+        c.metric,
+        c.limit.toString(),
+        c.usage.toString(),
+        c.required.toString(),
+        c.sufficient ? 'OK' : `Short by ${c.required - c.available}`
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: state.quotaCheck.sufficient ? [16, 185, 129] : [220, 38, 38], textColor: 255, fontStyle: 'bold' },
+      styles: { fontSize: 9, cellPadding: 3 }
+    });
+    tableStartY = (doc as any).lastAutoTable.finalY + 8;
+  }
+
   // Recommendations Table
   autoTable(doc, {
-    startY: 85,
+    startY: tableStartY,
     head: [['Zone', 'Machine Type', 'Obtainability', 'Est. Uptime', 'VM Count']],
     body: tableRows,
     theme: 'grid',
@@ -207,7 +414,7 @@ export const generatePDF = (data: CapacityAdvisorResponse, state: AppState, grou
   });
 
   // Insights Section
-  let finalY = (doc as any).lastAutoTable.finalY || 85;
+  let finalY = (doc as any).lastAutoTable.finalY || tableStartY;
   
   if (groundingData && groundingData.insight) {
       if (finalY > 200) {
@@ -0,0 +1,123 @@
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { AppState, NetworkLogEntry, Toast } from '../types';
+import { MachineTypeOption } from '../config';
+import { BatchRow, BatchValidationContext, parseManifest, runBatch, createBatchRows, validateBatch } from '../services/batchService';
+import { isProxyEnabled } from '../services/proxyClient';
+import { downloadFile, generateBatchCSV, generateBatchHTML } from '../export';
+
+export interface BatchActions {
+  /** Parses a manifest file and queues its entries; a running batch must be cancelled first. */
+  loadManifest: (file: File) => void;
+  start: () => void;
+  cancel: () => void;
+  clear: () => void;
+  exportReport: (type: 'csv' | 'html') => void;
+}
+
+export interface BatchState {
+  manifestName: string | null;
+  rows: BatchRow[];
+  running: boolean;
+}
+
+/**
+ * Batch analysis of an uploaded workload manifest, using the current project, credentials
+ * and data source (simulation or live).
+ */
+export const useBatchAnalysis = (
+  state: AppState,
+  machineTypes: MachineTypeOption[],
+  addToast: (type: Toast['type'], title: string, message: string, duration?: number) => void,
+  onNetworkLog: (entry: NetworkLogEntry) => void,
+  validation: Omit<BatchValidationContext, 'machineTypes'>
+) => {
+  const [batch, setBatch] = useState<BatchState>({ manifestName: null, rows: [], running: false });
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const loadManifest = useCallback(async (file: File) => {
+    if (abortControllerRef.current) {
+      addToast('warning', 'Batch Running', 'Cancel the running batch before loading another manifest.');
+      return;
+    }
+    try {
+      const entries = parseManifest(await file.text(), file.name);
+      setBatch({ manifestName: file.name, rows: createBatchRows(entries), running: false });
+      addToast('info', 'Manifest Loaded', `${entries.length} entr${entries.length === 1 ? 'y' : 'ies'} queued from ${file.name}.`);
+    } catch (error: any) {
+      addToast('error', 'Invalid Manifest', error.message || 'The manifest could not be read.');
+    }
+  }, [addToast]);
+
+  const start = useCallback(async () => {
+    if (abortControllerRef.current || batch.rows.length === 0) return;
+    if (!state.project) {
+      addToast('error', 'Configuration Incomplete', 'A valid Google Cloud Project ID is required.');
+      return;
+    }
+    if (!state.mockMode && !isProxyEnabled() && !state.accessToken) {
+      addToast('error', 'Authentication Missing', 'Please provide a valid Access Token to query live Google Cloud data.');
+      return;
+    }
+
+    // Same checks as a single search, before any entry spends rate limiter budget
+    const entries = batch.rows.map(row => row.entry);
+    const problem = validateBatch(entries, state, {
+      ...validation,
+      tokenProblem: isProxyEnabled() ? null : validation.tokenProblem,
+      machineTypes
+    });
+    if (problem) {
+      addToast('error', 'Batch Not Started', problem);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setBatch(prev => ({ ...prev, rows: createBatchRows(entries), running: true }));
+
+    const rows = await runBatch(entries, state, {
+      getMachineDetails: (id) => machineTypes.find(m => m.id === id),
+      signal: controller.signal,
+      onNetworkLog,
+      onRowUpdate: (index, row) => setBatch(prev => ({ ...prev, rows: prev.rows.map((r, i) => i === index ? row : r) }))
+    });
+
+    // Cleared while running: the rows are gone
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setBatch(prev => ({ ...prev, rows, running: false }));
+    if (controller.signal.aborted) return;
+
+    const failed = rows.filter(r => r.status === 'error').length;
+    if (failed > 0) {
+      addToast('warning', 'Batch Finished With Errors', `${failed} of ${rows.length} entries failed. See the status column for details.`);
+    } else {
+      addToast('success', 'Batch Complete', `All ${rows.length} entries were analyzed.`);
+    }
+  }, [batch.rows, state, machineTypes, addToast, onNetworkLog, validation]);
+
+  const cancel = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    addToast('info', 'Batch Cancelled', 'Entries that had not finished were marked as cancelled.');
+  }, [addToast]);
+
+  const clear = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setBatch({ manifestName: null, rows: [], running: false });
+  }, []);
+
+  const exportReport = useCallback((type: 'csv' | 'html') => {
+    if (batch.rows.length === 0) return;
+    const baseName = `batch-${state.project || 'capacity'}`;
+    if (type === 'csv') downloadFile(generateBatchCSV(batch.rows, state), `${baseName}.csv`, 'text/csv');
+    else downloadFile(generateBatchHTML(batch.rows, state, batch.manifestName || 'manifest'), `${baseName}.html`, 'text/html');
+  }, [batch.rows, batch.manifestName, state]);
+
+  const actions = useMemo<BatchActions>(
+    () => ({ loadManifest, start, cancel, clear, exportReport }),
+    [loadManifest, start, cancel, clear, exportReport]
+  );
+  return { batch, actions };
+};
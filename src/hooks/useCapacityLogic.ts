@@ -3,10 +3,15 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   AppState, 
   TargetShape, 
+  ProvisioningModel, 
   CapacityAdvisorResponse, 
   LogEntry, 
   DebugData, 
   NetworkLogEntry,
+  RegionRunResult,
+  QuotaCheckResult,
+  SweepConfig,
+  TokenInfo,
   Toast 
 } from '../types';
 import { 
@@ -14,14 +19,33 @@ import {
   REGION_CONFIG as STATIC_REGION_CONFIG, 
   MACHINE_TYPES as STATIC_MACHINE_TYPES, 
   MachineTypeOption,
-  REGION_METADATA 
+  REGION_METADATA,
+  ACCELERATOR_TYPES,
+  ACCELERATOR_ATTACHABLE_SERIES
 } from '../config';
-import { fetchAllZonesCapacity, fetchAvailableRegions, fetchMachineTypes } from '../services/apiService';
+import { fetchAllZonesCapacity, fetchAvailableRegions, fetchMachineTypeMatrix, fetchAcceleratorTypes } from '../services/apiService';
 import { generateMockRecommendationsWithShape } from '../services/simulationEngine';
+import { runMultiRegionAnalysis } from '../services/multiRegionService';
+import { runCountSweep, getLinearSweepCounts, MAX_SWEEP_CALLS } from '../services/sweepService';
+import { checkRegionQuota } from '../services/quotaService';
+import { isProxyEnabled } from '../services/proxyClient';
+import { PROJECT_ID_REGEX } from '../services/proxyContract';
+import { readSharedLink, buildShareParams, buildShareUrl, applySharedLink, markMirroredHistoryState } from '../services/shareLinkService';
+import { pickScenarioConfig } from '../services/scenarioStore';
+import { RunRecord, RunTrigger } from '../services/runHistoryStore';
+import { getWatchKey, fetchWatchResponse } from '../services/watchService';
+import { getOAuthConfig, signInWithPopup, renewAuthSession, fetchTokenInfo, getTokenProblem, TOKEN_REFRESH_MARGIN_MS } from '../services/authService';
 import { useStreamAI } from './useStreamAI';
-import { getFriendlyErrorMessage, buildCapacityAdvisorRequest } from '../utils';
+import { useScenarios } from './useScenarios';
+import { useRunHistory, CompletedRun, RunActions } from './useRunHistory';
+import { useWatchMode } from './useWatchMode';
+import { useBatchAnalysis } from './useBatchAnalysis';
+import { getFriendlyErrorMessage, getErrorStatus, NETWORK_ERROR_STATUS, buildCapacityAdvisorRequest, getRankedMachineTypes, getProvisioningModelLabel, resolveCandidateZones, getGuestAccelerators, getMachineTypeSeries, getZonesMissingMachineTypes, filterRecommendationsByAvailability, isStockoutError, createAbortError, isAbortError } from '../utils';
 import { downloadFile, generateCSV, generateHTML, generatePDF } from '../export';
 
+// The backend proxy authenticates with server-side credentials; no browser token is needed
+const PROXY_MODE = isProxyEnabled();
+
 const INITIAL_DEBUG: DebugData = {
   request: null,
   response: null,
@@ -34,13 +58,33 @@ const INITIAL_DEBUG: DebugData = {
   network: []
 };
 
+const INITIAL_SWEEP_CONFIG: SweepConfig = {
+  minCount: 10,
+  maxCount: 500,
+  step: 10,
+  strategy: 'binary',
+  targetObtainability: 0.7
+};
+
 const INITIAL_STATE: AppState = {
   project: 'gcp-capacity-planning',
   region: 'us-central1',
   selectedMachineType: 'n2-standard-4',
+  alternativeMachineTypes: [],
   selectedFamilies: ['All'],
   size: 5,
   targetShape: TargetShape.ANY_SINGLE_ZONE,
+  provisioningModel: ProvisioningModel.SPOT,
+  acceleratorType: '',
+  acceleratorCount: 1,
+  includedZones: [],
+  excludedZones: [],
+  analysisMode: 'single',
+  fanOutRegions: [],
+  regionResults: null,
+  sweepConfig: INITIAL_SWEEP_CONFIG,
+  sweepResult: null,
+  quotaCheck: null,
   loading: false,
   groundingLoading: false,
   result: null,
@@ -49,6 +93,7 @@ const INITIAL_STATE: AppState = {
   showDebug: false,
   mockMode: true,
   accessToken: '',
+  authSession: null,
   searchTerm: '',
   darkMode: false,
   groundingMetadata: null,
@@ -56,62 +101,97 @@ const INITIAL_STATE: AppState = {
   validationErrors: {}
 };
 
-// GCP Project ID Regex: 6-30 chars, lowercase, digits, hyphens.
-const PROJECT_ID_REGEX = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+/**
+ * Restores the saved configuration (never results or credentials) from localStorage.
+ */
+const loadPersistedState = (): AppState => {
+  const saved = localStorage.getItem('appState');
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      const safeFamilies = Array.isArray(parsed.selectedFamilies) ? parsed.selectedFamilies : ['All'];
+      const safeAlternatives = Array.isArray(parsed.alternativeMachineTypes) ? parsed.alternativeMachineTypes : [];
+      const safeProvisioningModel = Object.values(ProvisioningModel).includes(parsed.provisioningModel) ? parsed.provisioningModel : ProvisioningModel.SPOT;
+      const safeAcceleratorType = ACCELERATOR_TYPES.some(a => a.id === parsed.acceleratorType) ? parsed.acceleratorType : '';
+      const safeAcceleratorCount = Number.isInteger(parsed.acceleratorCount) && parsed.acceleratorCount > 0 ? parsed.acceleratorCount : 1;
+      const safeIncludedZones = Array.isArray(parsed.includedZones) ? parsed.includedZones : [];
+      const safeExcludedZones = Array.isArray(parsed.excludedZones) ? parsed.excludedZones : [];
+      const safeAnalysisMode = ['single', 'multiRegion', 'sweep'].includes(parsed.analysisMode) ? parsed.analysisMode : 'single';
+      const safeSweepConfig = parsed.sweepConfig && typeof parsed.sweepConfig === 'object' ? { ...INITIAL_SWEEP_CONFIG, ...parsed.sweepConfig } : INITIAL_SWEEP_CONFIG;
+      const safeFanOutRegions = Array.isArray(parsed.fanOutRegions) ? parsed.fanOutRegions : [];
+      
+      // Apply theme immediately
+      if (parsed.darkMode) {
+          document.documentElement.classList.add('dark');
+      } else {
+          document.documentElement.classList.remove('dark');
+      }
 
-export const useCapacityLogic = () => {
-  // --- State Initialization ---
-  const [state, setState] = useState<AppState>(() => {
-    const saved = localStorage.getItem('appState');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        const safeFamilies = Array.isArray(parsed.selectedFamilies) ? parsed.selectedFamilies : ['All'];
-        
-        // Apply theme immediately
-        if (parsed.darkMode) {
-            document.documentElement.classList.add('dark');
-        } else {
-            document.documentElement.classList.remove('dark');
-        }
+      return { 
+          ...INITIAL_STATE, 
+          ...parsed, 
+          selectedFamilies: safeFamilies,
+          alternativeMachineTypes: safeAlternatives,
+          provisioningModel: safeProvisioningModel,
+          acceleratorType: safeAcceleratorType,
+          acceleratorCount: safeAcceleratorCount,
+          includedZones: safeIncludedZones,
+          excludedZones: safeExcludedZones,
+          analysisMode: safeAnalysisMode,
+          fanOutRegions: safeFanOutRegions,
+          sweepConfig: safeSweepConfig,
+          loading: false, 
+          groundingLoading: false, 
+          result: null, 
+          regionResults: null,
+          sweepResult: null,
+          quotaCheck: null,
+          error: null, 
+          debugData: INITIAL_DEBUG,
+          accessToken: '', // Don't persist sensitive tokens
+          authSession: null,
+          searchTerm: '',
+          toasts: [],
+          validationErrors: {}
+      };
+    } catch (e) { return INITIAL_STATE; }
+  }
+  
+  // Fallback to System Preference
+  const systemPrefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  if (systemPrefersDark) {
+      document.documentElement.classList.add('dark');
+  }
 
-        return { 
-            ...INITIAL_STATE, 
-            ...parsed, 
-            selectedFamilies: safeFamilies,
-            loading: false, 
-            groundingLoading: false, 
-            result: null, 
-            error: null, 
-            debugData: INITIAL_DEBUG,
-            accessToken: '', // Don't persist sensitive tokens
-            searchTerm: '',
-            toasts: [],
-            validationErrors: {}
-        };
-      } catch (e) { return INITIAL_STATE; }
-    }
-    
-    // Fallback to System Preference
-    const systemPrefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-    if (systemPrefersDark) {
-        document.documentElement.classList.add('dark');
-    }
+  return { ...INITIAL_STATE, darkMode: systemPrefersDark };
+};
 
-    return { ...INITIAL_STATE, darkMode: systemPrefersDark };
-  });
+export const useCapacityLogic = () => {
+  // --- State Initialization ---
+  // A shared link (?project=...&region=...) replaces the saved analysis configuration
+  const [sharedLink] = useState(() => readSharedLink(window.location.search, window.history.state));
+  const [state, setState] = useState<AppState>(() => applySharedLink(loadPersistedState(), INITIAL_STATE, sharedLink));
 
   const [availableRegions, setAvailableRegions] = useState<string[]>(REGIONS);
   const [availableMachineTypes, setAvailableMachineTypes] = useState<MachineTypeOption[]>(STATIC_MACHINE_TYPES);
   const [regionConfig, setRegionConfig] = useState<Record<string, string[]>>(STATIC_REGION_CONFIG);
+  // zone -> machine type ids for the selected region; null when unknown (mock mode / fetch failed)
+  const [zoneMachineTypes, setZoneMachineTypes] = useState<Record<string, string[]> | null>(null);
+  // zone -> attachable accelerator ids; null when unknown (mock mode / fetch failed)
+  const [zonalAccelerators, setZonalAccelerators] = useState<Record<string, string[]> | null>(null);
   
   const [isFetchingRegions, setIsFetchingRegions] = useState(false);
   const [isFetchingMachineTypes, setIsFetchingMachineTypes] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
+  const [isCheckingToken, setIsCheckingToken] = useState(false);
   
   const abortControllerRef = useRef<AbortController | null>(null);
   const lastFetchTimeRef = useRef<number | null>(null);
   const staleToastShownRef = useRef<boolean>(false);
   const isFirstRender = useRef(true);
+  // Starts a watch-mode run; assigned below once runAnalysis exists
+  const watchRunRef = useRef<() => void>(() => {});
 
   // --- AI Stream Hook ---
   const { 
@@ -162,10 +242,10 @@ export const useCapacityLogic = () => {
 
   const updateState = useCallback((updates: Partial<AppState>) => {
     // Check for config change
-    const configKeys: (keyof AppState)[] = ['project', 'region', 'selectedMachineType', 'size', 'targetShape', 'mockMode'];
+    const configKeys: (keyof AppState)[] = ['project', 'region', 'selectedMachineType', 'alternativeMachineTypes', 'size', 'targetShape', 'provisioningModel', 'acceleratorType', 'acceleratorCount', 'includedZones', 'excludedZones', 'analysisMode', 'fanOutRegions', 'sweepConfig', 'mockMode'];
     const isConfigChange = configKeys.some(key => key in updates && updates[key] !== state[key]);
 
-    if (state.result && isConfigChange) {
+    if ((state.result || state.sweepResult) && isConfigChange) {
         resetStream();
         addToast(
             'info',
@@ -180,12 +260,25 @@ export const useCapacityLogic = () => {
         if (updates.project) delete newErrors.project;
         if (updates.region) delete newErrors.region;
         if (updates.selectedMachineType) delete newErrors.machineType;
+        if (updates.selectedMachineType !== undefined || updates.alternativeMachineTypes || updates.acceleratorType !== undefined || updates.region) delete newErrors.accelerator;
         if (updates.accessToken) delete newErrors.accessToken;
+        if (updates.includedZones || updates.excludedZones) delete newErrors.zones;
+        if (updates.fanOutRegions || updates.analysisMode) delete newErrors.fanOutRegions;
+        if (updates.sweepConfig || updates.analysisMode) delete newErrors.sweep;
         
         let nextState = { ...prev, ...updates, validationErrors: newErrors };
 
-        if (prev.result && isConfigChange) {
+        // Zone policies belong to a region; drop them when the region changes
+        if (updates.region !== undefined && updates.region !== prev.region && !('includedZones' in updates)) {
+             nextState.includedZones = [];
+             nextState.excludedZones = [];
+        }
+
+        if ((prev.result || prev.sweepResult) && isConfigChange) {
              nextState.result = null;
+             nextState.regionResults = null;
+             nextState.sweepResult = null;
+             nextState.quotaCheck = null;
              nextState.error = null;
              nextState.groundingMetadata = null;
              nextState.debugData = { ...prev.debugData, status: 'idle' };
@@ -195,12 +288,21 @@ export const useCapacityLogic = () => {
     });
   }, [state, resetStream, addToast]);
 
+  const { scenarios, actions: scenarioActions } = useScenarios(state, updateState, addToast);
+  const { runs, beginRun, recordRun, attachInsights, remove: removeRun, clearAll: clearRunHistory } = useRunHistory(addToast);
+  const { status: watchStatus, actions: watchActions, observe: observeWatchRun } = useWatchMode(state, watchRunRef, addToast);
+  const batchValidation = useMemo(() => ({
+    tokenProblem: tokenInfo ? getTokenProblem(tokenInfo) : null,
+    availability: zoneMachineTypes ? { region: state.region, zones: regionConfig[state.region] || [], zoneMachineTypes } : null
+  }), [tokenInfo, zoneMachineTypes, regionConfig, state.region]);
+  const { batch, actions: batchActions } = useBatchAnalysis(state, availableMachineTypes, addToast, addNetworkLog, batchValidation);
+
   // --- Effects ---
 
-  // Check Data Freshness (Stale Data Alert - 2 Minutes)
+  // Check Data Freshness (Stale Data Alert - 2 Minutes; watch mode keeps results fresh itself)
   useEffect(() => {
     const checkStaleness = () => {
-      if (!state.result || !lastFetchTimeRef.current) return;
+      if (!state.result || !lastFetchTimeRef.current || watchStatus.settings.enabled) return;
       const elapsed = Date.now() - lastFetchTimeRef.current;
       const STALE_THRESHOLD = 120 * 1000;
       
@@ -217,7 +319,7 @@ export const useCapacityLogic = () => {
 
     const interval = setInterval(checkStaleness, 15000);
     return () => clearInterval(interval);
-  }, [state.result, addToast]);
+  }, [state.result, watchStatus.settings.enabled, addToast]);
 
   // Sync AI Stream
   useEffect(() => {
@@ -239,21 +341,49 @@ export const useCapacityLogic = () => {
     }
   }, [isStreaming, streamOutput, streamMetadata, streamDebug]);
 
+  // File the finished AI insight with the run it belongs to
+  useEffect(() => {
+    if (!isStreaming && streamMetadata) attachInsights(streamMetadata);
+  }, [isStreaming, streamMetadata, attachInsights]);
+
   // Persist State & Theme
   useEffect(() => {
     const configToSave = {
         project: state.project,
         region: state.region,
         selectedMachineType: state.selectedMachineType,
+        alternativeMachineTypes: state.alternativeMachineTypes,
         selectedFamilies: state.selectedFamilies,
         size: state.size,
         targetShape: state.targetShape,
+        provisioningModel: state.provisioningModel,
+        acceleratorType: state.acceleratorType,
+        acceleratorCount: state.acceleratorCount,
+        includedZones: state.includedZones,
+        excludedZones: state.excludedZones,
+        analysisMode: state.analysisMode,
+        fanOutRegions: state.fanOutRegions,
+        sweepConfig: state.sweepConfig,
         mockMode: state.mockMode,
         darkMode: state.darkMode
     };
     localStorage.setItem('appState', JSON.stringify(configToSave));
     document.documentElement.classList.toggle('dark', state.darkMode);
-  }, [state.project, state.region, state.selectedMachineType, state.selectedFamilies, state.size, state.targetShape, state.mockMode, state.darkMode]);
+  }, [state.project, state.region, state.selectedMachineType, state.alternativeMachineTypes, state.selectedFamilies, state.size, state.targetShape, state.provisioningModel, state.acceleratorType, state.acceleratorCount, state.includedZones, state.excludedZones, state.analysisMode, state.fanOutRegions, state.sweepConfig, state.mockMode, state.darkMode]);
+
+  // Mirror the shareable fields into the address bar (replaceState, so history isn't flooded),
+  // flagged so that reloading the page isn't treated as opening a link
+  useEffect(() => {
+    const params = buildShareParams(state);
+    window.history.replaceState(markMirroredHistoryState(window.history.state), '', `${window.location.pathname}?${params.toString()}${window.location.hash}`);
+  }, [state.project, state.region, state.selectedMachineType, state.alternativeMachineTypes, state.selectedFamilies, state.size, state.targetShape, state.provisioningModel, state.acceleratorType, state.acceleratorCount, state.includedZones, state.excludedZones, state.mockMode]);
+
+  // Tell the user which parts of a shared link were ignored
+  useEffect(() => {
+    if (sharedLink.rejected.length > 0) {
+      addToast('warning', 'Shared Link Partially Applied', `Ignored invalid link parameters: ${sharedLink.rejected.join(', ')}.`);
+    }
+  }, [sharedLink, addToast]);
 
   // Reset results when switching modes
   useEffect(() => {
@@ -271,6 +401,9 @@ export const useCapacityLogic = () => {
     setState(prev => ({
         ...prev,
         result: null,
+        regionResults: null,
+        sweepResult: null,
+        quotaCheck: null,
         error: null,
         groundingMetadata: null,
         loading: false,
@@ -285,15 +418,16 @@ export const useCapacityLogic = () => {
   // Fetch Regions
   useEffect(() => {
     let mounted = true;
+    const controller = new AbortController();
     const loadRegions = async () => {
-      if (!state.accessToken || state.mockMode || !state.project) {
+      if ((!state.accessToken && !PROXY_MODE) || state.mockMode || !state.project) {
         setAvailableRegions(REGIONS);
         setRegionConfig(STATIC_REGION_CONFIG);
         return;
       }
       setIsFetchingRegions(true);
       try {
-        const dynamicRegionConfig = await fetchAvailableRegions(state.accessToken, state.project, addNetworkLog);
+        const dynamicRegionConfig = await fetchAvailableRegions(state.accessToken, state.project, addNetworkLog, controller.signal, message => addLog('info', message));
         if (mounted && Object.keys(dynamicRegionConfig).length > 0) {
           const regions = Object.keys(dynamicRegionConfig).sort();
           setAvailableRegions(regions);
@@ -310,47 +444,174 @@ export const useCapacityLogic = () => {
       }
     };
     const timer = setTimeout(loadRegions, 100);
-    return () => { mounted = false; clearTimeout(timer); };
+    return () => { mounted = false; clearTimeout(timer); controller.abort(); };
   }, [state.accessToken, state.project, state.mockMode, addLog, addNetworkLog]);
 
-  // Fetch Machine Types
+  // Fetch Machine Types (aggregated zone x machine type matrix for the region)
   useEffect(() => {
     let mounted = true;
+    const controller = new AbortController();
     const loadMachineTypes = async () => {
-        if (!state.accessToken || state.mockMode || !state.project || !state.region) {
+        if ((!state.accessToken && !PROXY_MODE) || state.mockMode || !state.project || !state.region) {
             setAvailableMachineTypes(STATIC_MACHINE_TYPES);
+            setZoneMachineTypes(null);
             return;
         }
-        const zones = regionConfig[state.region];
-        if (!zones || zones.length === 0) {
-             setAvailableMachineTypes(STATIC_MACHINE_TYPES);
-             return;
-        }
         setIsFetchingMachineTypes(true);
         try {
-            const types = await fetchMachineTypes(state.accessToken, state.project, zones[0], addNetworkLog);
-            if (mounted && types.length > 0) {
-                setAvailableMachineTypes(types);
-                addLog('info', `Fetched ${types.length} machine types.`);
+            const { machineTypes, zoneMachineTypes: matrix } = await fetchMachineTypeMatrix(state.accessToken, state.project, state.region, addNetworkLog, controller.signal, message => addLog('info', message));
+            if (mounted && machineTypes.length > 0) {
+                setAvailableMachineTypes(machineTypes);
+                setZoneMachineTypes(matrix);
+                addLog('info', `Fetched ${machineTypes.length} machine types across ${Object.keys(matrix).length} zones.`);
             } else if (mounted) {
                  setAvailableMachineTypes(STATIC_MACHINE_TYPES);
+                 setZoneMachineTypes(null);
             }
         } catch (e) {
             if (mounted) {
                 addLog('warn', 'Could not fetch dynamic types. Using static fallback.');
                 setAvailableMachineTypes(STATIC_MACHINE_TYPES);
+                setZoneMachineTypes(null);
             }
         } finally {
             if (mounted) setIsFetchingMachineTypes(false);
         }
     };
     const timer = setTimeout(loadMachineTypes, 200);
-    return () => { mounted = false; clearTimeout(timer); }
-  }, [state.accessToken, state.project, state.region, regionConfig, state.mockMode, addLog, addNetworkLog]);
+    return () => { mounted = false; clearTimeout(timer); controller.abort(); }
+  }, [state.accessToken, state.project, state.region, state.mockMode, addLog, addNetworkLog]);
+
+  // Fetch Accelerator Types (aggregated across all zones)
+  useEffect(() => {
+    let mounted = true;
+    const controller = new AbortController();
+    const loadAcceleratorTypes = async () => {
+        if ((!state.accessToken && !PROXY_MODE) || state.mockMode || !state.project) {
+            setZonalAccelerators(null);
+            return;
+        }
+        try {
+            const accelerators = await fetchAcceleratorTypes(state.accessToken, state.project, addNetworkLog, controller.signal, message => addLog('info', message));
+            if (mounted) {
+                setZonalAccelerators(accelerators);
+                addLog('info', `Fetched accelerator availability for ${Object.keys(accelerators).length} zones.`);
+            }
+        } catch (e) {
+            if (mounted) {
+                addLog('warn', 'Could not fetch accelerator types. GPU zone availability is unverified.');
+                setZonalAccelerators(null);
+            }
+        }
+    };
+    const timer = setTimeout(loadAcceleratorTypes, 300);
+    return () => { mounted = false; clearTimeout(timer); controller.abort(); }
+  }, [state.accessToken, state.project, state.mockMode, addLog, addNetworkLog]);
+
+  // Accelerators offered in the selected region, and zones that lack the chosen one
+  const regionAccelerators = useMemo(() => {
+    if (!zonalAccelerators || state.analysisMode === 'multiRegion') return ACCELERATOR_TYPES;
+    const zones = regionConfig[state.region] || [];
+    const available = new Set(zones.flatMap(zone => zonalAccelerators[zone] || []));
+    return ACCELERATOR_TYPES.filter(a => available.has(a.id));
+  }, [zonalAccelerators, regionConfig, state.region, state.analysisMode]);
+
+  const zonesMissingMachineType = useMemo(() => {
+    if (!zoneMachineTypes || !state.selectedMachineType) return [];
+    return getZonesMissingMachineTypes(regionConfig[state.region] || [], [state.selectedMachineType], zoneMachineTypes);
+  }, [zoneMachineTypes, regionConfig, state.region, state.selectedMachineType]);
+
+  const zonesMissingAccelerator = useMemo(() => {
+    if (!zonalAccelerators || !state.acceleratorType) return [];
+    return (regionConfig[state.region] || [])
+        .filter(zone => !(zonalAccelerators[zone] || []).includes(state.acceleratorType));
+  }, [zonalAccelerators, regionConfig, state.region, state.acceleratorType]);
+
+  // Introspect the access token (expiry, scopes) whenever it changes
+  useEffect(() => {
+    let mounted = true;
+    const token = state.accessToken.trim();
+    if (state.mockMode || PROXY_MODE || !token) {
+        setTokenInfo(null);
+        setIsCheckingToken(false);
+        return;
+    }
+    // Drop the previous token's verdict until the new one is checked
+    setTokenInfo(null);
+    setIsCheckingToken(true);
+    const timer = setTimeout(async () => {
+        const info = await fetchTokenInfo(token);
+        if (!mounted) return;
+        setTokenInfo(info);
+        setIsCheckingToken(false);
+        const problem = getTokenProblem(info);
+        if (problem) addLog('warn', `Access token check: ${problem}`);
+        else if (info.status === 'unreachable') addLog('warn', 'Could not reach the tokeninfo endpoint. Token validity is unverified.');
+    }, 500);
+    return () => { mounted = false; clearTimeout(timer); };
+  }, [state.accessToken, state.mockMode, addLog]);
+
+  // Silently renew the OAuth access token shortly before it expires
+  useEffect(() => {
+    const session = state.authSession;
+    if (!session) return;
+
+    const timer = setTimeout(async () => {
+        try {
+            const renewed = await renewAuthSession(getOAuthConfig(), session);
+            setState(prev => prev.authSession === session
+                ? { ...prev, authSession: renewed, accessToken: renewed.accessToken }
+                : prev);
+            addLog('info', `Access token renewed (valid until ${new Date(renewed.expiresAt).toLocaleTimeString()}).`);
+        } catch (e) {
+            setState(prev => prev.authSession === session ? { ...prev, authSession: null, accessToken: '' } : prev);
+            addLog('warn', 'Access token renewal failed.');
+            addToast('warning', 'Session Expired', 'Your Google session could not be renewed. Sign in again to keep using the live API.');
+        }
+    }, Math.max(0, session.expiresAt - TOKEN_REFRESH_MARGIN_MS - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [state.authSession, addLog, addToast]);
 
   // --- Actions ---
 
-  const handleSearch = async () => {
+  const signIn = useCallback(async () => {
+    setIsSigningIn(true);
+    try {
+        const session = await signInWithPopup();
+        setState(prev => {
+            const validationErrors = { ...prev.validationErrors };
+            delete validationErrors.accessToken;
+            return { ...prev, authSession: session, accessToken: session.accessToken, validationErrors };
+        });
+        addLog('info', `Signed in${session.email ? ` as ${session.email}` : ''}.`);
+        addToast('success', 'Signed In', session.email ? `Using Google credentials for ${session.email}.` : 'Using your Google credentials.');
+    } catch (error: any) {
+        addToast('error', 'Sign-in Failed', getFriendlyErrorMessage(getErrorStatus(error), error.message));
+    } finally {
+        setIsSigningIn(false);
+    }
+  }, [addLog, addToast]);
+
+  const signOut = useCallback(() => {
+    setState(prev => ({ ...prev, authSession: null, accessToken: '' }));
+    addToast('info', 'Signed Out', 'The access token has been cleared.');
+  }, [addToast]);
+
+  // Built from the allowlisted fields only, so neither the access token nor the session leaks into the link
+  const copyShareLink = useCallback(async () => {
+    const url = buildShareUrl(state, window.location);
+    try {
+      await navigator.clipboard.writeText(url);
+      addToast('success', 'Link Copied', 'A link to this configuration is on your clipboard.');
+    } catch (e) {
+      addToast('error', 'Copy Failed', 'The browser blocked clipboard access. Copy the address bar instead.');
+    }
+  }, [state, addToast]);
+
+  // Watch runs skip the Gemini insight and the success toast; a run only alerts when its results change
+  const runAnalysis = async (trigger: RunTrigger) => {
+    const isWatchRun = trigger === 'watch';
     if (state.loading) {
        if (abortControllerRef.current) {
          abortControllerRef.current.abort();
@@ -373,12 +634,76 @@ export const useCapacityLogic = () => {
         hasError = true;
     }
 
-    if (!state.region || state.region.trim() === '') {
+    // Attached GPUs are only supported on N1 (A2/A3/G2 ship with their own)
+    if (state.acceleratorType) {
+        const unsupported = getRankedMachineTypes(state.selectedMachineType, state.alternativeMachineTypes)
+            .filter(type => !ACCELERATOR_ATTACHABLE_SERIES.includes(getMachineTypeSeries(type)));
+        if (unsupported.length > 0) {
+            errors.accelerator = true;
+            addToast('error', 'Accelerator Not Supported', `${unsupported.join(', ')} cannot attach ${state.acceleratorType}. Attached GPUs require an ${ACCELERATOR_ATTACHABLE_SERIES.join('/')} machine type.`);
+            hasError = true;
+        }
+    }
+
+    const isFanOut = state.analysisMode === 'multiRegion';
+    const isSweep = state.analysisMode === 'sweep';
+
+    if (isFanOut) {
+        if (state.fanOutRegions.length < 2) {
+            errors.fanOutRegions = true;
+            addToast('error', 'Configuration Incomplete', 'Select at least two regions (or a continent) for a multi-region comparison.');
+            hasError = true;
+        }
+    } else if (!state.region || state.region.trim() === '') {
         errors.region = true;
         addToast('error', 'Configuration Incomplete', 'A Target Region must be selected.');
         hasError = true;
     }
 
+    // Zone policy must leave at least one zone to place on
+    const regionZones = regionConfig[state.region] || [];
+    const candidateZones = resolveCandidateZones(regionZones, state.includedZones, state.excludedZones);
+    if (!isFanOut && regionZones.length > 0 && candidateZones.length === 0) {
+        errors.zones = true;
+        addToast('error', 'Zone Policy Too Strict', 'The selected zone allowlist and denylist exclude every zone in this region.');
+        hasError = true;
+    }
+
+    // At least one ranked machine type must be offered in a candidate zone
+    if (!isFanOut && zoneMachineTypes && state.selectedMachineType && candidateZones.length > 0) {
+        const rankedTypes = getRankedMachineTypes(state.selectedMachineType, state.alternativeMachineTypes);
+        if (getZonesMissingMachineTypes(candidateZones, rankedTypes, zoneMachineTypes).length === candidateZones.length) {
+            errors.machineType = true;
+            addToast('error', 'Machine Type Unavailable', `${rankedTypes.join(', ')} is not offered in any candidate zone of ${state.region}.`);
+            hasError = true;
+        }
+    }
+
+    // The chosen GPU must exist in at least one candidate zone
+    if (!isFanOut && state.acceleratorType && !errors.accelerator && candidateZones.length > 0
+        && candidateZones.every(zone => zonesMissingAccelerator.includes(zone))) {
+        errors.accelerator = true;
+        addToast('error', 'Accelerator Unavailable', `${state.acceleratorType} is not offered in any candidate zone of ${state.region}.`);
+        hasError = true;
+    }
+
+    if (isSweep) {
+        const { minCount, maxCount, step, strategy, targetObtainability } = state.sweepConfig;
+        if (minCount < 1 || maxCount <= minCount || step < 1) {
+            errors.sweep = true;
+            addToast('error', 'Invalid Sweep Range', 'The sweep needs a minimum of at least 1, a maximum above the minimum, and a positive step.');
+            hasError = true;
+        } else if (targetObtainability <= 0 || targetObtainability > 1) {
+            errors.sweep = true;
+            addToast('error', 'Invalid Sweep Target', 'The target obtainability must be between 1% and 100%.');
+            hasError = true;
+        } else if (strategy === 'linear' && getLinearSweepCounts(state.sweepConfig).length > MAX_SWEEP_CALLS) {
+            errors.sweep = true;
+            addToast('error', 'Sweep Too Large', `A linear sweep is limited to ${MAX_SWEEP_CALLS} calls. Increase the step or switch to binary search.`);
+            hasError = true;
+        }
+    }
+
     // Project ID is now required in ALL modes
     if (!state.project || state.project.trim() === '') {
         errors.project = true;
@@ -390,7 +715,7 @@ export const useCapacityLogic = () => {
         hasError = true;
     }
 
-    if (!state.mockMode) {
+    if (!state.mockMode && !PROXY_MODE) {
         // Strict Token Check for Live Mode
         if (!state.accessToken || state.accessToken.trim() === '') {
              errors.accessToken = true;
@@ -403,20 +728,38 @@ export const useCapacityLogic = () => {
              addToast('error', 'Authentication Missing', 'Please provide a valid Access Token to query live Google Cloud data.');
              updateState({ error: getFriendlyErrorMessage(401, tokenError) });
              hasError = true;
+        } else {
+             // A token that can't possibly work is rejected before any API call
+             const tokenProblem = tokenInfo ? getTokenProblem(tokenInfo) : null;
+             if (tokenProblem) {
+                 errors.accessToken = true;
+                 const tokenError = JSON.stringify({
+                     clientError: true,
+                     title: "Unusable Access Token",
+                     message: tokenProblem,
+                     actionable: state.authSession ? "Sign in again." : "Run 'gcloud auth print-access-token' for a fresh token, or sign in."
+                 });
+                 addToast('error', 'Unusable Access Token', tokenProblem);
+                 updateState({ error: getFriendlyErrorMessage(401, tokenError) });
+                 hasError = true;
+             }
         }
     }
 
     if (hasError) {
         updateState({ validationErrors: errors });
+        if (isWatchRun) watchActions.stop('The current configuration is incomplete. Fix it and start watching again.');
         return;
     }
     
     abortControllerRef.current = new AbortController();
     const startTime = new Date().toISOString();
+    const startedAt = Date.now();
+    beginRun();
     const apiRequest = buildCapacityAdvisorRequest(state);
     
     // Construct URLs and Commands for Debugging
-    const apiUrl = `https://compute.googleapis.com/compute/alpha/projects/${state.project}/regions/${state.region}/advice/capacity`;
+    const apiUrl = `https://compute.googleapis.com/compute/alpha/projects/${state.project}/regions/${isFanOut ? '{region}' : state.region}/advice/capacity`;
     const curlCommand = `curl -X POST "${apiUrl}" \\
   -H "Authorization: Bearer ${state.mockMode ? 'SIMULATED' : '[HIDDEN]'}" \\
   -H "Content-Type: application/json" \\
@@ -451,33 +794,148 @@ export const useCapacityLogic = () => {
         loading: true, 
         error: null, 
         result: null, 
+        regionResults: null,
+        sweepResult: null,
+        quotaCheck: null,
         groundingMetadata: null, 
         debugData: initialDebugData
     });
 
-    addLog('info', `Starting analysis for ${state.size}x ${state.selectedMachineType} in ${state.region}...`);
+    addLog('info', isSweep
+        ? `Starting ${state.sweepConfig.strategy} count sweep (${state.sweepConfig.minCount}-${state.sweepConfig.maxCount}) for ${getRankedMachineTypes(state.selectedMachineType, state.alternativeMachineTypes).join(' > ')} in ${state.region}...`
+        : `Starting ${getProvisioningModelLabel(state.provisioningModel)} analysis for ${state.size}x ${getRankedMachineTypes(state.selectedMachineType, state.alternativeMachineTypes).join(' > ')} in ${isFanOut ? `${state.fanOutRegions.length} regions` : state.region}...`);
     
     // 1. Identify current Machine Details to prevent state mismatch during stream
     const currentMachineDetails = availableMachineTypes.find(m => m.id === state.selectedMachineType) || STATIC_MACHINE_TYPES.find(m => m.id === state.selectedMachineType);
 
-    // 2. Start Streaming AI with aligned data
-    triggerStream(state, currentMachineDetails);
+    // 2. Pre-flight quota check (live single-region runs) so the AI prompt gets real limits
+    let quotaCheck: QuotaCheckResult | null = null;
+    if (!state.mockMode && !isFanOut && !isSweep) {
+        try {
+            quotaCheck = await checkRegionQuota(state, currentMachineDetails, abortControllerRef.current.signal, addNetworkLog);
+            const checked = quotaCheck;
+            setState(prev => ({ ...prev, quotaCheck: checked }));
+            const shortfalls = quotaCheck.checks.filter(c => !c.sufficient);
+            if (shortfalls.length > 0) {
+                addLog('warn', `Quota shortfall: ${shortfalls.map(c => `${c.metric} needs ${c.required}, ${c.available} available`).join('; ')}.`);
+                addToast('warning', 'Insufficient Quota', `${shortfalls.map(c => c.metric).join(', ')} in ${state.region} cannot cover this request, even if capacity is available.`);
+            } else {
+                addLog('info', `Quota pre-check passed (${quotaCheck.checks.length} metrics).`);
+            }
+        } catch (error: any) {
+            if (isAbortError(error)) return;
+            addLog('warn', 'Quota pre-check failed. Continuing without quota data.');
+        }
+    }
+    // Cancelled while the quota check was in flight
+    if (!abortControllerRef.current) return;
+
+    const recordCompletedRun = (results: Pick<CompletedRun, 'response' | 'regionResults' | 'sweepResult'>) => {
+        recordRun({
+            startedAt,
+            completedAt: Date.now(),
+            latencyMs: Date.now() - startedAt,
+            source: state.mockMode ? 'mock' : 'live',
+            trigger,
+            analysisMode: state.analysisMode,
+            config: pickScenarioConfig(state),
+            quotaCheck,
+            ...results
+        });
+        if (results.response) observeWatchRun(getWatchKey(state), results.response);
+    };
+
+    // 3. Start Streaming AI with aligned data (the prompt is scoped to a single region)
+    if (isFanOut || isSweep || isWatchRun) {
+        addLog('info', `AI insights are skipped for ${isSweep ? 'count sweeps' : isFanOut ? 'multi-region comparisons' : 'watch mode runs'}.`);
+    } else {
+        triggerStream({ ...state, quotaCheck }, currentMachineDetails);
+    }
 
     try {
+      if (isSweep) {
+        // --- Instance-count Sweep ---
+        const sweepZones = resolveCandidateZones(regionZones, state.includedZones, state.excludedZones);
+        const sweep = await runCountSweep(state, sweepZones, {
+            machineDetails: currentMachineDetails,
+            signal: abortControllerRef.current.signal,
+            onNetworkLog: addNetworkLog,
+            onProbe: (point, callCount) => addLog('debug', `Sweep probe #${callCount}: ${point.count} VMs`)
+        });
+
+        if (sweep.truncated) {
+            addToast('warning', 'Sweep Truncated', `The sweep stopped after ${MAX_SWEEP_CALLS} calls. Narrow the range for a more precise cliff.`);
+        }
+        addLog('info', `Sweep completed with ${sweep.callCount} calls.`);
+        lastFetchTimeRef.current = Date.now();
+
+        setState(prev => ({
+            ...prev,
+            loading: false,
+            sweepResult: sweep,
+            debugData: { ...prev.debugData, endTime: new Date().toISOString(), status: 'completed' }
+        }));
+        recordCompletedRun({ response: null, regionResults: null, sweepResult: sweep });
+
+        const viable = sweep.cliffs.filter(c => c.maxViableCount !== null);
+        const best = Math.max(0, ...viable.map(c => c.maxViableCount || 0));
+        addToast('success', 'Sweep Complete', viable.length > 0
+            ? `Up to ${best} VMs stay above ${(state.sweepConfig.targetObtainability * 100).toFixed(0)}% obtainability.`
+            : `No zone reaches the target obtainability, even at ${state.sweepConfig.minCount} VMs.`);
+        return;
+      }
+
       let response: CapacityAdvisorResponse;
+      let regionResults: RegionRunResult[] | null = null;
       
-      if (state.mockMode) {
+      if (isFanOut) {
+        // --- Multi-Region Fan-out ---
+        const fanOut = await runMultiRegionAnalysis(state.fanOutRegions, state, {
+            machineDetails: currentMachineDetails,
+            signal: abortControllerRef.current.signal,
+            onNetworkLog: addNetworkLog,
+            onRegionComplete: (regionResult: RegionRunResult) => {
+                if (regionResult.status === 'success') {
+                    addLog('info', `${regionResult.region}: ${regionResult.recommendationCount} recommendations (${regionResult.latencyMs}ms).`);
+                } else {
+                    addLog('warn', `${regionResult.region}: ${regionResult.error}`);
+                }
+                setState(prev => ({ ...prev, regionResults: [...(prev.regionResults || []), regionResult] }));
+            }
+        });
+
+        const failed = fanOut.regions.filter(r => r.status === 'error');
+        setState(prev => ({ ...prev, regionResults: fanOut.regions }));
+
+        if (failed.length === fanOut.regions.length) {
+            throw new Error(JSON.stringify({
+                clientError: true,
+                title: 'All Regions Failed',
+                message: `None of the ${fanOut.regions.length} regions returned capacity advice.`,
+                actionable: 'Review the per-region errors below.'
+            }));
+        }
+
+        response = fanOut.response;
+        regionResults = fanOut.regions;
+        addLog('info', `Fan-out completed: ${fanOut.regions.length - failed.length}/${fanOut.regions.length} regions succeeded.`);
+        if (failed.length > 0) {
+            addToast('warning', 'Partial Results', `${failed.length} of ${fanOut.regions.length} regions could not be analyzed. See the region summary for details.`);
+        }
+
+      } else if (state.mockMode) {
         // --- Mock Mode Execution ---
         await new Promise(r => setTimeout(r, 600)); // Simulate network latency
         
-        // Handle Abort cleanly without depending on global DOMException
-        if (abortControllerRef.current?.signal.aborted) {
-            const abortError = new Error('Aborted');
-            abortError.name = 'AbortError';
-            throw abortError;
-        }
+        if (abortControllerRef.current?.signal.aborted) throw createAbortError();
         
-        response = generateMockRecommendationsWithShape(state.region, state.selectedMachineType, currentMachineDetails, state.size, state.targetShape);
+        response = generateMockRecommendationsWithShape(state.region, state.selectedMachineType, currentMachineDetails, state.size, state.targetShape, {
+            alternativeMachineTypes: state.alternativeMachineTypes,
+            provisioningModel: state.provisioningModel,
+            includedZones: state.includedZones,
+            excludedZones: state.excludedZones,
+            guestAccelerators: getGuestAccelerators(state.acceleratorType, state.acceleratorCount)
+        });
         
         // Add Simulated Network Log for Debug Console
         addNetworkLog({
@@ -496,8 +954,21 @@ export const useCapacityLogic = () => {
 
       } else {
         // --- Live API Execution ---
-        response = await fetchAllZonesCapacity(state.accessToken, state.project, state.region, state, abortControllerRef.current.signal, addNetworkLog);
-        addLog('info', 'Live API response received.');
+        const signal = abortControllerRef.current.signal;
+        const fetchLive = () => fetchAllZonesCapacity(state.accessToken, state.project, state.region, state, signal, addNetworkLog);
+        // Watch runs pass a stockout on as an empty result so it raises alerts, not an error toast
+        response = isWatchRun ? await fetchWatchResponse(fetchLive) : await fetchLive();
+        if (response.recommendations.length === 0) addLog('warn', 'Capacity stockout: no obtainable placement right now.');
+        else addLog('info', 'Live API response received.');
+
+        if (zoneMachineTypes) {
+            const filtered = filterRecommendationsByAvailability(response, zoneMachineTypes);
+            const dropped = response.recommendations.length - filtered.recommendations.length;
+            if (dropped > 0) {
+                addLog('warn', `Dropped ${dropped} recommendation(s) placed in zones that don't offer the machine type.`);
+                response = filtered;
+            }
+        }
       }
 
       lastFetchTimeRef.current = Date.now();
@@ -508,18 +979,25 @@ export const useCapacityLogic = () => {
         result: response,
         debugData: { ...prev.debugData, response, endTime: new Date().toISOString(), status: 'completed' }
       }));
+      recordCompletedRun({ response, regionResults, sweepResult: null });
       
-      addToast('success', 'Analysis Successful', `Capacity assessment complete. Identified ${response.recommendations.length} viable placement options.`);
+      if (!isWatchRun) addToast('success', 'Analysis Successful', `Capacity assessment complete. Identified ${response.recommendations.length} viable placement options.`);
 
     } catch (error: any) {
-      if (error.name === 'AbortError') return;
+      if (isAbortError(error)) return;
+
+      // A stockout still goes into the history as a 0% run, so trends show capacity dropping to zero
+      if (!isFanOut && !isSweep && isStockoutError(error)) {
+          recordCompletedRun({ response: { recommendations: [] }, regionResults: null, sweepResult: null });
+      }
       
-      const friendlyMsg = getFriendlyErrorMessage(error.status || 500, error.message);
+      const friendlyMsg = getFriendlyErrorMessage(getErrorStatus(error), error.message);
       
       addLog('error', friendlyMsg);
       const isAuth = friendlyMsg.includes('Auth') || friendlyMsg.includes('Access');
       const isQuota = friendlyMsg.includes('Quota');
-      const toastTitle = isAuth ? 'Authentication Failed' : isQuota ? 'Quota Limit Reached' : 'Analysis Failed';
+      const isOffline = getErrorStatus(error) === NETWORK_ERROR_STATUS;
+      const toastTitle = isOffline ? 'Network Unavailable' : isAuth ? 'Authentication Failed' : isQuota ? 'Quota Limit Reached' : 'Analysis Failed';
 
       addToast('error', toastTitle, friendlyMsg);
 
@@ -532,6 +1010,9 @@ export const useCapacityLogic = () => {
     }
   };
 
+  const handleSearch = () => runAnalysis('manual');
+  watchRunRef.current = () => runAnalysis('watch');
+
   const toggleFamily = useCallback((family: string) => {
     if (state.result) {
         resetStream();
@@ -597,10 +1078,22 @@ export const useCapacityLogic = () => {
           darkMode: prev.darkMode,
           region: INITIAL_STATE.region,
           selectedMachineType: INITIAL_STATE.selectedMachineType,
+          alternativeMachineTypes: INITIAL_STATE.alternativeMachineTypes,
           selectedFamilies: INITIAL_STATE.selectedFamilies,
           size: INITIAL_STATE.size,
           targetShape: INITIAL_STATE.targetShape,
+          provisioningModel: INITIAL_STATE.provisioningModel,
+          acceleratorType: INITIAL_STATE.acceleratorType,
+          acceleratorCount: INITIAL_STATE.acceleratorCount,
+          includedZones: INITIAL_STATE.includedZones,
+          excludedZones: INITIAL_STATE.excludedZones,
+          analysisMode: INITIAL_STATE.analysisMode,
+          fanOutRegions: INITIAL_STATE.fanOutRegions,
+          sweepConfig: prev.sweepConfig,
           result: null,
+          regionResults: null,
+          sweepResult: null,
+          quotaCheck: null,
           error: null,
           groundingMetadata: null,
           loading: false,
@@ -609,6 +1102,42 @@ export const useCapacityLogic = () => {
       addToast('info', 'Workspace Reset', 'All data has been cleared. You are ready to configure a new analysis.');
   }, [resetStream, addToast]);
 
+  // Restores a past run's configuration and results (the stale-data alert dates from the original run)
+  const openRun = useCallback((run: RunRecord) => {
+      resetStream();
+      if (abortControllerRef.current) {
+          abortControllerRef.current.abort();
+          abortControllerRef.current = null;
+      }
+      lastFetchTimeRef.current = run.completedAt;
+      staleToastShownRef.current = false;
+      setState(prev => ({
+          ...prev,
+          ...structuredClone(run.config),
+          result: run.response,
+          regionResults: run.regionResults,
+          sweepResult: run.sweepResult,
+          quotaCheck: run.quotaCheck,
+          groundingMetadata: run.groundingMetadata,
+          error: null,
+          loading: false,
+          groundingLoading: false,
+          validationErrors: {},
+          debugData: {
+              ...INITIAL_DEBUG,
+              status: 'completed',
+              mode: run.source === 'mock' ? 'mock' : 'real',
+              response: run.response,
+              startTime: new Date(run.startedAt).toISOString(),
+              endTime: new Date(run.completedAt).toISOString(),
+              logs: [{ timestamp: new Date().toISOString(), level: 'info', message: `Re-opened run from ${new Date(run.completedAt).toLocaleString()}.` }]
+          }
+      }));
+      addToast('info', 'Run Re-opened', `Showing ${run.source === 'mock' ? 'simulated' : 'live'} results from ${new Date(run.completedAt).toLocaleString()}.`);
+  }, [resetStream, addToast]);
+
+  const runActions = useMemo<RunActions>(() => ({ open: openRun, remove: removeRun, clearAll: clearRunHistory }), [openRun, removeRun, clearRunHistory]);
+
   const filteredMachineTypes = useMemo(() => {
      if (state.selectedFamilies.includes('All')) return availableMachineTypes;
      return availableMachineTypes.filter(type => state.selectedFamilies.includes(type.family));
@@ -640,6 +1169,25 @@ export const useCapacityLogic = () => {
     regionOptions,
     machineDetails: availableMachineTypes.find(m => m.id === state.selectedMachineType) || STATIC_MACHINE_TYPES.find(m => m.id === state.selectedMachineType),
     removeToast,
-    regionConfig
+    regionConfig,
+    regionAccelerators,
+    zonesMissingAccelerator,
+    zonesMissingMachineType,
+    signIn,
+    signOut,
+    copyShareLink,
+    scenarios,
+    scenarioActions,
+    runs,
+    runActions,
+    watchStatus,
+    watchActions,
+    batch,
+    batchActions,
+    isSigningIn,
+    isSignInConfigured: !!getOAuthConfig().clientId && !PROXY_MODE,
+    tokenInfo,
+    isCheckingToken,
+    proxyMode: PROXY_MODE
   };
 };
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { rateLimiters, RateLimitBucket, RateLimiterStatus } from '../services/rateLimiter';
+
+const BUCKETS = Object.keys(rateLimiters) as RateLimitBucket[];
+
+const readStatuses = (): Record<RateLimitBucket, RateLimiterStatus> =>
+  Object.fromEntries(BUCKETS.map(bucket => [bucket, rateLimiters[bucket].getStatus()])) as Record<RateLimitBucket, RateLimiterStatus>;
+
+/**
+ * Live status of every rate limit bucket: updates on consumption, queue and cross-tab changes,
+ * and ticks every second while requests wait (or every `pollMs` to follow refills).
+ */
+export const useRateLimitStatus = (pollMs?: number): Record<RateLimitBucket, RateLimiterStatus> => {
+  const [statuses, setStatuses] = useState(readStatuses);
+
+  useEffect(() => {
+    const unsubscribers = BUCKETS.map(bucket => rateLimiters[bucket].subscribe(() => setStatuses(readStatuses())));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  // Keep the refill countdown moving while anything is queued
+  const queued = BUCKETS.reduce((sum, bucket) => sum + statuses[bucket].queued, 0);
+  useEffect(() => {
+    if (queued === 0 && !pollMs) return;
+    const timer = setInterval(() => setStatuses(readStatuses()), queued > 0 ? 1000 : pollMs);
+    return () => clearInterval(timer);
+  }, [queued, pollMs]);
+
+  return statuses;
+};
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GroundingMetadata, Toast } from '../types';
+import { RunRecord, listRuns, saveRun, deleteRun, clearRuns, measureRun } from '../services/runHistoryStore';
+
+export type CompletedRun = Omit<RunRecord, 'id' | 'sizeBytes' | 'groundingMetadata'>;
+
+export interface RunActions {
+  /** Restores the run's configuration and results. */
+  open: (run: RunRecord) => void;
+  remove: (id: string) => void;
+  clearAll: () => void;
+}
+
+/**
+ * Persistent run history. A search calls `beginRun`, then `recordRun` when results arrive;
+ * the Gemini insight is attached whenever its stream finishes, before or after the results.
+ */
+export const useRunHistory = (
+  addToast: (type: Toast['type'], title: string, message: string, duration?: number) => void
+) => {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  // The search in progress: its stored record once results arrive, or insights that finished first
+  const activeRunRef = useRef<{ record: RunRecord | null; insights: GroundingMetadata | null } | null>(null);
+
+  const refresh = useCallback(async () => {
+    setRuns(await listRuns());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(() => {
+      // IndexedDB unavailable; history simply stays empty
+    });
+  }, [refresh]);
+
+  const store = useCallback(async (run: RunRecord) => {
+    try {
+      const evicted = await saveRun(run);
+      await refresh();
+      if (evicted > 0) {
+        addToast('info', 'Run History Trimmed', `Removed ${evicted} older run${evicted === 1 ? '' : 's'} to stay within the history storage limit.`);
+      }
+    } catch (error: any) {
+      addToast('warning', 'Run Not Saved', error.message || 'This run could not be added to the history.');
+    }
+  }, [refresh, addToast]);
+
+  const beginRun = useCallback(() => {
+    activeRunRef.current = { record: null, insights: null };
+  }, []);
+
+  const recordRun = useCallback((run: CompletedRun) => {
+    const active = activeRunRef.current;
+    if (!active) return;
+    const record = { ...run, id: crypto.randomUUID(), groundingMetadata: active.insights };
+    active.record = { ...record, sizeBytes: measureRun(record) };
+    store(active.record);
+  }, [store]);
+
+  const attachInsights = useCallback((metadata: GroundingMetadata) => {
+    const active = activeRunRef.current;
+    if (!active) return;
+    if (!active.record) {
+      active.insights = metadata;
+      return;
+    }
+    const record = { ...active.record, groundingMetadata: metadata };
+    active.record = { ...record, sizeBytes: measureRun(record) };
+    store(active.record);
+  }, [store]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteRun(id);
+      await refresh();
+    } catch (error: any) {
+      addToast('error', 'Delete Failed', error.message || 'The run could not be deleted.');
+    }
+  }, [refresh, addToast]);
+
+  const clearAll = useCallback(async () => {
+    try {
+      await clearRuns();
+      await refresh();
+      addToast('info', 'History Cleared', 'All saved runs were removed.');
+    } catch (error: any) {
+      addToast('error', 'Clear Failed', error.message || 'The run history could not be cleared.');
+    }
+  }, [refresh, addToast]);
+
+  return { runs, beginRun, recordRun, attachInsights, remove, clearAll };
+};
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AppState, Toast } from '../types';
+import {
+  Scenario,
+  ScenarioConfig,
+  listScenarios,
+  putScenarios,
+  deleteScenario as removeScenario,
+  createScenario,
+  pickScenarioConfig,
+  normalizeTags,
+  serializeScenarios,
+  parseScenarioFile
+} from '../services/scenarioStore';
+import { downloadFile } from '../export';
+
+export interface ScenarioActions {
+  /** Saves the current configuration; an existing scenario with the same name is overwritten. */
+  save: (name: string, tags: string[]) => void;
+  load: (id: string) => void;
+  /** Renames and/or retags a scenario. */
+  update: (id: string, changes: { name?: string; tags?: string[] }) => void;
+  duplicate: (id: string) => void;
+  remove: (id: string) => void;
+  exportAll: () => void;
+  importFile: (file: File) => void;
+}
+
+/**
+ * Scenario library backed by IndexedDB. `applyConfig` receives a scenario's fields when it is loaded.
+ */
+export const useScenarios = (
+  state: AppState,
+  applyConfig: (config: ScenarioConfig) => void,
+  addToast: (type: Toast['type'], title: string, message: string, duration?: number) => void
+) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  const refresh = useCallback(async () => {
+    setScenarios(await listScenarios());
+  }, []);
+
+  // Runs a store operation, then reloads the list; failures (quota, private mode) surface as a toast
+  const persist = useCallback(async (work: () => Promise<void>, success?: [string, string]) => {
+    try {
+      await work();
+      await refresh();
+      if (success) addToast('success', success[0], success[1]);
+    } catch (error: any) {
+      addToast('error', 'Scenario Storage Failed', error.message || 'The scenario library could not be updated.');
+    }
+  }, [refresh, addToast]);
+
+  useEffect(() => {
+    refresh().catch(() => {
+      // IndexedDB unavailable; the library simply stays empty
+    });
+  }, [refresh]);
+
+  const find = useCallback((id: string) => scenarios.find(s => s.id === id), [scenarios]);
+
+  const save = useCallback((name: string, tags: string[]) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = scenarios.find(s => s.name.toLowerCase() === trimmed.toLowerCase());
+    const scenario = existing
+      ? { ...existing, tags: normalizeTags(tags), config: pickScenarioConfig(state), updatedAt: Date.now() }
+      : createScenario(trimmed, tags, pickScenarioConfig(state));
+    persist(() => putScenarios([scenario]), [existing ? 'Scenario Updated' : 'Scenario Saved', `"${trimmed}" now holds the current configuration.`]);
+  }, [scenarios, state, persist]);
+
+  const load = useCallback((id: string) => {
+    const scenario = find(id);
+    if (!scenario) return;
+    applyConfig(structuredClone(scenario.config));
+    addToast('info', 'Scenario Loaded', `Applied "${scenario.name}".`);
+  }, [find, applyConfig, addToast]);
+
+  const update = useCallback((id: string, changes: { name?: string; tags?: string[] }) => {
+    const scenario = find(id);
+    if (!scenario) return;
+    const name = changes.name?.trim() || scenario.name;
+    if (scenarios.some(s => s.id !== id && s.name.toLowerCase() === name.toLowerCase())) {
+      addToast('error', 'Name Taken', `A scenario named "${name}" already exists.`);
+      return;
+    }
+    const tags = changes.tags ? normalizeTags(changes.tags) : scenario.tags;
+    persist(() => putScenarios([{ ...scenario, name, tags, updatedAt: Date.now() }]));
+  }, [find, scenarios, persist, addToast]);
+
+  const duplicate = useCallback((id: string) => {
+    const scenario = find(id);
+    if (!scenario) return;
+    const names = new Set(scenarios.map(s => s.name.toLowerCase()));
+    let copyName = `${scenario.name} (copy)`;
+    for (let n = 2; names.has(copyName.toLowerCase()); n++) copyName = `${scenario.name} (copy ${n})`;
+    persist(() => putScenarios([createScenario(copyName, scenario.tags, structuredClone(scenario.config))]));
+  }, [find, scenarios, persist]);
+
+  const remove = useCallback((id: string) => {
+    const scenario = find(id);
+    if (!scenario) return;
+    persist(() => removeScenario(id), ['Scenario Deleted', `Removed "${scenario.name}".`]);
+  }, [find, persist]);
+
+  const exportAll = useCallback(() => {
+    if (scenarios.length === 0) return;
+    downloadFile(serializeScenarios(scenarios), 'capacity-scenarios.json', 'application/json');
+  }, [scenarios]);
+
+  const importFile = useCallback(async (file: File) => {
+    let imported: Scenario[];
+    try {
+      imported = parseScenarioFile(await file.text());
+    } catch (error: any) {
+      addToast('error', 'Import Failed', error.message);
+      return;
+    }
+    // Same id replaces the local copy, so re-importing a team set updates it in place
+    persist(() => putScenarios(imported), ['Scenarios Imported', `Imported ${imported.length} scenario${imported.length === 1 ? '' : 's'} from ${file.name}.`]);
+  }, [persist, addToast]);
+
+  const actions = useMemo<ScenarioActions>(
+    () => ({ save, load, update, duplicate, remove, exportAll, importFile }),
+    [save, load, update, duplicate, remove, exportAll, importFile]
+  );
+  return { scenarios, actions };
+};
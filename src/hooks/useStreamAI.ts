@@ -12,18 +12,24 @@ export const useStreamAI = () => {
   
   // Ref to track if unmounted
   const isMounted = useRef(true);
+  // Cancels the running request, including while it waits for a Gemini rate-limit token
+  const controllerRef = useRef<AbortController | null>(null);
 
   const trigger = useCallback(async (state: AppState, machineDetails: MachineTypeOption | undefined) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setIsStreaming(true);
     setOutput('');
     setMetadata(null);
     setDebug(null);
 
     try {
-      const stream = streamGroundingInsights(state, machineDetails);
+      const stream = streamGroundingInsights(state, machineDetails, controller.signal);
 
       for await (const chunk of stream) {
-        if (!isMounted.current) break;
+        if (!isMounted.current || controller.signal.aborted) break;
 
         if (chunk.type === 'text') {
           setOutput(prev => prev + chunk.content);
@@ -36,11 +42,16 @@ export const useStreamAI = () => {
     } catch (error) {
       console.error("Stream error:", error);
     } finally {
-      if (isMounted.current) setIsStreaming(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        if (isMounted.current) setIsStreaming(false);
+      }
     }
   }, []);
 
   const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     setOutput('');
     setMetadata(null);
     setDebug(null);
@@ -48,14 +59,18 @@ export const useStreamAI = () => {
   }, []);
 
   const abort = useCallback(() => {
-      // In a real implementation, we would pass an AbortSignal to the service
+      controllerRef.current?.abort();
+      controllerRef.current = null;
       setIsStreaming(false);
   }, []);
 
   // Cleanup
   useEffect(() => {
       isMounted.current = true;
-      return () => { isMounted.current = false; };
+      return () => {
+          isMounted.current = false;
+          controllerRef.current?.abort();
+      };
   }, []);
 
   // Memoize the derived metadata to prevent infinite loops in consumers
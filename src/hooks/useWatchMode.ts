@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useRef, useMemo, MutableRefObject } from 'react';
+import { AppState, CapacityAdvisorResponse, Toast } from '../types';
+import {
+  WatchSettings,
+  WatchAlert,
+  WatchAlertKind,
+  DEFAULT_WATCH_SETTINGS,
+  estimateCallsPerRun,
+  getEffectiveWatchIntervalMs,
+  evaluateWatchAlerts
+} from '../services/watchService';
+
+export interface WatchActions {
+  /** Turns watch mode on and runs the analysis right away to set the baseline. */
+  start: () => void;
+  /** Turns watch mode off; a reason is shown as a toast. */
+  stop: (reason?: string) => void;
+  setIntervalMinutes: (minutes: number) => void;
+  /** Top obtainability threshold, 0-1. */
+  setThreshold: (threshold: number) => void;
+}
+
+export interface WatchStatus {
+  settings: WatchSettings;
+  /** False in sweep mode, which has no placement list to watch. */
+  supported: boolean;
+  intervalMs: number;
+  /** True when the chosen interval was lengthened to stay within the rate limit budget. */
+  clamped: boolean;
+  nextRunAt: number | null;
+  lastCheckedAt: number | null;
+}
+
+const ALERT_TOAST_TYPES: Record<WatchAlertKind, Toast['type']> = {
+  crossedAbove: 'success',
+  crossedBelow: 'warning',
+  zoneAppeared: 'info',
+  zoneDisappeared: 'warning'
+};
+
+/**
+ * Watch mode: re-runs the analysis on an interval and alerts (toast + browser notification)
+ * when a result differs from the previous one of the same configuration.
+ * @param runRef Starts a watch run; assigned by the caller once its search handler exists.
+ */
+export const useWatchMode = (
+  state: AppState,
+  runRef: MutableRefObject<() => void>,
+  addToast: (type: Toast['type'], title: string, message: string, duration?: number) => void
+) => {
+  const [settings, setSettings] = useState<WatchSettings>(DEFAULT_WATCH_SETTINGS);
+  const [nextRunAt, setNextRunAt] = useState<number | null>(null);
+  const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+
+  // Read by the timer and by runs that finish after a re-render
+  const loadingRef = useRef(state.loading);
+  loadingRef.current = state.loading;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Latest result per configuration key, from watch and manual runs alike
+  const baselineRef = useRef<{ key: string; response: CapacityAdvisorResponse } | null>(null);
+
+  const supported = state.analysisMode !== 'sweep';
+  const intervalMs = getEffectiveWatchIntervalMs(settings, estimateCallsPerRun(state));
+  const active = settings.enabled && supported;
+
+  useEffect(() => {
+    if (!active) {
+      setNextRunAt(null);
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      setNextRunAt(Date.now() + intervalMs);
+      timer = setTimeout(() => {
+        // Starting a search while one is loading would cancel it; wait for the next tick instead
+        if (!loadingRef.current) runRef.current();
+        schedule();
+      }, intervalMs);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [active, intervalMs, runRef]);
+
+  const notify = useCallback((alert: WatchAlert) => {
+    addToast(ALERT_TOAST_TYPES[alert.kind], alert.title, alert.message, 10000);
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      new Notification(alert.title, { body: alert.message, tag: `capacity-watch-${alert.kind}` });
+    }
+  }, [addToast]);
+
+  /** Called with every completed placement result; `key` comes from getWatchKey. */
+  const observe = useCallback((key: string, response: CapacityAdvisorResponse) => {
+    const baseline = baselineRef.current;
+    baselineRef.current = { key, response };
+    if (!settingsRef.current.enabled) return;
+    setLastCheckedAt(Date.now());
+    if (!baseline || baseline.key !== key) return;
+    evaluateWatchAlerts(baseline.response, response, settingsRef.current.threshold).forEach(notify);
+  }, [notify]);
+
+  const start = useCallback(() => {
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {
+        // Alerts still show as toasts
+      });
+    }
+    settingsRef.current = { ...settingsRef.current, enabled: true };
+    setSettings(prev => ({ ...prev, enabled: true }));
+    if (!loadingRef.current) runRef.current();
+  }, [runRef]);
+
+  const stop = useCallback((reason?: string) => {
+    settingsRef.current = { ...settingsRef.current, enabled: false };
+    setSettings(prev => ({ ...prev, enabled: false }));
+    if (reason) addToast('info', 'Watch Mode Stopped', reason);
+  }, [addToast]);
+
+  const setIntervalMinutes = useCallback((minutes: number) => {
+    setSettings(prev => ({ ...prev, intervalMinutes: minutes }));
+  }, []);
+
+  const setThreshold = useCallback((threshold: number) => {
+    setSettings(prev => ({ ...prev, threshold: Math.min(1, Math.max(0, threshold)) }));
+  }, []);
+
+  const status: WatchStatus = {
+    settings,
+    supported,
+    intervalMs,
+    clamped: intervalMs > settings.intervalMinutes * 60 * 1000,
+    nextRunAt,
+    lastCheckedAt
+  };
+  const actions = useMemo<WatchActions>(
+    () => ({ start, stop, setIntervalMinutes, setThreshold }),
+    [start, stop, setIntervalMinutes, setThreshold]
+  );
+  return { status, actions, observe };
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { RiskTier } from './utils';
+
+/**
+ * Presentation of the obtainability tiers (see getRiskTier), shared by the placement table,
+ * the run comparison view and the batch results.
+ */
+
+/** Badge, bar and icon per obtainability tier. */
+export const RISK_STYLES: Record<RiskTier, { label: string; badgeClass: string; barClass: string; icon: React.ReactNode }> = {
+  optimal: {
+    label: 'Optimal',
+    badgeClass: 'text-emerald-700 bg-emerald-50 dark:bg-emerald-900/40 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-800',
+    barClass: 'bg-emerald-500 dark:bg-emerald-400',
+    icon: <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+  },
+  good: {
+    label: 'Good',
+    badgeClass: 'text-blue-700 bg-blue-50 dark:bg-blue-900/40 dark:text-blue-300 border border-blue-200 dark:border-blue-800',
+    barClass: 'bg-blue-500 dark:bg-blue-400',
+    icon: <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+  },
+  constrained: {
+    label: 'Constrained',
+    badgeClass: 'text-amber-700 bg-amber-50 dark:bg-amber-900/40 dark:text-amber-300 border border-amber-200 dark:border-amber-800',
+    barClass: 'bg-amber-500 dark:bg-amber-400',
+    icon: <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+  },
+  critical: {
+    label: 'Critical',
+    badgeClass: 'text-red-700 bg-red-50 dark:bg-red-900/40 dark:text-red-300 border border-red-200 dark:border-red-800',
+    barClass: 'bg-red-500 dark:bg-red-400',
+    icon: <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+  }
+};
+
+/** Row layout of the placement table and the run comparison view. */
+export const ZONE_ROW_CLASS = 'group border-b border-slate-100 dark:border-slate-800 last:border-0 hover:bg-slate-50 dark:hover:bg-slate-800/40 transition-all duration-200';
+export const ZONE_ROW_GRID_CLASS = 'flex flex-col md:grid md:grid-cols-12 gap-4 items-start md:items-center py-4 px-4 md:px-6';
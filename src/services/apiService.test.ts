@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getZonesMissingMachineTypes, NETWORK_ERROR_STATUS } from '../utils';
+import { mockState, mockFetchResponse, mockSingleResponse } from '../testFixtures';
+import { apiRequestCache } from './requestCache';
+import { NO_RETRY_POLICY } from './retryPolicy';
+import { fetchAllZonesCapacity, fetchAcceleratorTypes, fetchMachineTypeMatrix, fetchAvailableRegions } from './apiService';
+
+describe('Production API Service', () => {
+  // Each test mocks its own responses; don't let cached ones leak between tests
+  beforeEach(() => apiRequestCache.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('fetchAllZonesCapacity handles successful response', async () => {
+     const mockData = { recommendations: [{ scores: [{ name: 'obtainability', value: 0.9 }], shards: [] }] };
+     mockSingleResponse(true, 200, mockData);
+
+     const res = await fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState);
+     expect(res).toEqual(mockData);
+  });
+
+  it('fetchAllZonesCapacity throws error on API failure', async () => {
+      mockSingleResponse(false, 503, { error: { message: "Service Unavailable" } });
+
+      await expect(
+          fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, undefined, NO_RETRY_POLICY)
+      ).rejects.toThrow();
+  });
+
+  it('fetchAllZonesCapacity marks a request that never got a response with the network status', async () => {
+     vi.stubGlobal('fetch', () => Promise.reject(new TypeError('fetch failed')));
+
+     await expect(fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, undefined, NO_RETRY_POLICY))
+       .rejects.toMatchObject({ status: NETWORK_ERROR_STATUS });
+  });
+
+  it('fetchAllZonesCapacity throws error on Auth Failure (401)', async () => {
+     mockSingleResponse(false, 401, { error: { message: "Invalid Token" } });
+     
+     await expect(
+       fetchAllZonesCapacity('bad-token', 'proj', 'us-central1', mockState)
+     ).rejects.toThrow(); 
+  });
+
+  it('fetchAcceleratorTypes maps zones to attachable accelerators only', async () => {
+     mockSingleResponse(true, 200, { items: {
+       'zones/us-central1-a': { acceleratorTypes: [{ name: 'nvidia-tesla-t4' }, { name: 'nvidia-l4' }, { name: 'nvidia-tesla-v100' }] },
+       'zones/us-central1-f': { acceleratorTypes: [{ name: 'nvidia-l4' }] },
+       'zones/us-east1-b': { warning: { code: 'NO_RESULTS_ON_PAGE' } }
+     } });
+
+     const zonal = await fetchAcceleratorTypes('token', 'proj');
+     expect(zonal).toEqual({ 'us-central1-a': ['nvidia-tesla-t4', 'nvidia-tesla-v100'] });
+  });
+
+  it('fetchMachineTypeMatrix builds a zone x machine type matrix from one aggregated call', async () => {
+     mockSingleResponse(true, 200, { items: {
+       'zones/us-central1-a': { machineTypes: [{ name: 'n2-standard-8', guestCpus: 8, memoryMb: 32768 }, { name: 'c4-standard-8', guestCpus: 8, memoryMb: 30720 }] },
+       'zones/us-central1-f': { machineTypes: [{ name: 'n2-standard-8', guestCpus: 8, memoryMb: 32768 }] },
+       'zones/us-central1-c': { warning: { code: 'NO_RESULTS_ON_PAGE' } }
+     } });
+
+     const { machineTypes, zoneMachineTypes } = await fetchMachineTypeMatrix('token', 'proj', 'us-central1');
+     expect(machineTypes.map(m => m.id).sort()).toEqual(['c4-standard-8', 'n2-standard-8']);
+     expect(zoneMachineTypes).toEqual({ 'us-central1-a': ['c4-standard-8', 'n2-standard-8'], 'us-central1-f': ['n2-standard-8'] });
+     expect(getZonesMissingMachineTypes(['us-central1-a', 'us-central1-f'], ['c4-standard-8'], zoneMachineTypes)).toEqual(['us-central1-f']);
+  });
+
+  it('list fetchers follow nextPageToken and merge scopes split across pages', async () => {
+     const urls: string[] = [];
+     const progress: string[] = [];
+     mockFetchResponse((url) => {
+       urls.push(url);
+       if (url.includes('/regions')) {
+         return url.includes('pageToken=')
+           ? { ok: true, status: 200, data: { items: [{ name: 'europe-west4', zones: ['zones/europe-west4-a'] }] } }
+           : { ok: true, status: 200, data: { items: [{ name: 'us-central1', zones: ['zones/us-central1-a'] }], nextPageToken: 'page 2' } };
+       }
+       return url.includes('pageToken=')
+         ? { ok: true, status: 200, data: { items: { 'zones/us-central1-a': { machineTypes: [{ name: 'n2-standard-8', guestCpus: 8, memoryMb: 32768 }] } } } }
+         : { ok: true, status: 200, data: { items: { 'zones/us-central1-a': { machineTypes: [{ name: 'c4-standard-8', guestCpus: 8, memoryMb: 30720 }] } }, nextPageToken: 'next' } };
+     });
+
+     const regionConfig = await fetchAvailableRegions('token', 'proj', undefined, undefined, message => progress.push(message));
+     expect(regionConfig).toEqual({ 'us-central1': ['us-central1-a'], 'europe-west4': ['europe-west4-a'] });
+     expect(urls[1]).toContain('pageToken=page%202');
+     expect(progress).toHaveLength(1);
+
+     const { zoneMachineTypes } = await fetchMachineTypeMatrix('token', 'proj', 'us-central1');
+     expect(zoneMachineTypes).toEqual({ 'us-central1-a': ['c4-standard-8', 'n2-standard-8'] });
+  });
+
+  it('fetchAllZonesCapacity retries a 503 honoring Retry-After and logs every attempt', async () => {
+     let calls = 0;
+     vi.stubGlobal('fetch', () => {
+       calls++;
+       const ok = calls > 1;
+       const data = ok ? { recommendations: [{ scores: [{ name: 'obtainability', value: 0.9 }], shards: [] }] } : { error: { message: 'Service Unavailable' } };
+       return Promise.resolve({
+         ok,
+         status: ok ? 200 : 503,
+         headers: { get: (name: string) => name === 'Retry-After' ? '0' : null },
+         text: () => Promise.resolve(JSON.stringify(data)),
+         json: () => Promise.resolve(data)
+       });
+     });
+
+     const attempts: (number | undefined)[] = [];
+     const res = await fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, entry => attempts.push(entry.attempt));
+     expect(res.recommendations).toHaveLength(1);
+     expect(attempts).toEqual([1, 2]);
+  });
+
+  it('fetchAllZonesCapacity coalesces duplicate submits and serves repeats from the cache', async () => {
+     let calls = 0;
+     mockFetchResponse(() => {
+       calls++;
+       return { ok: true, status: 200, data: { recommendations: [{ scores: [{ name: 'obtainability', value: 0.9 }], shards: [] }] } };
+     });
+
+     const outcomes: (string | undefined)[] = [];
+     const log = (entry: any) => outcomes.push(entry.cache);
+     await Promise.all([
+       fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, log),
+       fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, log)
+     ]);
+     await fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, log);
+     expect(calls).toBe(1);
+     expect(outcomes).toEqual(['miss', 'shared', 'hit']);
+
+     apiRequestCache.clear();
+     await fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, log);
+     expect(calls).toBe(2);
+  });
+
+  it('fetchAllZonesCapacity does not retry non-transient errors or a single-attempt policy', async () => {
+     let calls = 0;
+     vi.stubGlobal('fetch', () => {
+       calls++;
+       return Promise.resolve({ ok: false, status: calls === 1 ? 403 : 503, text: () => Promise.resolve('{}'), json: () => Promise.resolve({}) });
+     });
+
+     await expect(fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState)).rejects.toThrow();
+     await expect(fetchAllZonesCapacity('token', 'proj', 'us-central1', mockState, undefined, undefined, NO_RETRY_POLICY)).rejects.toThrow();
+     expect(calls).toBe(2);
+  });
+});
@@ -1,10 +1,20 @@
 
-import { CapacityAdvisorRequest, CapacityAdvisorResponse, NetworkLogEntry } from '../types';
-import { buildCapacityAdvisorRequest, getMachineTypeFamily, getMachineTypeArch, getMachineTypeSeries } from '../utils';
-import { MachineTypeOption } from '../config';
-import { apiRateLimiter } from './rateLimiter';
+import { CapacityAdvisorRequest, CapacityAdvisorResponse, NetworkLogEntry, RegionQuota } from '../types';
+import { buildCapacityAdvisorRequest, getMachineTypeFamily, getMachineTypeArch, getMachineTypeSeries, getProvisioningModelLabel, isAbortError, NETWORK_ERROR_STATUS } from '../utils';
+import { MachineTypeOption, ACCELERATOR_TYPES } from '../config';
+import { rateLimiters, RequestPriority } from './rateLimiter';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, QUICK_RETRY_POLICY, parseRetryAfter, getBackoffDelay, sleep } from './retryPolicy';
+import { PROXY_ROUTES, CapacityAdviceProxyRequest } from './proxyContract';
+import { isProxyEnabled, proxyUrl } from './proxyClient';
+import { apiRequestCache, getCacheKey, CACHE_TTLS } from './requestCache';
 
 type NetworkLogCallback = (entry: NetworkLogEntry) => void;
+type ProgressCallback = (message: string) => void;
+
+// Largest page Compute Engine list calls return; bounds the number of round trips.
+const LIST_PAGE_SIZE = 500;
+// Guards against a misbehaving API that keeps handing out page tokens.
+const MAX_LIST_PAGES = 50;
 
 const API_VERSIONS = {
   V1: 'https://compute.googleapis.com/compute/v1',
@@ -12,35 +22,29 @@ const API_VERSIONS = {
 };
 
 /**
- * Generic GCP API Client Wrapper
- * Handles Rate Limiting, Authorization, Logging, and Error Parsing.
+ * Single HTTP attempt: Rate Limiting, Authorization, Logging, and Error Parsing.
+ * Failed responses throw with `status` (0 for network errors) and the parsed `retryAfterMs`.
+ * An empty access token sends no Authorization header (the backend proxy authenticates itself).
  */
-async function gcpRequest<T>(
+async function sendRequest<T>(
   url: string,
   method: string,
   accessToken: string,
   body: any | null,
+  attempt: number,
   onNetworkLog?: NetworkLogCallback,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  priority: RequestPriority = 'interactive'
 ): Promise<T> {
-  // 1. Client-Side Rate Limiting
-  if (!apiRateLimiter.tryRequest()) {
-    const status = apiRateLimiter.getStatus();
-    const rateLimitError = {
-       error: {
-           code: 429,
-           message: `Rate limit exceeded. Please wait ${status.resetInSeconds} seconds.`,
-           errors: [{ reason: "rateLimitExceeded", message: "Client-side rate limiter active." }]
-       }
-    };
-    throw new Error(JSON.stringify(rateLimitError));
-  }
+  // 1. Client-Side Rate Limiting: wait for a token (latency below excludes the queue time).
+  // Capacity advice is the only POST; every GET is a list or metadata read.
+  await rateLimiters[method === 'POST' ? 'capacityAdvice' : 'list'].acquire(signal, priority);
 
   const startTime = Date.now();
   
   // Construct a usable cURL command for debugging (with redacted token)
-  const curl = `curl -X ${method} "${url}" \\
-  -H "Authorization: Bearer $(gcloud auth print-access-token)" \\
+  const curl = `curl -X ${method} "${url}" \\${accessToken ? `
+  -H "Authorization: Bearer $(gcloud auth print-access-token)" \\` : ''}
   -H "Content-Type: application/json" \\
   ${body ? `-d '${JSON.stringify(body, null, 2)}'` : ''}`;
 
@@ -49,9 +53,10 @@ async function gcpRequest<T>(
   let errorToThrow: any = null;
 
   try {
-    const headers: HeadersInit = {
-      'Authorization': `Bearer ${accessToken}`
-    };
+    const headers: Record<string, string> = {};
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
     
     if (body) {
       headers['Content-Type'] = 'application/json';
@@ -75,48 +80,195 @@ async function gcpRequest<T>(
       } catch (e) {
         errorToThrow = new Error(responseText || `HTTP ${response.status} Error`);
       }
+      errorToThrow.status = response.status;
+      errorToThrow.retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
       throw errorToThrow;
     }
 
     return JSON.parse(responseText) as T;
 
   } catch (error: any) {
+    if (error.status === undefined && !isAbortError(error)) error.status = NETWORK_ERROR_STATUS;
     errorToThrow = error;
     throw error;
   } finally {
     // ALWAYS Log Network Activity, even on error
-    if (onNetworkLog && errorToThrow?.name !== 'AbortError') {
+    if (onNetworkLog && !isAbortError(errorToThrow)) {
       onNetworkLog({
         id: crypto.randomUUID(),
         timestamp: new Date().toISOString(),
         method,
         url,
-        headers: { 'Authorization': 'Bearer ...', 'Content-Type': 'application/json' },
+        headers: accessToken ? { 'Authorization': 'Bearer ...', 'Content-Type': 'application/json' } : { 'Content-Type': 'application/json' },
         body,
         latencyMs: Date.now() - startTime,
         status: response ? response.status : 0,
-        curl
+        curl,
+        attempt
       });
     }
   }
 }
 
+/**
+ * Generic GCP API Client Wrapper
+ * Retries transient failures (429 / 5xx / network) per the retry policy; every attempt is logged separately.
+ * With a cache TTL, identical requests are served from (or joined to) the response cache and the
+ * outcome is tagged on the network log.
+ */
+async function gcpRequest<T>(
+  url: string,
+  method: string,
+  accessToken: string,
+  body: any | null,
+  onNetworkLog?: NetworkLogCallback,
+  signal?: AbortSignal,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  cacheTtlMs: number = 0,
+  priority: RequestPriority = 'interactive'
+): Promise<T> {
+  if (cacheTtlMs <= 0) return requestWithRetries<T>(url, method, accessToken, body, onNetworkLog, signal, retryPolicy, priority);
+
+  let outcome: 'hit' | 'shared' | 'miss' = 'miss';
+  const key = getCacheKey(method, url, body, accessToken);
+  const data = await apiRequestCache.get<T>(
+    key,
+    cacheTtlMs,
+    sharedSignal => requestWithRetries<T>(url, method, accessToken, body, onNetworkLog && (entry => onNetworkLog({ ...entry, cache: 'miss' })), sharedSignal, retryPolicy, priority),
+    signal,
+    result => { outcome = result; }
+  );
+
+  if (outcome !== 'miss' && onNetworkLog) {
+    onNetworkLog({
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      method,
+      url,
+      headers: {},
+      body,
+      latencyMs: 0,
+      status: 200,
+      cache: outcome
+    });
+  }
+  // Callers may sort or filter the response; keep the cached copy pristine
+  return structuredClone(data);
+}
+
+async function requestWithRetries<T>(
+  url: string,
+  method: string,
+  accessToken: string,
+  body: any | null,
+  onNetworkLog: NetworkLogCallback | undefined,
+  signal: AbortSignal | undefined,
+  retryPolicy: RetryPolicy,
+  priority: RequestPriority
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRequest<T>(url, method, accessToken, body, attempt, onNetworkLog, signal, priority);
+    } catch (error: any) {
+      const isRetryable = error.status === 0 || retryPolicy.retryableStatuses.includes(error.status);
+      if (isAbortError(error) || !isRetryable || attempt >= retryPolicy.maxAttempts) throw error;
+
+      const retryAfterMs: number | null = error.retryAfterMs ?? null;
+      if (retryAfterMs !== null && retryAfterMs > retryPolicy.maxRetryAfterMs) throw error;
+
+      await sleep(retryAfterMs ?? getBackoffDelay(attempt, retryPolicy), signal);
+    }
+  }
+}
+
+export interface ListPageOptions {
+  /** Names the list in progress messages, e.g. "regions". */
+  label: string;
+  signal?: AbortSignal;
+  onNetworkLog?: NetworkLogCallback;
+  onProgress?: ProgressCallback;
+  /** Caches each page for this long (see CACHE_TTLS). */
+  cacheTtlMs?: number;
+}
+
+/**
+ * Paginated List Helper
+ * Follows `nextPageToken` until the list is exhausted and returns every page in order.
+ * `countItems` feeds the running total reported through `onProgress`.
+ */
+export const fetchAllPages = async <P extends { nextPageToken?: string }>(
+  url: string,
+  accessToken: string,
+  countItems: (page: P) => number,
+  { label, signal, onNetworkLog, onProgress, cacheTtlMs = 0 }: ListPageOptions
+): Promise<P[]> => {
+  const separator = url.includes('?') ? '&' : '?';
+  const pages: P[] = [];
+  let pageToken: string | undefined;
+  let total = 0;
+
+  do {
+    const pageUrl = `${url}${separator}maxResults=${LIST_PAGE_SIZE}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+    // Lists feed the configuration pickers; they queue behind interactive runs
+    const page = await gcpRequest<P>(pageUrl, 'GET', accessToken, null, onNetworkLog, signal, DEFAULT_RETRY_POLICY, cacheTtlMs, 'background');
+    pages.push(page);
+    total += countItems(page);
+    pageToken = page.nextPageToken;
+
+    if (pageToken && pages.length >= MAX_LIST_PAGES) {
+      onProgress?.(`Stopped listing ${label} after ${pages.length} pages (${total} items); the list may be incomplete.`);
+      break;
+    }
+    if (pageToken) onProgress?.(`Listing ${label}: ${total} items so far, fetching page ${pages.length + 1}...`);
+  } while (pageToken);
+
+  return pages;
+};
+
+/**
+ * Merges the `items` maps of aggregated-list pages; a scope can continue on the next page.
+ */
+const mergeAggregatedPages = <K extends string>(
+  pages: { items?: Record<string, Partial<Record<K, any[]>>> }[],
+  key: K
+): Record<string, any[]> => {
+  const merged: Record<string, any[]> = {};
+  for (const page of pages) {
+    for (const [scope, entry] of Object.entries(page.items || {})) {
+      // Scopes without resources only carry a `warning`
+      const resources = entry[key];
+      if (!resources) continue;
+      merged[scope] = (merged[scope] || []).concat(resources);
+    }
+  }
+  return merged;
+};
+
+const countAggregated = (key: string) => (page: { items?: Record<string, any> }): number =>
+  Object.values(page.items || {}).reduce((sum, entry) => sum + (entry[key]?.length || 0), 0);
+
 /**
  * Fetches available regions from GCP.
  */
 export const fetchAvailableRegions = async (
   accessToken: string,
   project: string,
-  onNetworkLog?: NetworkLogCallback
+  onNetworkLog?: NetworkLogCallback,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
 ): Promise<Record<string, string[]>> => {
-  const url = `${API_VERSIONS.V1}/projects/${project}/regions`;
+  const url = isProxyEnabled()
+    ? proxyUrl(PROXY_ROUTES.regions, { project })
+    : `${API_VERSIONS.V1}/projects/${project}/regions`;
   
   try {
-    const data = await gcpRequest<{ items: any[] }>(url, 'GET', accessToken, null, onNetworkLog);
+    const pages = await fetchAllPages<{ items?: any[]; nextPageToken?: string }>(
+      url, accessToken, page => page.items?.length || 0, { label: 'regions', signal, onNetworkLog, onProgress, cacheTtlMs: CACHE_TTLS.regions }
+    );
     
     const regionConfig: Record<string, string[]> = {};
-    if (data.items) {
-      for (const item of data.items) {
+    for (const page of pages) {
+      for (const item of page.items || []) {
         if (item.zones && Array.isArray(item.zones)) {
            const zoneNames = item.zones
              .map((z: string) => z.split('/').pop() || '')
@@ -139,36 +291,108 @@ export const fetchAvailableRegions = async (
 };
 
 /**
- * Fetches machine types for a specific zone.
+ * Fetches the quota metrics (limit / usage) for a region via regions.get.
  */
-export const fetchMachineTypes = async (
+export const fetchRegionQuotas = async (
   accessToken: string,
   project: string,
-  zone: string,
+  region: string,
+  signal?: AbortSignal,
   onNetworkLog?: NetworkLogCallback
-): Promise<MachineTypeOption[]> => {
-  const url = `${API_VERSIONS.V1}/projects/${project}/zones/${zone}/machineTypes`;
+): Promise<RegionQuota[]> => {
+  const url = isProxyEnabled()
+    ? proxyUrl(PROXY_ROUTES.region, { project, region })
+    : `${API_VERSIONS.V1}/projects/${project}/regions/${region}`;
+  const data = await gcpRequest<{ quotas?: any[] }>(url, 'GET', accessToken, null, onNetworkLog, signal, QUICK_RETRY_POLICY, CACHE_TTLS.quotas);
 
-  try {
-    const data = await gcpRequest<{ items: any[] }>(url, 'GET', accessToken, null, onNetworkLog);
-    
-    if (!data.items) return [];
+  return (data.quotas || []).map((q: any) => ({
+    metric: q.metric,
+    limit: Number(q.limit) || 0,
+    usage: Number(q.usage) || 0
+  }));
+};
 
-    const machineTypes: MachineTypeOption[] = data.items.map((item: any) => ({
-      id: item.name,
-      name: item.description || `${getMachineTypeSeries(item.name)} Standard ${item.guestCpus}`,
-      family: getMachineTypeFamily(item.name),
-      series: getMachineTypeSeries(item.name),
-      cores: item.guestCpus,
-      memory: Math.ceil(item.memoryMb / 1024) + 'GB',
-      arch: getMachineTypeArch(item.name)
-    }));
+/**
+ * Fetches machine types for every zone of a region in one aggregated call.
+ * Returns the region's type catalogue plus a zone -> machine type ids matrix,
+ * since newer series (C4, H3, ...) are only offered in some zones.
+ */
+export const fetchMachineTypeMatrix = async (
+  accessToken: string,
+  project: string,
+  region: string,
+  onNetworkLog?: NetworkLogCallback,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<{ machineTypes: MachineTypeOption[]; zoneMachineTypes: Record<string, string[]> }> => {
+  const filter = encodeURIComponent(`zone eq .*/zones/${region}-.*`);
+  const url = isProxyEnabled()
+    ? proxyUrl(PROXY_ROUTES.machineTypes, { project, region })
+    : `${API_VERSIONS.V1}/projects/${project}/aggregated/machineTypes?filter=${filter}`;
+  const pages = await fetchAllPages<{ items?: Record<string, { machineTypes?: any[] }>; nextPageToken?: string }>(
+    url, accessToken, countAggregated('machineTypes'), { label: 'machine types', signal, onNetworkLog, onProgress, cacheTtlMs: CACHE_TTLS.machineTypes }
+  );
 
-    return machineTypes.sort((a, b) => a.family.localeCompare(b.family) || a.id.localeCompare(b.id));
+  const catalogue = new Map<string, MachineTypeOption>();
+  const zoneMachineTypes: Record<string, string[]> = {};
 
-  } catch (e) {
-    return [];
+  for (const [scope, machineTypes] of Object.entries(mergeAggregatedPages(pages, 'machineTypes'))) {
+    const zone = scope.split('/').pop() || '';
+    if (!zone.startsWith(`${region}-`)) continue;
+
+    zoneMachineTypes[zone] = machineTypes.map((item: any) => item.name as string).sort();
+    for (const item of machineTypes) {
+      if (catalogue.has(item.name)) continue;
+      catalogue.set(item.name, {
+        id: item.name,
+        name: item.description || `${getMachineTypeSeries(item.name)} Standard ${item.guestCpus}`,
+        family: getMachineTypeFamily(item.name),
+        series: getMachineTypeSeries(item.name),
+        cores: item.guestCpus,
+        memory: Math.ceil(item.memoryMb / 1024) + 'GB',
+        arch: getMachineTypeArch(item.name)
+      });
+    }
   }
+
+  const machineTypes = Array.from(catalogue.values())
+    .sort((a, b) => a.family.localeCompare(b.family) || a.id.localeCompare(b.id));
+
+  return { machineTypes, zoneMachineTypes };
+};
+
+/**
+ * Fetches attachable accelerator types for every zone (aggregated list).
+ * Returns zone -> accelerator type ids, limited to types that can be attached via guestAccelerators.
+ */
+export const fetchAcceleratorTypes = async (
+  accessToken: string,
+  project: string,
+  onNetworkLog?: NetworkLogCallback,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<Record<string, string[]>> => {
+  const url = isProxyEnabled()
+    ? proxyUrl(PROXY_ROUTES.acceleratorTypes, { project })
+    : `${API_VERSIONS.V1}/projects/${project}/aggregated/acceleratorTypes`;
+  const pages = await fetchAllPages<{ items?: Record<string, { acceleratorTypes?: any[] }>; nextPageToken?: string }>(
+    url, accessToken, countAggregated('acceleratorTypes'), { label: 'accelerator types', signal, onNetworkLog, onProgress, cacheTtlMs: CACHE_TTLS.acceleratorTypes }
+  );
+
+  const attachable = new Set(ACCELERATOR_TYPES.map(a => a.id));
+  const zonalAccelerators: Record<string, string[]> = {};
+
+  for (const [scope, acceleratorTypes] of Object.entries(mergeAggregatedPages(pages, 'acceleratorTypes'))) {
+    const zone = scope.split('/').pop() || '';
+    const types = acceleratorTypes
+      .map((item: any) => item.name as string)
+      .filter(name => attachable.has(name));
+
+    if (zone && types.length > 0) {
+      zonalAccelerators[zone] = types.sort();
+    }
+  }
+  return zonalAccelerators;
 };
 
 /**
@@ -180,20 +404,27 @@ export const fetchAllZonesCapacity = async (
   region: string,
   appState: any,
   signal?: AbortSignal,
-  onNetworkLog?: NetworkLogCallback
+  onNetworkLog?: NetworkLogCallback,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
 ): Promise<CapacityAdvisorResponse> => {
   
-  // Appended timestamp to prevent caching at the URL level
-  const url = `${API_VERSIONS.ALPHA}/projects/${project}/regions/${region}/advice/capacity?_t=${Date.now()}`;
+  // A stable URL lets the response cache coalesce duplicate submits; fetch itself bypasses the HTTP cache
+  const useProxy = isProxyEnabled();
+  const url = useProxy
+    ? proxyUrl(PROXY_ROUTES.capacityAdvice)
+    : `${API_VERSIONS.ALPHA}/projects/${project}/regions/${region}/advice/capacity`;
   const requestBody = buildCapacityAdvisorRequest(appState);
+  const proxyBody: CapacityAdviceProxyRequest = { project, region, request: requestBody };
 
   const data = await gcpRequest<CapacityAdvisorResponse>(
     url, 
     'POST', 
     accessToken, 
-    requestBody, 
+    useProxy ? proxyBody : requestBody, 
     onNetworkLog, 
-    signal
+    signal,
+    retryPolicy,
+    CACHE_TTLS.capacityAdvice
   );
 
   // Robust handling for empty or missing recommendation arrays
@@ -204,7 +435,7 @@ export const fetchAllZonesCapacity = async (
               message: "Capacity Stockout",
               errors: [{
                   reason: "stockout",
-                  message: `The requested capacity for ${appState.selectedMachineType} in ${region} is currently unavailable via Spot.`
+                  message: `The requested capacity for ${appState.selectedMachineType} in ${region} is currently unavailable via ${getProvisioningModelLabel(requestBody.instanceProperties.scheduling.provisioningModel)}.`
               }]
           }
       };
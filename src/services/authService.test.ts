@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mockSingleResponse } from '../testFixtures';
+import { parseTokenResponse, signInWithPopup, renewAuthSession, fetchTokenInfo, getTokenProblem, GisOAuth2 } from './authService';
+
+describe('OAuth Sign-in', () => {
+  const config = { clientId: 'client-1', gisScriptUrl: 'http://localhost:9999/gsi/client', tokenInfoEndpoint: 'http://localhost:9999/tokeninfo' };
+  const READ_ONLY = 'https://www.googleapis.com/auth/cloud-platform.read-only';
+
+  // Stands in for google.accounts.oauth2, answering each token request with the given response
+  const stubGis = (response: Record<string, any>) => {
+    const requests: { client_id: string; scope: string; overrides: any }[] = [];
+    const oauth2: GisOAuth2 = {
+      initTokenClient: ({ client_id, scope, callback }) => ({
+        requestAccessToken: overrides => {
+          requests.push({ client_id, scope, overrides });
+          callback(response);
+        }
+      })
+    };
+    vi.stubGlobal('window', { google: { accounts: { oauth2 } } });
+    return requests;
+  };
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('tracks expiry and keeps the identity of the renewed session', () => {
+     const session = parseTokenResponse({ access_token: 'token-1', expires_in: 3599, scope: READ_ONLY }, { accessToken: 'old', expiresAt: 0, email: 'dev@example.com' }, 1000);
+     expect(session).toEqual({ accessToken: 'token-1', expiresAt: 1000 + 3599 * 1000, email: 'dev@example.com' });
+     expect(() => parseTokenResponse({ error: 'access_denied' })).toThrow('access_denied');
+     expect(() => parseTokenResponse({ access_token: 'token-2', scope: 'openid email' })).toThrow('Cloud Platform access was not granted');
+  });
+
+  it('signs in through the GIS token client and reads the email from tokeninfo', async () => {
+     const requests = stubGis({ access_token: 'token-1', expires_in: 3600, scope: `openid email ${READ_ONLY}` });
+     mockSingleResponse(true, 200, { expires_in: '3600', scope: READ_ONLY, email: 'dev@example.com' });
+
+     const session = await signInWithPopup(config);
+     expect(requests[0]).toMatchObject({ client_id: 'client-1', overrides: { prompt: 'select_account' } });
+     expect(requests[0].scope).toContain(READ_ONLY);
+     expect(session).toMatchObject({ accessToken: 'token-1', email: 'dev@example.com' });
+     expect(session).not.toHaveProperty('refreshToken');
+  });
+
+  it('renews silently for the signed-in account without a refresh token', async () => {
+     const requests = stubGis({ access_token: 'renewed', expires_in: 3600, scope: READ_ONLY });
+
+     const session = await renewAuthSession(config, { accessToken: 'old', expiresAt: 0, email: 'dev@example.com' });
+     expect(requests[0].overrides).toEqual({ prompt: '', login_hint: 'dev@example.com' });
+     expect(session).toMatchObject({ accessToken: 'renewed', email: 'dev@example.com' });
+  });
+
+  it('fetchTokenInfo reads expiry and scopes from a local tokeninfo stand-in', async () => {
+     mockSingleResponse(true, 200, { exp: '2000', scope: 'openid https://www.googleapis.com/auth/userinfo.email', email: 'dev@example.com' });
+
+     const info = await fetchTokenInfo('token', config);
+     expect(info).toMatchObject({ status: 'valid', expiresAt: 2000000, email: 'dev@example.com' });
+     expect(getTokenProblem(info, 1000)).toContain('lacks a Compute Engine scope');
+     expect(getTokenProblem(info, 3000000)).toContain('expired');
+
+     mockSingleResponse(false, 400, { error: 'invalid_token', error_description: 'Invalid Value' });
+     expect(getTokenProblem(await fetchTokenInfo('bad-token', config))).toContain('Invalid Value');
+  });
+});
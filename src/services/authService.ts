@@ -0,0 +1,199 @@
+import { AuthSession, TokenInfo } from '../types';
+
+/**
+ * Google sign-in through the Google Identity Services (GIS) token client.
+ *
+ * GIS hands the browser a short-lived access token directly: there is no code exchange, so no
+ * client secret is needed and no refresh token ever reaches the browser. Renewal re-requests a
+ * token without a prompt, which succeeds while the user keeps their Google session and consent.
+ */
+
+export const OAUTH_SCOPES = [
+  'openid',
+  'email',
+  'https://www.googleapis.com/auth/cloud-platform.read-only'
+];
+
+// Any of these lets the token read Compute Engine capacity advice and metadata.
+export const COMPUTE_READ_SCOPES = [
+  'https://www.googleapis.com/auth/cloud-platform',
+  'https://www.googleapis.com/auth/cloud-platform.read-only',
+  'https://www.googleapis.com/auth/compute',
+  'https://www.googleapis.com/auth/compute.readonly'
+];
+
+// Renew this long before the access token actually expires.
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface OAuthConfig {
+  clientId: string;
+  /** The GIS client library; replaceable by a local stand-in. */
+  gisScriptUrl: string;
+  tokenInfoEndpoint: string;
+}
+
+export const getOAuthConfig = (): OAuthConfig => ({
+  clientId: import.meta.env.VITE_OAUTH_CLIENT_ID || '',
+  gisScriptUrl: import.meta.env.VITE_OAUTH_GIS_SCRIPT_URL || 'https://accounts.google.com/gsi/client',
+  tokenInfoEndpoint: import.meta.env.VITE_OAUTH_TOKENINFO_ENDPOINT || 'https://oauth2.googleapis.com/tokeninfo'
+});
+
+// The slice of google.accounts.oauth2 used here
+interface GisTokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GisTokenClient {
+  requestAccessToken(overrides?: { prompt?: string; login_hint?: string }): void;
+}
+
+export interface GisOAuth2 {
+  initTokenClient(config: {
+    client_id: string;
+    scope: string;
+    callback: (response: GisTokenResponse) => void;
+    error_callback?: (error: { type: string; message?: string }) => void;
+  }): GisTokenClient;
+}
+
+declare global {
+  interface Window {
+    google?: { accounts?: { oauth2?: GisOAuth2 } };
+  }
+}
+
+const authError = (title: string, message: string, actionable: string) =>
+  new Error(JSON.stringify({ clientError: true, title, message, actionable }));
+
+let gisLoader: Promise<GisOAuth2> | null = null;
+
+/**
+ * The GIS oauth2 namespace, injecting the client library on first use.
+ */
+const loadGis = (config: OAuthConfig): Promise<GisOAuth2> => {
+  const loaded = window.google?.accounts?.oauth2;
+  if (loaded) return Promise.resolve(loaded);
+
+  gisLoader ??= new Promise<GisOAuth2>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = config.gisScriptUrl;
+    script.async = true;
+    script.onload = () => {
+      const oauth2 = window.google?.accounts?.oauth2;
+      if (oauth2) resolve(oauth2);
+      else reject(authError('Sign-in Unavailable', 'The Google sign-in library loaded without its OAuth client.', 'Reload the page and try again.'));
+    };
+    script.onerror = () => reject(authError('Sign-in Unavailable', 'The Google sign-in library could not be loaded.', 'Check your network or content blockers, then try again.'));
+    document.head.appendChild(script);
+  }).catch(error => {
+    gisLoader = null;
+    throw error;
+  });
+  return gisLoader;
+};
+
+/**
+ * Maps a GIS token response to a session, keeping the identity of the session it renews.
+ */
+export const parseTokenResponse = (json: GisTokenResponse, previous: AuthSession | null = null, now: number = Date.now()): AuthSession => {
+  if (!json.access_token) {
+    throw authError('Sign-in Failed', json.error_description || json.error || 'Google did not return an access token.', 'Sign in again.');
+  }
+  // With granular consent the user can untick the Cloud Platform scope
+  if (json.scope !== undefined && !json.scope.split(' ').some(scope => COMPUTE_READ_SCOPES.includes(scope))) {
+    throw authError('Sign-in Failed', 'Read-only Cloud Platform access was not granted.', 'Sign in again and allow Cloud Platform access.');
+  }
+  return {
+    accessToken: json.access_token,
+    expiresAt: now + (Number(json.expires_in) || 3600) * 1000,
+    email: previous?.email
+  };
+};
+
+const requestToken = async (config: OAuthConfig, overrides: { prompt?: string; login_hint?: string }): Promise<GisTokenResponse> => {
+  const oauth2 = await loadGis(config);
+  return new Promise((resolve, reject) => {
+    const client = oauth2.initTokenClient({
+      client_id: config.clientId,
+      scope: OAUTH_SCOPES.join(' '),
+      callback: resolve,
+      error_callback: error => reject(
+        error.type === 'popup_failed_to_open'
+          ? authError('Popup Blocked', 'The sign-in window could not be opened.', 'Allow popups for this site and try again.')
+          : error.type === 'popup_closed'
+            ? authError('Sign-in Cancelled', 'The sign-in window was closed.', 'Try again.')
+            : authError('Sign-in Failed', error.message || error.type, 'Try again.')
+      )
+    });
+    client.requestAccessToken(overrides);
+  });
+};
+
+/**
+ * Opens Google's account chooser and consent screen in a GIS-managed popup.
+ */
+export const signInWithPopup = async (config: OAuthConfig = getOAuthConfig()): Promise<AuthSession> => {
+  if (!config.clientId) {
+    throw authError('Sign-in Not Configured', 'No OAuth client ID is configured.', 'Set VITE_OAUTH_CLIENT_ID or paste an access token instead.');
+  }
+
+  const session = parseTokenResponse(await requestToken(config, { prompt: 'select_account' }));
+  // The token response carries no identity; tokeninfo has the email for the display
+  const info = await fetchTokenInfo(session.accessToken, config);
+  return { ...session, email: info.email };
+};
+
+/**
+ * Re-requests a token without a prompt for the signed-in account.
+ * Fails when Google needs the user again (signed out, consent revoked).
+ */
+export const renewAuthSession = async (config: OAuthConfig, session: AuthSession): Promise<AuthSession> =>
+  parseTokenResponse(await requestToken(config, { prompt: '', ...(session.email ? { login_hint: session.email } : {}) }), session);
+
+/**
+ * Introspects an access token (expiry, scopes, identity) via the tokeninfo endpoint.
+ * The token is sent in the POST body so it never lands in a URL.
+ */
+export const fetchTokenInfo = async (accessToken: string, config: OAuthConfig = getOAuthConfig(), now: number = Date.now()): Promise<TokenInfo> => {
+  let response: Response;
+  let json: any;
+  try {
+    response = await fetch(config.tokenInfoEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ access_token: accessToken }).toString()
+    });
+    json = await response.json();
+  } catch (e) {
+    return { status: 'unreachable', expiresAt: null, scopes: [] };
+  }
+
+  if (!response.ok || json.error) {
+    return { status: 'invalid', expiresAt: null, scopes: [], error: json.error_description || json.error || `HTTP ${response.status}` };
+  }
+
+  const expiresInMs = json.expires_in !== undefined ? Number(json.expires_in) * 1000 : null;
+  return {
+    status: 'valid',
+    expiresAt: json.exp !== undefined ? Number(json.exp) * 1000 : expiresInMs !== null ? now + expiresInMs : null,
+    scopes: typeof json.scope === 'string' ? json.scope.split(' ').filter(Boolean) : [],
+    email: json.email
+  };
+};
+
+/**
+ * Why a token can't possibly work for the live API, or null if it might.
+ */
+export const getTokenProblem = (info: TokenInfo, now: number = Date.now()): string | null => {
+  if (info.status === 'unreachable') return null;
+  if (info.status === 'invalid') return `Google rejected the token (${info.error || 'invalid token'}). It is malformed, revoked or already expired.`;
+  if (info.expiresAt !== null && info.expiresAt <= now) return `The token expired at ${new Date(info.expiresAt).toLocaleTimeString()}.`;
+  if (!info.scopes.some(scope => COMPUTE_READ_SCOPES.includes(scope))) {
+    return `The token lacks a Compute Engine scope (granted: ${info.scopes.join(', ') || 'none'}). It needs cloud-platform, cloud-platform.read-only or compute.readonly.`;
+  }
+  return null;
+};
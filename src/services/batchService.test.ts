@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TargetShape, ProvisioningModel } from '../types';
+import { mockState, mockFetchResponse } from '../testFixtures';
+import { generateBatchCSV } from '../export';
+import { apiRequestCache } from './requestCache';
+import { parseManifest, createBatchRows, runBatch, summarizeBatchRow, validateBatch } from './batchService';
+
+describe('Batch Analysis', () => {
+  beforeEach(() => apiRequestCache.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('reads CSV manifests with flexible headers, quoted cells and defaults', () => {
+     const entries = parseManifest('Label,Machine Type,Region,Count,Shape\n"Web, tier",n2-standard-4,us-central1,10,balanced\r\n,e2-medium,europe-west1,5,\n', 'plan.csv');
+     expect(entries.map(e => [e.row, e.label, e.machineType, e.region, e.size, e.targetShape, e.provisioningModel])).toEqual([
+       [2, 'Web, tier', 'n2-standard-4', 'us-central1', 10, TargetShape.BALANCED, null],
+       [3, '5× e2-medium in europe-west1', 'e2-medium', 'europe-west1', 5, TargetShape.ANY, null]
+     ]);
+  });
+
+  it('reads JSON manifests and reports every invalid row', () => {
+     const entries = parseManifest('{"entries":[{"machine_type":"e2-medium","region":"us-east1","count":"3","provisioningModel":"standard"}]}', 'plan.json');
+     expect(entries[0].provisioningModel).toBe(ProvisioningModel.STANDARD);
+     expect(() => parseManifest('[{"region":"us-east1","count":0},{"machineType":"e2","region":"us-east1","count":1,"shape":"round"}]', 'plan.json'))
+       .toThrow('Row 1: missing machine type, count must be a whole number from 1 to 9999; Row 2: unknown shape "round".');
+     expect(() => parseManifest('{"workloads":[]}', 'plan.json')).toThrow('"entries" array');
+  });
+
+  it('escapes manifest values in the combined CSV report', () => {
+     const rows = createBatchRows(parseManifest('label,machineType,region,count\n"Say ""hi""",e2-medium,us-east1,2', 'plan.csv'));
+     rows[0] = { ...rows[0], status: 'error', error: 'Quota exceeded, try later' };
+     expect(generateBatchCSV(rows, mockState).split('\n')[1]).toBe('2,"Say ""hi""",e2-medium,us-east1,2,ANY,SPOT,error,,,,0,"Quota exceeded, try later"');
+  });
+
+  it('records a live stockout as a 0% success row', async () => {
+     mockFetchResponse((url) => ({ ok: true, status: 200, data: { recommendations: url.includes('/regions/us-east1/')
+       ? []
+       : [{ scores: [{ name: 'obtainability', value: 0.9 }], shards: [{ location: 'zones/europe-west1-b', machineType: 'e2-medium', count: 2 }] }] } }));
+
+     const entries = parseManifest('machineType,region,count\ne2-medium,us-east1,2\ne2-medium,europe-west1,2', 'plan.csv');
+     const rows = await runBatch(entries, { ...mockState, mockMode: false });
+     expect(rows.map(r => r.status)).toEqual(['success', 'success']);
+     expect(rows.map(r => summarizeBatchRow(r).topObtainability)).toEqual([0, 0.9]);
+  });
+
+  it('runs the single search checks before starting', () => {
+     const entries = parseManifest('machineType,region,count\ne2-medium,us-central1,2\nc4-standard-8,us-central1,2\nm3-megamem-64,us-central1,1', 'plan.csv');
+     const context = {
+       tokenProblem: null,
+       machineTypes: [],
+       availability: { region: 'us-central1', zones: ['us-central1-a', 'us-central1-b'], zoneMachineTypes: { 'us-central1-a': ['e2-medium'], 'us-central1-b': ['e2-medium'] } }
+     };
+     expect(validateBatch(entries.slice(0, 1), mockState, context)).toBeNull();
+     expect(validateBatch(entries, mockState, context)).toBe(
+       'Row 3: c4-standard-8 is not offered in any zone of us-central1; Row 4: m3-megamem-64 is outside the selected machine families (Memory Optimized).'
+     );
+     expect(validateBatch(entries.slice(0, 1), { ...mockState, project: 'Bad_Project', mockMode: false }, { ...context, tokenProblem: 'The token expired at 10:00:00.' }))
+       .toBe('Project ID must consist of lowercase letters, digits, and hyphens; The token expired at 10:00:00.');
+  });
+});
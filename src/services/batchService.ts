@@ -0,0 +1,311 @@
+import { AppState, CapacityAdvisorResponse, NetworkLogEntry, ProvisioningModel, TargetShape } from '../types';
+import { MachineTypeOption } from '../config';
+import { createAbortError, getFriendlyErrorMessage, getErrorStatus, getMachineTypeFamily, getZonesMissingMachineTypes, isAbortError, isStockoutError } from '../utils';
+import { fetchAllZonesCapacity } from './apiService';
+import { generateMockRecommendationsWithShape } from './simulationEngine';
+import { getFanOutConcurrency } from './multiRegionService';
+import { PROJECT_ID_REGEX, REGION_PATTERN } from './proxyContract';
+import { getScore, getZoneSet } from './runDiffService';
+
+/**
+ * Batch Analysis
+ *
+ * Runs every entry of a workload manifest (CSV or JSON) through the single-region pipeline,
+ * a few at a time within the rate limiter budget. A failing entry is recorded on its row and
+ * never stops the rest of the batch; a stockout is a successful entry with no options (0%).
+ */
+
+export interface BatchEntry {
+  /** 1-based position in the manifest, used in messages. */
+  row: number;
+  label: string;
+  machineType: string;
+  region: string;
+  size: number;
+  targetShape: TargetShape;
+  /** Falls back to the current configuration's model. */
+  provisioningModel: ProvisioningModel | null;
+}
+
+export type BatchRowStatus = 'queued' | 'running' | 'success' | 'error' | 'cancelled';
+
+export interface BatchRow {
+  entry: BatchEntry;
+  status: BatchRowStatus;
+  response: CapacityAdvisorResponse | null;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export interface BatchRunOptions {
+  /** Hardware details for the simulator; unknown types simulate generic capacity. */
+  getMachineDetails?: (machineType: string) => MachineTypeOption | undefined;
+  signal?: AbortSignal;
+  onNetworkLog?: (entry: NetworkLogEntry) => void;
+  /** Fired when a row starts and when it settles. */
+  onRowUpdate?: (index: number, row: BatchRow) => void;
+}
+
+/** What the single-region search checks before calling the API, beyond the manifest itself. */
+export interface BatchValidationContext {
+  /** Why the current access token cannot work; null when it looks usable or was not checked. */
+  tokenProblem: string | null;
+  /** Known machine types; their family decides whether an entry passes the family filter. */
+  machineTypes: MachineTypeOption[];
+  /** Zone x machine type matrix of the loaded region; entries in other regions are not checked. */
+  availability: { region: string; zones: string[]; zoneMachineTypes: Record<string, string[]> } | null;
+}
+
+export const MAX_BATCH_ENTRIES = 200;
+const MOCK_LATENCY_MS = 400;
+const MAX_REPORTED_PROBLEMS = 5;
+
+// Accepted spellings per field, compared without case, spaces, dashes or underscores
+const FIELD_ALIASES: Record<keyof Omit<BatchEntry, 'row'>, string[]> = {
+  label: ['label', 'name', 'workload'],
+  machineType: ['machinetype', 'machine', 'type'],
+  region: ['region'],
+  size: ['count', 'size', 'vms', 'vmcount'],
+  targetShape: ['shape', 'targetshape', 'distribution'],
+  provisioningModel: ['provisioningmodel', 'model', 'provisioning']
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+/** Splits CSV text into rows of cells; handles quoted cells with commas, quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const readEnum = <T extends string>(values: Record<string, T>, raw: string): T | undefined =>
+  Object.values(values).find(v => v === raw.trim().toUpperCase().replace(/[\s-]/g, '_'));
+
+const toEntry = (record: Record<string, unknown>, row: number, problems: string[]): BatchEntry | null => {
+  const fields: Partial<Record<keyof typeof FIELD_ALIASES, string>> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const field = (Object.keys(FIELD_ALIASES) as (keyof typeof FIELD_ALIASES)[]).find(f => FIELD_ALIASES[f].includes(normalizeKey(key)));
+    if (field && value !== null && value !== undefined && String(value).trim() !== '') fields[field] = String(value).trim();
+  });
+
+  const rowProblems: string[] = [];
+  const size = Number(fields.size);
+  const targetShape = fields.targetShape ? readEnum(TargetShape, fields.targetShape) : TargetShape.ANY;
+  const provisioningModel = fields.provisioningModel ? readEnum(ProvisioningModel, fields.provisioningModel) : null;
+
+  if (!fields.machineType) rowProblems.push('missing machine type');
+  if (!fields.region) rowProblems.push('missing region');
+  else if (!REGION_PATTERN.test(fields.region)) rowProblems.push(`invalid region "${fields.region}"`);
+  if (!Number.isInteger(size) || size < 1 || size > 9999) rowProblems.push(`count must be a whole number from 1 to 9999`);
+  if (!targetShape) rowProblems.push(`unknown shape "${fields.targetShape}"`);
+  if (provisioningModel === undefined) rowProblems.push(`unknown provisioning model "${fields.provisioningModel}"`);
+
+  if (rowProblems.length > 0) {
+    problems.push(`Row ${row}: ${rowProblems.join(', ')}`);
+    return null;
+  }
+  return {
+    row,
+    label: fields.label || `${size}× ${fields.machineType} in ${fields.region}`,
+    machineType: fields.machineType!,
+    region: fields.region!,
+    size,
+    targetShape: targetShape!,
+    provisioningModel: provisioningModel ?? null
+  };
+};
+
+/**
+ * Parses a manifest: CSV with a header row, or JSON (an array of entries, or `{ "entries": [...] }`).
+ * Throws with the first few problems when any entry is invalid.
+ */
+export const parseManifest = (text: string, fileName: string): BatchEntry[] => {
+  let records: Record<string, unknown>[];
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+
+  if (isJson) {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The manifest is not valid JSON.');
+    }
+    const list = Array.isArray(data) ? data : data?.entries;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+      throw new Error('A JSON manifest must be an array of entries or an object with an "entries" array.');
+    }
+    records = list;
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header || rows.length === 0) throw new Error('A CSV manifest needs a header row and at least one entry.');
+    records = rows.map(cells => Object.fromEntries(header.map((key, i) => [key, cells[i] ?? ''])));
+  }
+
+  if (records.length === 0) throw new Error('The manifest has no entries.');
+  if (records.length > MAX_BATCH_ENTRIES) throw new Error(`A manifest is limited to ${MAX_BATCH_ENTRIES} entries (this one has ${records.length}).`);
+
+  const problems: string[] = [];
+  // CSV row numbers count the header, so they match a spreadsheet
+  const entries = records.map((record, i) => toEntry(record, isJson ? i + 1 : i + 2, problems));
+  if (problems.length > 0) throw new Error(formatProblems(problems));
+  return entries as BatchEntry[];
+};
+
+/**
+ * Runs the single-region search's checks against the current configuration and every entry,
+ * so a batch that cannot succeed spends no rate limiter budget. Returns the problems as one
+ * message, or null when the batch can start.
+ */
+export const validateBatch = (entries: BatchEntry[], state: AppState, context: BatchValidationContext): string | null => {
+  const problems: string[] = [];
+
+  if (!state.project || !PROJECT_ID_REGEX.test(state.project)) {
+    problems.push('Project ID must consist of lowercase letters, digits, and hyphens');
+  }
+  if (!state.mockMode && context.tokenProblem) problems.push(context.tokenProblem.replace(/\.$/, ''));
+
+  const families = state.selectedFamilies.includes('All') ? null : state.selectedFamilies;
+  const { availability } = context;
+  entries.forEach(entry => {
+    const family = context.machineTypes.find(m => m.id === entry.machineType)?.family || getMachineTypeFamily(entry.machineType);
+    if (families && !families.includes(family)) {
+      problems.push(`Row ${entry.row}: ${entry.machineType} is outside the selected machine families (${family})`);
+    } else if (availability?.region === entry.region && availability.zones.length > 0
+      && getZonesMissingMachineTypes(availability.zones, [entry.machineType], availability.zoneMachineTypes).length === availability.zones.length) {
+      problems.push(`Row ${entry.row}: ${entry.machineType} is not offered in any zone of ${entry.region}`);
+    }
+  });
+
+  return problems.length > 0 ? formatProblems(problems) : null;
+};
+
+const formatProblems = (problems: string[]) => {
+  const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+  return `${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}.`;
+};
+
+export const createBatchRows = (entries: BatchEntry[]): BatchRow[] =>
+  entries.map(entry => ({ entry, status: 'queued', response: null, latencyMs: null, error: null }));
+
+/** The configuration an entry runs with: the current project, credentials and data source. */
+export const getEntryState = (entry: BatchEntry, state: AppState): AppState => ({
+  ...state,
+  analysisMode: 'single',
+  region: entry.region,
+  selectedMachineType: entry.machineType,
+  alternativeMachineTypes: [],
+  size: entry.size,
+  targetShape: entry.targetShape,
+  provisioningModel: entry.provisioningModel || state.provisioningModel,
+  acceleratorType: '',
+  acceleratorCount: 0,
+  includedZones: [],
+  excludedZones: []
+});
+
+const runEntry = async (entry: BatchEntry, state: AppState, options: BatchRunOptions): Promise<CapacityAdvisorResponse> => {
+  const entryState = getEntryState(entry, state);
+
+  if (state.mockMode) {
+    await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+    if (options.signal?.aborted) throw createAbortError();
+    return generateMockRecommendationsWithShape(entry.region, entry.machineType, options.getMachineDetails?.(entry.machineType), entry.size, entry.targetShape, {
+      provisioningModel: entryState.provisioningModel
+    });
+  }
+
+  try {
+    return await fetchAllZonesCapacity(state.accessToken, state.project, entry.region, entryState, options.signal, options.onNetworkLog);
+  } catch (error) {
+    // A stockout is an answer (no capacity), not a failed entry
+    if (isStockoutError(error)) return { recommendations: [] };
+    throw error;
+  }
+};
+
+/**
+ * Runs the entries concurrently within the rate limiter budget. Rows that never started
+ * are marked cancelled when the signal aborts.
+ */
+export const runBatch = async (entries: BatchEntry[], state: AppState, options: BatchRunOptions = {}): Promise<BatchRow[]> => {
+  const rows = createBatchRows(entries);
+  const queue = entries.map((_, index) => index);
+
+  const update = (index: number, changes: Partial<BatchRow>) => {
+    rows[index] = { ...rows[index], ...changes };
+    options.onRowUpdate?.(index, rows[index]);
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !options.signal?.aborted) {
+      const index = queue.shift()!;
+      const startTime = Date.now();
+      update(index, { status: 'running' });
+
+      try {
+        const response = await runEntry(entries[index], state, options);
+        update(index, { status: 'success', response, latencyMs: Date.now() - startTime });
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          update(index, { status: 'cancelled' });
+        } else {
+          update(index, { status: 'error', latencyMs: Date.now() - startTime, error: getFriendlyErrorMessage(getErrorStatus(error), error.message) });
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: getFanOutConcurrency(entries.length, state.mockMode) }, worker));
+  queue.forEach(index => update(index, { status: 'cancelled' }));
+  return rows;
+};
+
+export interface BatchRowSummary {
+  /** 0 for a stockout; null until the entry succeeds. */
+  topObtainability: number | null;
+  topUptime: number | null;
+  bestZones: string[];
+  optionCount: number;
+}
+
+export const summarizeBatchRow = (row: BatchRow): BatchRowSummary => {
+  const top = row.response?.recommendations[0];
+  return {
+    topObtainability: row.status === 'success' && !top ? 0 : getScore(top, 'obtainability'),
+    topUptime: getScore(top, 'uptime'),
+    bestZones: top ? getZoneSet(top) : [],
+    optionCount: row.response?.recommendations.length || 0
+  };
+};
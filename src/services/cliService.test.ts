@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { TargetShape, ProvisioningModel } from '../types';
+import { buildCapacityAdvisorRequest } from '../utils';
+import { mockState } from '../testFixtures';
+import { generateMockRecommendationsWithShape } from './simulationEngine';
+import { parseCheckArgs, buildCheckRequest, buildCheckReport, getCheckExitCode, formatCheckTable, CLI_EXIT_CODES } from './cliService';
+
+describe('Command-line Check', () => {
+  const baseArgs = ['--project', 'test-project', '--region', 'us-central1', '--type', 'n2-standard-8', '--count', '50'];
+
+  it('parses flags in both forms and builds the same request as the app', () => {
+     const options = parseCheckArgs([...baseArgs, '--shape=balanced', '--alternatives', 'n2d-standard-8,n2-standard-8', '--zones', 'us-central1-a', '--threshold', '0.7', '--json']);
+     expect(options).toMatchObject({ size: 50, targetShape: TargetShape.BALANCED, provisioningModel: ProvisioningModel.SPOT, alternativeMachineTypes: ['n2d-standard-8'], threshold: 0.7, json: true, mock: false });
+     expect(buildCheckRequest(options)).toEqual(buildCapacityAdvisorRequest({
+       ...mockState, selectedMachineType: 'n2-standard-8', alternativeMachineTypes: ['n2d-standard-8'], size: 50,
+       targetShape: TargetShape.BALANCED, includedZones: ['us-central1-a'], excludedZones: [], acceleratorType: ''
+     }));
+  });
+
+  it('reports every usage problem at once', () => {
+     expect(() => parseCheckArgs(['--project', 'test-project', '--region', 'us-central1', '--count', 'ten', '--threshold', '70', '--zones', 'europe-west1-b', '--json=yes']))
+       .toThrow('--json takes no value; --type is required; --count must be a whole number from 1 to 9999; --threshold must be a number from 0 to 1; zones outside us-central1: europe-west1-b.');
+     expect(() => parseCheckArgs([...baseArgs, '--region'])).toThrow('--region needs a value');
+  });
+
+  it('exits non-zero below the threshold and on a stockout', () => {
+     const response = generateMockRecommendationsWithShape('us-central1', 'n2-standard-8', undefined, 50, TargetShape.ANY);
+     const top = Math.max(...response.recommendations.map(r => r.scores.find(s => s.name === 'obtainability')!.value));
+
+     const passing = buildCheckReport(parseCheckArgs([...baseArgs, '--mock', '--threshold', String(top)]), response);
+     expect(passing).toMatchObject({ topObtainability: top, passed: true, source: 'simulated' });
+     expect(getCheckExitCode(passing)).toBe(CLI_EXIT_CODES.ok);
+     expect(formatCheckTable(passing)).toContain('PASS');
+
+     const failing = buildCheckReport(parseCheckArgs([...baseArgs, '--threshold', '1']), response);
+     expect(getCheckExitCode(failing)).toBe(top < 1 ? CLI_EXIT_CODES.belowThreshold : CLI_EXIT_CODES.ok);
+
+     const stockout = buildCheckReport(parseCheckArgs(baseArgs), null);
+     expect(stockout).toMatchObject({ stockout: true, topObtainability: 0, passed: false });
+     expect(getCheckExitCode(stockout)).toBe(CLI_EXIT_CODES.belowThreshold);
+  });
+});
@@ -0,0 +1,256 @@
+import { CapacityAdvisorRequest, CapacityAdvisorResponse, ProvisioningModel, TargetShape } from '../types';
+import { CapacityRequestConfig, buildCapacityAdvisorRequest } from '../utils';
+import { PROJECT_ID_PATTERN, REGION_PATTERN, ZONE_PATTERN } from './proxyContract';
+import { getScore, getZoneSet } from './runDiffService';
+
+/**
+ * Command-line Check
+ *
+ * Argument parsing, verdict and output formatting for the headless `capacity-advisor check`
+ * command (cli/index.ts). Kept free of Node APIs so the rules are shared and testable.
+ */
+
+export interface CheckOptions {
+  project: string;
+  region: string;
+  machineType: string;
+  alternativeMachineTypes: string[];
+  size: number;
+  targetShape: TargetShape;
+  provisioningModel: ProvisioningModel;
+  includedZones: string[];
+  excludedZones: string[];
+  /** Minimum obtainability (0-1) of the best option; null only reports. */
+  threshold: number | null;
+  json: boolean;
+  mock: boolean;
+  /** Print the request body without calling the API. */
+  dryRun: boolean;
+}
+
+export interface CheckRecommendation {
+  rank: number;
+  obtainability: number | null;
+  uptime: number | null;
+  zones: string[];
+  shards: { zone: string; machineType: string; count: number }[];
+}
+
+export interface CheckReport {
+  project: string;
+  region: string;
+  machineType: string;
+  alternativeMachineTypes: string[];
+  count: number;
+  shape: TargetShape;
+  provisioningModel: ProvisioningModel;
+  source: 'simulated' | 'live';
+  threshold: number | null;
+  /** Best obtainability across the options; 0 on a stockout. */
+  topObtainability: number;
+  stockout: boolean;
+  passed: boolean;
+  recommendations: CheckRecommendation[];
+}
+
+export const CLI_EXIT_CODES = {
+  ok: 0,
+  belowThreshold: 1,
+  usage: 2,
+  failed: 3,
+  /** The request never got an HTTP response (no network, DNS or a blocked connection). */
+  offline: 4
+} as const;
+
+export const CHECK_USAGE = `Usage: capacity-advisor check --project <id> --region <region> --type <machine-type> --count <n> [options]
+
+Asks the Capacity Advisor whether the requested VMs are obtainable and prints the ranked options.
+
+Options:
+  --project <id>                Google Cloud project ID
+  --region <region>             Region, e.g. us-central1
+  --type <machine-type>         Machine type, e.g. n2-standard-8
+  --count <n>                   Number of VMs (1-9999)
+  --shape <shape>               ANY, ANY_SINGLE_ZONE or BALANCED (default ANY)
+  --provisioning-model <model>  SPOT or STANDARD (default SPOT)
+  --alternatives <types>        Comma-separated fallback machine types
+  --zones <zones>               Comma-separated zones to allow
+  --exclude-zones <zones>       Comma-separated zones to deny
+  --threshold <score>           Minimum obtainability of the best option, 0-1
+  --json                        Print a JSON report instead of a table
+  --mock                        Use the simulator instead of the live API
+  --dry-run                     Print the request body and exit
+  --help                        Show this help
+
+Credentials: GOOGLE_OAUTH_ACCESS_TOKEN, else Application Default Credentials.
+
+Exit codes: 0 passed, 1 below the threshold or stocked out, 2 invalid usage, 3 request failed, 4 network unavailable.`;
+
+const VALUE_FLAGS = ['project', 'region', 'type', 'count', 'shape', 'provisioning-model', 'alternatives', 'zones', 'exclude-zones', 'threshold'] as const;
+const BOOLEAN_FLAGS = ['json', 'mock', 'dry-run'] as const;
+
+type ValueFlag = typeof VALUE_FLAGS[number];
+
+const splitList = (raw: string | undefined): string[] =>
+  raw ? Array.from(new Set(raw.split(',').map(v => v.trim()).filter(Boolean))) : [];
+
+const readEnum = <T extends string>(values: Record<string, T>, raw: string): T | undefined =>
+  Object.values(values).find(v => v === raw.trim().toUpperCase().replace(/[\s-]/g, '_'));
+
+/**
+ * Parses the arguments after `check`: `--flag value` or `--flag=value`.
+ * @throws Error listing every problem found.
+ */
+export const parseCheckArgs = (args: string[]): CheckOptions => {
+  const values: Partial<Record<ValueFlag, string>> = {};
+  const switches = new Set<string>();
+  const problems: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      problems.push(`unexpected argument "${arg}"`);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if ((BOOLEAN_FLAGS as readonly string[]).includes(name)) {
+      if (inline !== undefined) problems.push(`--${name} takes no value`);
+      switches.add(name);
+    } else if ((VALUE_FLAGS as readonly string[]).includes(name)) {
+      const value = inline ?? args[++i];
+      if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+        problems.push(`--${name} needs a value`);
+        if (inline === undefined && value !== undefined) i--;
+      } else {
+        values[name as ValueFlag] = value.trim();
+      }
+    } else {
+      problems.push(`unknown option --${name}`);
+    }
+  }
+
+  const project = values.project || '';
+  const region = values.region || '';
+  const machineType = values.type || '';
+  const size = Number(values.count);
+  const targetShape = values.shape ? readEnum(TargetShape, values.shape) : TargetShape.ANY;
+  const provisioningModel = values['provisioning-model'] ? readEnum(ProvisioningModel, values['provisioning-model']) : ProvisioningModel.SPOT;
+  const threshold = values.threshold !== undefined ? Number(values.threshold) : null;
+  const includedZones = splitList(values.zones);
+  const excludedZones = splitList(values['exclude-zones']);
+
+  if (!project) problems.push('--project is required');
+  else if (!PROJECT_ID_PATTERN.test(project)) problems.push(`invalid project ID "${project}"`);
+  if (!region) problems.push('--region is required');
+  else if (!REGION_PATTERN.test(region)) problems.push(`invalid region "${region}"`);
+  if (!machineType) problems.push('--type is required');
+  if (values.count === undefined) problems.push('--count is required');
+  else if (!Number.isInteger(size) || size < 1 || size > 9999) problems.push('--count must be a whole number from 1 to 9999');
+  if (!targetShape) problems.push(`unknown shape "${values.shape}"`);
+  if (!provisioningModel) problems.push(`unknown provisioning model "${values['provisioning-model']}"`);
+  if (threshold !== null && (values.threshold === '' || !Number.isFinite(threshold) || threshold < 0 || threshold > 1)) {
+    problems.push('--threshold must be a number from 0 to 1');
+  }
+  const badZones = [...includedZones, ...excludedZones].filter(zone => !ZONE_PATTERN.test(zone) || !zone.startsWith(`${region}-`));
+  if (badZones.length > 0) problems.push(`zones outside ${region || 'the region'}: ${badZones.join(', ')}`);
+  if (includedZones.some(zone => excludedZones.includes(zone))) problems.push('a zone cannot be both allowed and denied');
+
+  if (problems.length > 0) throw new Error(`${problems.join('; ')}.`);
+
+  return {
+    project,
+    region,
+    machineType,
+    alternativeMachineTypes: splitList(values.alternatives).filter(type => type !== machineType),
+    size,
+    targetShape: targetShape!,
+    provisioningModel: provisioningModel!,
+    includedZones,
+    excludedZones,
+    threshold,
+    json: switches.has('json'),
+    mock: switches.has('mock'),
+    dryRun: switches.has('dry-run')
+  };
+};
+
+export const toRequestConfig = (options: CheckOptions): CapacityRequestConfig => ({
+  selectedMachineType: options.machineType,
+  alternativeMachineTypes: options.alternativeMachineTypes,
+  size: options.size,
+  targetShape: options.targetShape,
+  provisioningModel: options.provisioningModel,
+  acceleratorType: '',
+  acceleratorCount: 0,
+  includedZones: options.includedZones,
+  excludedZones: options.excludedZones
+});
+
+export const buildCheckRequest = (options: CheckOptions): CapacityAdvisorRequest =>
+  buildCapacityAdvisorRequest(toRequestConfig(options));
+
+/**
+ * The verdict for a response; a null response is a stockout, which never passes.
+ */
+export const buildCheckReport = (options: CheckOptions, response: CapacityAdvisorResponse | null): CheckReport => {
+  const recommendations = (response?.recommendations || []).map((rec, index) => ({
+    rank: index + 1,
+    obtainability: getScore(rec, 'obtainability'),
+    uptime: getScore(rec, 'uptime'),
+    zones: getZoneSet(rec),
+    shards: rec.shards.map(s => ({ zone: s.location.split('/').pop() || s.location, machineType: s.machineType.split('/').pop() || s.machineType, count: s.count }))
+  }));
+  const topObtainability = Math.max(0, ...recommendations.map(r => r.obtainability ?? 0));
+  const stockout = recommendations.length === 0;
+
+  return {
+    project: options.project,
+    region: options.region,
+    machineType: options.machineType,
+    alternativeMachineTypes: options.alternativeMachineTypes,
+    count: options.size,
+    shape: options.targetShape,
+    provisioningModel: options.provisioningModel,
+    source: options.mock ? 'simulated' : 'live',
+    threshold: options.threshold,
+    topObtainability,
+    stockout,
+    passed: !stockout && topObtainability >= (options.threshold ?? 0),
+    recommendations
+  };
+};
+
+export const getCheckExitCode = (report: CheckReport): number =>
+  report.passed ? CLI_EXIT_CODES.ok : CLI_EXIT_CODES.belowThreshold;
+
+const percent = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`;
+
+/** Plain-text table for terminals and CI logs. */
+export const formatCheckTable = (report: CheckReport): string => {
+  const header = `${report.count}× ${report.machineType} (${report.provisioningModel}, ${report.shape}) in ${report.region} • ${report.project} • ${report.source === 'simulated' ? 'Simulated' : 'Live API'}`;
+  const lines = [header, ''];
+
+  if (report.stockout) {
+    lines.push('No recommendations: the requested capacity is currently unavailable (stockout).');
+  } else {
+    const rows = [
+      ['RANK', 'OBTAINABILITY', 'UPTIME', 'SHARDS'],
+      ...report.recommendations.map(rec => [
+        String(rec.rank),
+        percent(rec.obtainability),
+        percent(rec.uptime),
+        rec.shards.map(s => `${s.count}× ${s.machineType} @ ${s.zone}`).join(', ')
+      ])
+    ];
+    const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+    rows.forEach(row => lines.push(row.map((cell, col) => col === row.length - 1 ? cell : cell.padEnd(widths[col])).join('  ')));
+  }
+
+  lines.push('');
+  if (report.threshold === null) {
+    lines.push(`Best obtainability: ${percent(report.topObtainability)}`);
+  } else {
+    lines.push(`Best obtainability ${percent(report.topObtainability)} vs threshold ${percent(report.threshold)}: ${report.passed ? 'PASS' : 'FAIL'}`);
+  }
+  return lines.join('\n');
+};
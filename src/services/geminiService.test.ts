@@ -0,0 +1,43 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ProvisioningModel } from '../types';
+import { mockState } from '../testFixtures';
+import { streamGroundingInsights } from './geminiService';
+import { rateLimiters } from './rateLimiter';
+
+// The first chunk carries the prompt, before any model call
+const getPrompt = async (provisioningModel: ProvisioningModel) => {
+  const { value } = await streamGroundingInsights({ ...mockState, provisioningModel }, undefined).next();
+  return value && value.type === 'debug' ? value.content.prompt : '';
+};
+
+describe('Grounding Prompt', () => {
+  it('only lists preemption items in the Spot checklist', async () => {
+    const spot = await getPrompt(ProvisioningModel.SPOT);
+    expect(spot).toContain('SIGTERM');
+    expect(spot).toContain('Compare Spot vs On-Demand availability');
+
+    const onDemand = await getPrompt(ProvisioningModel.STANDARD);
+    expect(onDemand).not.toContain('SIGTERM');
+    expect(onDemand).not.toContain('Spot');
+    expect(onDemand).toContain('**Capacity Guarantee:**');
+  });
+});
+
+describe('Gemini Rate Limiting', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('drops a cancelled request from the Gemini queue without spending a token', async () => {
+    vi.stubEnv('VITE_API_KEY', 'test-key');
+    while (rateLimiters.gemini.tryRequest()) { /* use up the bucket */ }
+
+    const controller = new AbortController();
+    const stream = streamGroundingInsights(mockState, undefined, controller.signal);
+    await stream.next(); // debug chunk
+    const pending = stream.next();
+    await vi.waitFor(() => expect(rateLimiters.gemini.getStatus().queued).toBe(1));
+
+    controller.abort();
+    expect(await pending).toEqual({ done: true, value: undefined });
+    expect(rateLimiters.gemini.getStatus().queued).toBe(0);
+  });
+});
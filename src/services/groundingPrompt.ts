@@ -0,0 +1,254 @@
+import { AppState, ProvisioningModel, TargetShape } from '../types';
+import { MachineTypeOption } from '../config';
+import { getRankedMachineTypes, getProvisioningModelLabel } from '../utils';
+import { MACHINE_TYPE_PATTERN, REGION_PATTERN, ZONE_PATTERN } from './proxyContract';
+
+/**
+ * Grounded AI Prompt
+ *
+ * Builds the Gemini research prompt from the capacity request. Shared by the browser and the
+ * backend proxy: the proxy accepts only the structured input below and builds the prompt itself,
+ * so its Gemini key cannot be used for arbitrary prompts.
+ */
+
+export const GROUNDING_MODEL = 'gemini-2.5-flash';
+
+/** The part of the configuration the prompt is built from. */
+export type GroundingPromptInput = Pick<AppState,
+  'region' | 'selectedMachineType' | 'alternativeMachineTypes' | 'size' | 'targetShape' | 'provisioningModel' |
+  'acceleratorType' | 'acceleratorCount' | 'includedZones' | 'excludedZones' | 'quotaCheck'>;
+
+export type GroundingMachineSpecs = Pick<MachineTypeOption, 'cores' | 'memory' | 'family' | 'accelerator'>;
+
+/** Copies just the prompt fields, so the proxy request never carries the token or other state. */
+export const toGroundingPromptInput = (state: GroundingPromptInput): GroundingPromptInput => ({
+  region: state.region,
+  selectedMachineType: state.selectedMachineType,
+  alternativeMachineTypes: state.alternativeMachineTypes,
+  size: state.size,
+  targetShape: state.targetShape,
+  provisioningModel: state.provisioningModel,
+  acceleratorType: state.acceleratorType,
+  acceleratorCount: state.acceleratorCount,
+  includedZones: state.includedZones,
+  excludedZones: state.excludedZones,
+  quotaCheck: state.quotaCheck
+});
+
+export const buildGroundingPrompt = (
+  state: GroundingPromptInput,
+  machineSpecs: GroundingMachineSpecs | undefined,
+  now: Date = new Date()
+): string => {
+  const today = now;
+  const dateString = today.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const timeString = today.toLocaleTimeString('en-US', { timeZoneName: 'short' });
+  
+  // Calculate Quota Requirements based on real specs
+  const vCPUsPerVM = machineSpecs?.cores || 2; // default safe fallback if undefined
+  const memoryPerVM = machineSpecs?.memory || 'Unknown';
+  const family = machineSpecs?.family || 'General Purpose';
+  const totalVCPUs = vCPUsPerVM * state.size;
+  const isOnDemand = state.provisioningModel === ProvisioningModel.STANDARD;
+  const modelLabel = getProvisioningModelLabel(state.provisioningModel);
+  // Real regional limits when the pre-flight check ran, the default-quota heuristic otherwise
+  const quotaCheck = state.quotaCheck;
+  const cpuCheck = quotaCheck?.checks.find(c => c.metric.endsWith('CPUS'));
+  const isHighQuota = totalVCPUs > 32;
+  const quotaName = cpuCheck?.metric || (isOnDemand ? 'CPUs' : 'Spot Preemptible vCPUs');
+  const quotaLines = quotaCheck && quotaCheck.checks.length > 0
+    ? quotaCheck.checks.map(c => `${c.metric}: limit ${c.limit}, in use ${c.usage}, ${c.available} available, ${c.required} required (${c.sufficient ? 'OK' : 'SHORTFALL'})`).join('; ')
+    : 'Not checked (verify limits manually).';
+  const quotaRiskLabel = cpuCheck
+    ? cpuCheck.sufficient ? `✅ Within Limit (${cpuCheck.available} available)` : `🚨 **EXCEEDS LIMIT** (${cpuCheck.available} available)`
+    : isHighQuota ? '🚨 **HIGH RISK** (Check Limit)' : '✅ Low Risk (Standard)';
+  const zonePolicyLine = [
+    state.includedZones.length > 0 ? `Only ${state.includedZones.join(', ')}` : '',
+    state.excludedZones.length > 0 ? `Never ${state.excludedZones.join(', ')}` : ''
+  ].filter(Boolean).join('; ') || 'Any zone in the region';
+  const builtInGpu = machineSpecs?.accelerator;
+  const gpuLine = state.acceleratorType
+    ? `${state.acceleratorCount}x ${state.acceleratorType} attached per VM (${state.acceleratorCount * state.size} GPUs total, consumes ${isOnDemand ? '' : 'Preemptible '}GPU quota).`
+    : builtInGpu
+      ? `${builtInGpu.count}x ${builtInGpu.type} built in per VM (${builtInGpu.count * state.size} GPUs total).`
+      : 'None';
+  const fallbackTypes = getRankedMachineTypes(state.selectedMachineType, state.alternativeMachineTypes).slice(1);
+  const fallbackLine = fallbackTypes.length > 0
+    ? fallbackTypes.map((type, idx) => `#${idx + 2} ${type}`).join(', ')
+    : 'None (single machine type)';
+  // Preemption handling and the On-Demand fallback only apply to Spot
+  const checklistItems = [
+    `**Quota Verification:** Check "${quotaName}" limit in IAM & Admin > Quotas.`,
+    ...(isOnDemand
+      ? [
+          `**Capacity Guarantee:** Create a reservation for ${state.size}x ${state.selectedMachineType} in ${state.region} if the launch date is fixed.`,
+          `**Budget:** Confirm the On-Demand budget is approved (committed use discounts apply to sustained usage).`
+        ]
+      : [
+          `**Fault Tolerance:** Ensure app handles \`SIGTERM\` for graceful shutdown.`,
+          `**Fallback Strategy:** Verify On-Demand or Reservation budget is approved.`
+        ])
+  ];
+  
+  return `
+### SYSTEM INSTRUCTION
+You are a **Google Cloud Principal Architect** acting as a ${modelLabel} Capacity Advisor.
+Your mandate is to validate the user's capacity request against real-world constraints using **official Google Cloud sources**.
+**Double-check your assumptions** using the provided tools. Do not guess—verify.
+
+**MANDATORY RESEARCH STEPS (Use Google Search):**
+1.  **Service Health:** Search for "Google Cloud Service Health Dashboard ${state.region} compute engine" to check for active incidents.
+2.  **Product Availability:** Search for "${state.selectedMachineType} availability ${state.region} google cloud documentation" to confirm it exists in this region.
+3.  **Regional Events:** Search for "Tech conferences holidays weather ${state.region} ${today.toLocaleString('default', { month: 'long' })} ${today.getFullYear()}" to assess demand spikes.
+4.  **Official Comms:** Search for "Google Cloud Compute Engine blog posts ${today.getFullYear()}" for recent ${isOnDemand ? 'capacity' : 'spot'} updates.
+5.  **Alternatives Analysis:** If ${state.selectedMachineType} is constrained, search for "Google Cloud Compute Engine machine type comparison ${family}" to find modern alternatives (e.g., C3, C4, N4, C4A, N2D). Compare their ${modelLabel} availability and price-performance.
+
+### REAL-TIME CONTEXT
+- **Current Time:** ${dateString} ${timeString}
+- **Request:** ${state.size} instances of **${state.selectedMachineType}** in **${state.region}**.
+- **Provisioning Model:** ${modelLabel} (${state.provisioningModel})${isOnDemand ? ' - no preemption risk, obtainability is the only concern.' : ' - preemptible, evaluate both obtainability and uptime.'}
+- **Deployment Type:** ${state.targetShape} (Affects distribution strategy).
+- **Zone Policy:** ${zonePolicyLine}
+- **Ranked Fallback Types:** ${fallbackLine} (The API may place shards on any of these if the primary is constrained).
+- **Hardware Specs:** ${vCPUsPerVM} vCPU / ${memoryPerVM} RAM per VM (${family}).
+- **GPU Accelerators:** ${gpuLine}
+- **Total Quota Impact:** This request consumes **${totalVCPUs} vCPUs** of ${quotaName} Quota.
+- **Regional Quota (live):** ${quotaLines}
+
+### RESPONSE FORMATTING RULES (STRICT MARKDOWN)
+- **Tables:** Must start and end with pipes (|).
+- **Headers:** Use \`###\` for section headers.
+- **Lists:** Use \`*\` or \`-\` for bullets.
+- **No JSON:** Do not output JSON. Output formatted Markdown.
+
+### RESPONSE TEMPLATE
+
+### ⚡ TL;DR Summary
+[Provide a 2-sentence executive summary of the feasibility and key risks. Start with "Feasible", "Risky", or "Not Recommended".]
+
+### 🛡️ Executive Assessment
+> **Verdict:** [Go / Caution / No-Go]
+[Synthesize the risk. ${cpuCheck
+  ? `State plainly whether the required **${totalVCPUs} vCPUs** fits the project's actual ${cpuCheck.metric} headroom of **${cpuCheck.available}** (limit ${cpuCheck.limit}).`
+  : `Mention specifically if the required **${totalVCPUs} vCPUs** exceeds typical default quotas (usually ~24-32 for new projects).`} ${isOnDemand ? 'State whether a reservation is advisable.' : 'Compare Spot vs On-Demand availability.'}]
+
+### 🔍 Verification & Grounding
+*   **GCP Health Status:** [Report findings from Service Health Dashboard search]
+*   **Regional Demand:** [Mention identified events/holidays or "No major events detected"]
+*   **Docs Validation:** [Confirm if ${state.selectedMachineType} is standard in ${state.region} based on docs]
+
+### 📊 Quota & Constraint Analysis
+| Constraint | Required | Risk Analysis |
+| :--- | :--- | :--- |
+| **${quotaName} Quota** | **${totalVCPUs}** vCPUs | ${quotaRiskLabel} |
+| **Instance Count** | ${state.size} VMs | ${state.size > 50 ? '⚠️ High Contention' : '✅ Manageable'} |
+| **Region** | ${state.region} | [Comment on region liquidity/size] |
+
+### ⚔️ Battlecard: Alternatives (If Constrained)
+*(Only populate if Verdict is Caution or No-Go. Otherwise, state "No alternatives necessary".)*
+
+| Alternative | Generation | Performance | ${isOnDemand ? 'On-Demand Cost' : 'Cost/Spot'} | Recommendation |
+| :--- | :--- | :--- | :--- | :--- |
+| **[Alt 1]** | [e.g. N4/C4] | [Comparison vs ${state.selectedMachineType}] | [Lower/Higher] | [Use Case] |
+| **[Alt 2]** | [e.g. N2D/T2D] | [Comparison vs ${state.selectedMachineType}] | [Lower/Higher] | [Use Case] |
+
+**Architect's Note:** [Briefly explain the trade-offs, e.g., "Moving to N2D offers better ${modelLabel} availability due to AMD EPYC density, while C4 provides better per-core performance if budget allows."]
+
+### 🛠️ Strategic Workarounds
+*   **Protocol 1: Diversify Hardware:**
+    *   *Alternative:* Use **[Suggest alternative family from Battlecard]** which often has deeper ${modelLabel} pools than ${state.selectedMachineType}.
+*   **Protocol 2: Architecture Adaptation:**
+    *   *Managed Instance Groups (MIGs):* Configure a MIG with multiple instance templates to fallback automatically.
+*   **Protocol 3: Spatial Distribution:**
+    *   *Region:* If ${state.region} is constrained, deploy payload to **[Suggest nearby region]**.
+    *   *Zone:* Enforce '${state.targetShape}' shape to spread the **${totalVCPUs} vCPU** load.
+*   **Protocol 4: Quota Management:**
+    *   *Action:* Request a quota increase for "${quotaName}" in ${state.region} immediately if limit is < ${totalVCPUs}.
+
+### 📋 Pre-Flight Checklist
+${checklistItems.map(item => `*   [ ] ${item}`).join('\n')}
+`;
+};
+
+const MACHINE_FAMILIES = ['General Purpose', 'Compute Optimized', 'Memory Optimized', 'Storage Optimized', 'Accelerator Optimized'];
+const ACCELERATOR_TYPE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const QUOTA_METRIC_PATTERN = /^[A-Z0-9_]+$/;
+const MEMORY_PATTERN = /^\d+(\.\d+)?\s?[GT]B$/;
+const MAX_LIST_LENGTH = 50;
+
+const isCount = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isList = (value: unknown, pattern: RegExp): value is string[] =>
+  Array.isArray(value) && value.length <= MAX_LIST_LENGTH && value.every(v => typeof v === 'string' && pattern.test(v));
+
+/**
+ * Validates an untrusted prompt input (the proxy's request body) field by field and copies only
+ * the known fields, so nothing but the app's own values reaches the prompt.
+ * @throws Error listing every problem found.
+ */
+export const parseGroundingPromptInput = (raw: any): { state: GroundingPromptInput; machineSpecs?: GroundingMachineSpecs } => {
+  const state = raw?.state ?? {};
+  const specs = raw?.machineSpecs;
+  const problems: string[] = [];
+
+  if (typeof state.region !== 'string' || !REGION_PATTERN.test(state.region)) problems.push('invalid region');
+  if (typeof state.selectedMachineType !== 'string' || !MACHINE_TYPE_PATTERN.test(state.selectedMachineType)) problems.push('invalid machine type');
+  if (!isList(state.alternativeMachineTypes, MACHINE_TYPE_PATTERN)) problems.push('invalid alternative machine types');
+  if (!isCount(state.size, 1, 9999)) problems.push('size must be a whole number from 1 to 9999');
+  if (!Object.values(TargetShape).includes(state.targetShape)) problems.push('invalid target shape');
+  if (!Object.values(ProvisioningModel).includes(state.provisioningModel)) problems.push('invalid provisioning model');
+  if (typeof state.acceleratorType !== 'string' || (state.acceleratorType !== '' && !ACCELERATOR_TYPE_PATTERN.test(state.acceleratorType))) problems.push('invalid accelerator type');
+  if (!isCount(state.acceleratorCount, 0, 16)) problems.push('invalid accelerator count');
+  if (!isList(state.includedZones, ZONE_PATTERN) || !isList(state.excludedZones, ZONE_PATTERN)) problems.push('invalid zones');
+
+  const quotaCheck = state.quotaCheck;
+  if (quotaCheck !== null && quotaCheck !== undefined) {
+    const validChecks = Array.isArray(quotaCheck.checks) && quotaCheck.checks.length <= MAX_LIST_LENGTH && quotaCheck.checks.every((c: any) =>
+      typeof c?.metric === 'string' && QUOTA_METRIC_PATTERN.test(c.metric) &&
+      [c.limit, c.usage, c.required, c.available].every(Number.isFinite) &&
+      typeof c.sufficient === 'boolean');
+    if (!validChecks || typeof quotaCheck.sufficient !== 'boolean') problems.push('invalid quota check');
+  }
+
+  if (specs !== undefined) {
+    const validAccelerator = specs.accelerator === undefined ||
+      (typeof specs.accelerator?.type === 'string' && ACCELERATOR_TYPE_PATTERN.test(specs.accelerator.type) && isCount(specs.accelerator.count, 1, 16));
+    if (!isCount(specs.cores, 1, 1024) || typeof specs.memory !== 'string' || !MEMORY_PATTERN.test(specs.memory) ||
+        !MACHINE_FAMILIES.includes(specs.family) || !validAccelerator) {
+      problems.push('invalid machine specs');
+    }
+  }
+
+  if (problems.length > 0) throw new Error(`${problems.join('; ')}.`);
+
+  return {
+    state: {
+      region: state.region,
+      selectedMachineType: state.selectedMachineType,
+      alternativeMachineTypes: [...state.alternativeMachineTypes],
+      size: state.size,
+      targetShape: state.targetShape,
+      provisioningModel: state.provisioningModel,
+      acceleratorType: state.acceleratorType,
+      acceleratorCount: state.acceleratorCount,
+      includedZones: [...state.includedZones],
+      excludedZones: [...state.excludedZones],
+      quotaCheck: quotaCheck
+        ? {
+            region: state.region,
+            checks: quotaCheck.checks.map((c: any) => ({ metric: c.metric, limit: c.limit, usage: c.usage, required: c.required, available: c.available, sufficient: c.sufficient })),
+            sufficient: quotaCheck.sufficient
+          }
+        : null
+    },
+    ...(specs !== undefined ? {
+      machineSpecs: {
+        cores: specs.cores,
+        memory: specs.memory,
+        family: specs.family,
+        ...(specs.accelerator ? { accelerator: { type: specs.accelerator.type, count: specs.accelerator.count } } : {})
+      }
+    } : {})
+  };
+};
@@ -0,0 +1,57 @@
+/**
+ * Local IndexedDB database shared by the scenario library and the run history.
+ */
+
+const DB_NAME = 'capacity-advisor';
+// v1: scenarios, v2: runs
+const DB_VERSION = 2;
+
+export const STORES = {
+  scenarios: 'scenarios',
+  runs: 'runs'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Could not open the local database.'));
+    });
+    // Let a later call retry (e.g. after the user leaves private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `work` in a transaction on one store and resolves with its request's result once the transaction commits.
+ */
+export const runTransaction = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error || new Error('Local database transaction failed.'));
+    tx.onabort = () => reject(tx.error || new Error('Local database transaction was aborted.'));
+  });
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockState, mockFetchResponse } from '../testFixtures';
+import { apiRequestCache } from './requestCache';
+import { runMultiRegionAnalysis } from './multiRegionService';
+
+describe('Multi-region Fan-out', () => {
+  beforeEach(() => apiRequestCache.clear());
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('runMultiRegionAnalysis records failing regions inline and merges the rest', async () => {
+     mockFetchResponse((url) => url.includes('/regions/europe-west4/')
+       ? { ok: false, status: 503, data: { error: { message: "Service Unavailable" } } }
+       : { ok: true, status: 200, data: { recommendations: [{ scores: [{ name: 'obtainability', value: url.includes('/regions/europe-west1/') ? 0.4 : 0.8 }], shards: [] }] } });
+
+     // The failing region retries with backoff; run those waits instantly
+     vi.useFakeTimers();
+     const run = runMultiRegionAnalysis(['europe-west1', 'europe-west4', 'europe-west3'], { ...mockState, mockMode: false });
+     await vi.runAllTimersAsync();
+     const { response, regions } = await run;
+     expect(regions.map(r => r.status)).toEqual(['success', 'error', 'success']);
+     expect(regions[1].error).toContain('Service Unavailable');
+     expect(response.recommendations.map(r => r.scores[0].value)).toEqual([0.8, 0.4]);
+  });
+});
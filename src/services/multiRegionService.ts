@@ -0,0 +1,123 @@
+import { AppState, CapacityAdvisorResponse, NetworkLogEntry, Recommendation, RegionRunResult } from '../types';
+import { MachineTypeOption } from '../config';
+import { createAbortError, getFriendlyErrorMessage, getErrorStatus, getGuestAccelerators, isAbortError } from '../utils';
+import { fetchAllZonesCapacity } from './apiService';
+import { generateMockRecommendationsWithShape } from './simulationEngine';
+import { rateLimiters } from './rateLimiter';
+
+type NetworkLogCallback = (entry: NetworkLogEntry) => void;
+
+// Upper bound on in-flight capacity advice calls, regardless of limiter headroom.
+const MAX_CONCURRENCY = 4;
+const MOCK_LATENCY_MS = 400;
+
+export interface MultiRegionRunOptions {
+  machineDetails?: MachineTypeOption;
+  signal?: AbortSignal;
+  onNetworkLog?: NetworkLogCallback;
+  /** Fired as each region settles, in completion order. */
+  onRegionComplete?: (result: RegionRunResult) => void;
+}
+
+export interface MultiRegionRunResult {
+  response: CapacityAdvisorResponse;
+  regions: RegionRunResult[];
+}
+
+const getObtainability = (rec: Recommendation): number =>
+  rec.scores.find(s => s.name === 'obtainability')?.value || 0;
+
+/**
+ * Number of regions queried in parallel: bounded by the remaining rate limiter budget.
+ */
+export const getFanOutConcurrency = (regionCount: number, mockMode: boolean): number => {
+  const budget = mockMode ? MAX_CONCURRENCY : rateLimiters.capacityAdvice.getStatus().remaining;
+  return Math.max(1, Math.min(MAX_CONCURRENCY, regionCount, budget));
+};
+
+/**
+ * Merges per-region responses into one cross-region ranking (by obtainability).
+ */
+export const mergeRegionResponses = (responses: CapacityAdvisorResponse[]): CapacityAdvisorResponse => ({
+  recommendations: responses
+    .flatMap(r => r.recommendations || [])
+    .sort((a, b) => getObtainability(b) - getObtainability(a))
+});
+
+const queryRegion = async (
+  region: string,
+  state: AppState,
+  options: MultiRegionRunOptions
+): Promise<CapacityAdvisorResponse> => {
+  // Zone policies are region-specific and don't apply to a fan-out
+  const regionState: AppState = { ...state, region, includedZones: [], excludedZones: [] };
+
+  if (state.mockMode) {
+    await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+    if (options.signal?.aborted) throw createAbortError();
+    return generateMockRecommendationsWithShape(region, state.selectedMachineType, options.machineDetails, state.size, state.targetShape, {
+      alternativeMachineTypes: state.alternativeMachineTypes,
+      provisioningModel: state.provisioningModel,
+      guestAccelerators: getGuestAccelerators(state.acceleratorType, state.acceleratorCount)
+    });
+  }
+
+  return fetchAllZonesCapacity(state.accessToken, state.project, region, regionState, options.signal, options.onNetworkLog);
+};
+
+/**
+ * Fan-out Capacity Analysis
+ * Queries every region concurrently (within the rate limiter budget) and merges the results.
+ * A failing region is recorded inline and never aborts the rest of the run.
+ */
+export const runMultiRegionAnalysis = async (
+  regions: string[],
+  state: AppState,
+  options: MultiRegionRunOptions = {}
+): Promise<MultiRegionRunResult> => {
+  const queue = [...regions];
+  const results: RegionRunResult[] = [];
+  const responses: CapacityAdvisorResponse[] = [];
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      if (options.signal?.aborted) throw createAbortError();
+      const region = queue.shift()!;
+      const startTime = Date.now();
+      let result: RegionRunResult;
+
+      try {
+        const response = await queryRegion(region, state, options);
+        responses.push(response);
+        result = {
+          region,
+          status: 'success',
+          recommendationCount: response.recommendations.length,
+          topObtainability: Math.max(0, ...response.recommendations.map(getObtainability)),
+          latencyMs: Date.now() - startTime
+        };
+      } catch (error: any) {
+        if (isAbortError(error)) throw error;
+        result = {
+          region,
+          status: 'error',
+          recommendationCount: 0,
+          topObtainability: 0,
+          latencyMs: Date.now() - startTime,
+          error: getFriendlyErrorMessage(getErrorStatus(error), error.message)
+        };
+      }
+
+      results.push(result);
+      options.onRegionComplete?.(result);
+    }
+  };
+
+  const concurrency = getFanOutConcurrency(regions.length, state.mockMode);
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  // Keep the summary in the order the regions were requested
+  results.sort((a, b) => regions.indexOf(a.region) - regions.indexOf(b.region));
+
+  return { response: mergeRegionResponses(responses), regions: results };
+};
@@ -0,0 +1,63 @@
+import { DEFAULT_PROXY_BASE_URL, GeminiProxyChunk, GeminiProxyRequest, PROXY_ROUTES, ProxyQuery, buildProxyUrl } from './proxyContract';
+
+/**
+ * Browser side of the backend proxy. With VITE_USE_PROXY=true the Compute and Gemini calls go
+ * to the proxy, which holds the credentials; no access token or API key is needed in the browser.
+ */
+
+// import.meta.env only exists in the Vite build; the CLI runs these services under plain Node
+export const isProxyEnabled = (): boolean => import.meta.env?.VITE_USE_PROXY === 'true';
+
+export const getProxyBaseUrl = (): string =>
+  (import.meta.env.VITE_PROXY_BASE_URL || DEFAULT_PROXY_BASE_URL).replace(/\/$/, '');
+
+export const proxyUrl = (route: string, query?: ProxyQuery): string =>
+  buildProxyUrl(getProxyBaseUrl(), route, query);
+
+/**
+ * Streams Gemini output through the proxy, shaped like the SDK's stream chunks.
+ * A proxied error is rethrown with its status so callers handle it like an SDK error.
+ */
+export async function* streamGeminiViaProxy(
+  request: GeminiProxyRequest,
+  signal?: AbortSignal
+): AsyncGenerator<{ text?: string; candidates?: { groundingMetadata?: any }[] }, void, unknown> {
+  const response = await fetch(proxyUrl(PROXY_ROUTES.geminiStream), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    const error: any = new Error(await response.text().catch(() => '') || `HTTP ${response.status} Error`);
+    error.status = response.status;
+    throw error;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const chunk = JSON.parse(line) as GeminiProxyChunk;
+      if (chunk.type === 'error') {
+        const error: any = new Error(chunk.message);
+        error.status = chunk.status;
+        throw error;
+      }
+      yield chunk.type === 'text'
+        ? { text: chunk.content }
+        : { candidates: [{ groundingMetadata: chunk.content }] };
+    }
+    if (done) return;
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { PROXY_ROUTES, PROJECT_ID_PATTERN, REGION_PATTERN, buildProxyUrl } from './proxyContract';
+
+describe('Backend Proxy', () => {
+  it('builds proxy routes with the project and region as query parameters', () => {
+     expect(buildProxyUrl('/api', PROXY_ROUTES.machineTypes, { project: 'my-project', region: 'us-central1' })).toBe('/api/machine-types?project=my-project&region=us-central1');
+     expect(buildProxyUrl('/api', PROXY_ROUTES.regions, { project: 'my-project', region: undefined })).toBe('/api/regions?project=my-project');
+     expect(buildProxyUrl('/api', PROXY_ROUTES.capacityAdvice)).toBe('/api/capacity-advice');
+  });
+
+  it('rejects project and region values that could alter the upstream path', () => {
+     expect(PROJECT_ID_PATTERN.test('my-project-123')).toBe(true);
+     expect(PROJECT_ID_PATTERN.test('example.com:my-project')).toBe(true);
+     expect(PROJECT_ID_PATTERN.test('my-project/../other')).toBe(false);
+     expect(REGION_PATTERN.test('europe-west4')).toBe(true);
+     expect(REGION_PATTERN.test('us-central1/zones')).toBe(false);
+  });
+});
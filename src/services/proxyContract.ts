@@ -0,0 +1,64 @@
+import { CapacityAdvisorRequest } from '../types';
+import { GroundingMachineSpecs, GroundingPromptInput } from './groundingPrompt';
+
+/**
+ * Route contract between the SPA and the backend proxy (server/index.ts).
+ *
+ * Compute routes answer with the unmodified Compute Engine JSON (or its error body and status),
+ * so the frontend parses proxied and direct responses the same way.
+ */
+
+export const DEFAULT_PROXY_BASE_URL = '/api';
+
+export const PROXY_ROUTES = {
+  /** POST CapacityAdviceProxyRequest -> CapacityAdvisorResponse */
+  capacityAdvice: '/capacity-advice',
+  /** GET ?project -> regions.list (list routes also pass maxResults / pageToken through) */
+  regions: '/regions',
+  /** GET ?project&region -> regions.get (quotas) */
+  region: '/region',
+  /** GET ?project&region -> aggregated machineTypes for the region's zones */
+  machineTypes: '/machine-types',
+  /** GET ?project -> aggregated acceleratorTypes */
+  acceleratorTypes: '/accelerator-types',
+  /** POST GeminiProxyRequest -> newline-delimited GeminiProxyChunk stream (the proxy builds the prompt) */
+  geminiStream: '/gemini/stream',
+  /** GET -> { status: 'ok' } */
+  health: '/health'
+} as const;
+
+export interface ProxyQuery {
+  project: string;
+  region?: string;
+}
+
+export interface CapacityAdviceProxyRequest {
+  project: string;
+  region: string;
+  request: CapacityAdvisorRequest;
+}
+
+/** The structured prompt input; the proxy never accepts a free-form prompt or model. */
+export interface GeminiProxyRequest {
+  state: GroundingPromptInput;
+  machineSpecs?: GroundingMachineSpecs;
+}
+
+export type GeminiProxyChunk =
+  | { type: 'text'; content: string }
+  | { type: 'metadata'; content: any }
+  | { type: 'error'; status: number | string; message: string };
+
+// GCP project ID as the app accepts it: 6-30 chars, lowercase, digits, hyphens.
+export const PROJECT_ID_REGEX = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+// Compute resource names; anything else is rejected before it reaches a URL path.
+export const PROJECT_ID_PATTERN = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$|^[a-z0-9.-]+:[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+export const REGION_PATTERN = /^[a-z]+-[a-z]+\d+$/;
+export const ZONE_PATTERN = /^[a-z]+-[a-z]+\d+-[a-z]$/;
+export const MACHINE_TYPE_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)+$/;
+
+export const buildProxyUrl = (baseUrl: string, route: string, query?: ProxyQuery): string => {
+  const params = query ? new URLSearchParams(Object.entries(query).filter(([, v]) => v !== undefined) as [string, string][]) : null;
+  return `${baseUrl}${route}${params ? `?${params.toString()}` : ''}`;
+};
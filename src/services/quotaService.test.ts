@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { ProvisioningModel } from '../types';
+import { MACHINE_TYPES } from '../config';
+import { mockState } from '../testFixtures';
+import { generateCSV } from '../export';
+import { evaluateQuota, getQuotaRequirements, getAcceleratorQuotaMetric } from './quotaService';
+
+describe('Quota Pre-check', () => {
+  const n1 = MACHINE_TYPES.find(m => m.id === 'n1-standard-4')!;
+
+  it('falls back from a zero PREEMPTIBLE_CPUS limit to CPUS for Spot', () => {
+     const quotas = [{ metric: 'PREEMPTIBLE_CPUS', limit: 0, usage: 0 }, { metric: 'CPUS', limit: 24, usage: 8 }];
+     const check = evaluateQuota('us-central1', quotas, getQuotaRequirements({ ...mockState, selectedMachineType: n1.id, size: 5 }, n1));
+     expect(check.checks).toEqual([{ metric: 'CPUS', limit: 24, usage: 8, required: 20, available: 16, sufficient: false }]);
+     expect(check.sufficient).toBe(false);
+  });
+
+  it('checks attached GPUs against the matching accelerator quota', () => {
+     expect(getAcceleratorQuotaMetric('nvidia-tesla-t4', true)).toBe('PREEMPTIBLE_NVIDIA_T4_GPUS');
+     const quotas = [{ metric: 'CPUS', limit: 100, usage: 0 }, { metric: 'NVIDIA_T4_GPUS', limit: 8, usage: 0 }];
+     const state = { ...mockState, selectedMachineType: n1.id, size: 4, acceleratorType: 'nvidia-tesla-t4', acceleratorCount: 2, provisioningModel: ProvisioningModel.STANDARD };
+     const check = evaluateQuota('us-central1', quotas, getQuotaRequirements(state, n1));
+     expect(check.checks.map(c => [c.metric, c.required, c.sufficient])).toEqual([['CPUS', 16, true], ['NVIDIA_T4_GPUS', 8, true]]);
+     expect(check.sufficient).toBe(true);
+  });
+
+  it('puts the quota verdict ahead of the placements in the CSV export', () => {
+     const quotaCheck = evaluateQuota('us-central1', [{ metric: 'CPUS', limit: 24, usage: 8 }], getQuotaRequirements({ ...mockState, selectedMachineType: n1.id, size: 5 }, n1));
+     const result = { recommendations: [{ scores: [{ name: 'obtainability', value: 0.8 }], shards: [{ location: 'zones/us-central1-a', machineType: n1.id, provisioningModel: ProvisioningModel.SPOT, count: 5 }] }] };
+     const lines = generateCSV(result, { ...mockState, quotaCheck }).split('\n');
+     expect(lines.slice(0, 4)).toEqual(['Quota Check,Insufficient', 'Metric,Limit,In Use,Required,Verdict', 'CPUS,24,8,20,Short by 4', '']);
+     expect(lines[4]).toMatch(/^Location,/);
+     expect(generateCSV(result, mockState).split('\n')[0]).toMatch(/^Location,/);
+  });
+});
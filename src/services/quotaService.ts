@@ -0,0 +1,97 @@
+import { AppState, NetworkLogEntry, ProvisioningModel, QuotaCheckResult, QuotaMetricCheck, RegionQuota } from '../types';
+import { MachineTypeOption } from '../config';
+import { getMachineTypeSeries } from '../utils';
+import { fetchRegionQuotas } from './apiService';
+
+type NetworkLogCallback = (entry: NetworkLogEntry) => void;
+
+// Series that draw on the generic CPUS quota instead of a per-series <SERIES>_CPUS metric.
+const GENERIC_CPU_SERIES = ['N1', 'E2', 'F1', 'G1'];
+
+export interface QuotaRequirement {
+  metric: string;
+  required: number;
+  /** Checked instead when the primary metric is missing or has a zero limit. */
+  fallbackMetric?: string;
+}
+
+/**
+ * Regional GPU quota metric for an accelerator type, e.g. nvidia-tesla-t4 -> NVIDIA_T4_GPUS.
+ */
+export const getAcceleratorQuotaMetric = (acceleratorType: string, preemptible: boolean): string => {
+  const name = acceleratorType.replace(/^nvidia-(tesla-)?/, '').replace(/-/g, '_').toUpperCase();
+  return `${preemptible ? 'PREEMPTIBLE_' : ''}NVIDIA_${name}_GPUS`;
+};
+
+/**
+ * Quota metrics a request consumes: vCPUs (cores x size) plus GPUs when attached or built in.
+ * Spot VMs draw on the preemptible quotas, falling back to the standard ones when a project has none.
+ */
+export const getQuotaRequirements = (state: AppState, machineDetails?: MachineTypeOption): QuotaRequirement[] => {
+  const isSpot = state.provisioningModel === ProvisioningModel.SPOT;
+  const requirements: QuotaRequirement[] = [];
+
+  if (machineDetails) {
+    const series = getMachineTypeSeries(machineDetails.id);
+    const cpuMetric = GENERIC_CPU_SERIES.includes(series) ? 'CPUS' : `${series}_CPUS`;
+    const required = machineDetails.cores * state.size;
+    requirements.push(isSpot
+      ? { metric: 'PREEMPTIBLE_CPUS', required, fallbackMetric: cpuMetric }
+      : { metric: cpuMetric, required, fallbackMetric: cpuMetric === 'CPUS' ? undefined : 'CPUS' });
+  }
+
+  const gpu = state.acceleratorType
+    ? { type: state.acceleratorType, count: state.acceleratorCount }
+    : machineDetails?.accelerator;
+  if (gpu) {
+    const metric = getAcceleratorQuotaMetric(gpu.type, false);
+    requirements.push(isSpot
+      ? { metric: getAcceleratorQuotaMetric(gpu.type, true), required: gpu.count * state.size, fallbackMetric: metric }
+      : { metric, required: gpu.count * state.size });
+  }
+
+  return requirements;
+};
+
+/**
+ * Compares each requirement against the region's quota headroom (limit - usage).
+ * Requirements whose metric isn't reported by the region are left out of the verdict.
+ */
+export const evaluateQuota = (region: string, quotas: RegionQuota[], requirements: QuotaRequirement[]): QuotaCheckResult => {
+  const byMetric = new Map(quotas.map(q => [q.metric, q]));
+  const checks: QuotaMetricCheck[] = [];
+
+  for (const requirement of requirements) {
+    let quota = byMetric.get(requirement.metric);
+    if ((!quota || quota.limit === 0) && requirement.fallbackMetric) {
+      quota = byMetric.get(requirement.fallbackMetric) || quota;
+    }
+    if (!quota) continue;
+
+    const available = Math.max(0, quota.limit - quota.usage);
+    checks.push({
+      metric: quota.metric,
+      limit: quota.limit,
+      usage: quota.usage,
+      required: requirement.required,
+      available,
+      sufficient: requirement.required <= available
+    });
+  }
+
+  return { region, checks, sufficient: checks.every(c => c.sufficient) };
+};
+
+/**
+ * Pre-flight Quota Check
+ * Reads the target region's quotas and reports whether the request fits in the remaining headroom.
+ */
+export const checkRegionQuota = async (
+  state: AppState,
+  machineDetails: MachineTypeOption | undefined,
+  signal?: AbortSignal,
+  onNetworkLog?: NetworkLogCallback
+): Promise<QuotaCheckResult> => {
+  const quotas = await fetchRegionQuotas(state.accessToken, state.project, state.region, signal, onNetworkLog);
+  return evaluateQuota(state.region, quotas, getQuotaRequirements(state, machineDetails));
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('Rate Limiter Queue', () => {
+  it('queues requests over the limit, interactive ahead of background, and drops aborted ones', async () => {
+     const limiter = new RateLimiter(1, 0.05);
+     const order: string[] = [];
+     await limiter.acquire();
+
+     const background = limiter.acquire(undefined, 'background').then(() => order.push('background'));
+     const controller = new AbortController();
+     const cancelled = limiter.acquire(controller.signal).catch((e: Error) => order.push(e.name));
+     const interactive = limiter.acquire().then(() => order.push('interactive'));
+     expect(limiter.getStatus().queued).toBe(3);
+
+     controller.abort();
+     await Promise.all([background, cancelled, interactive]);
+     expect(order).toEqual(['AbortError', 'interactive', 'background']);
+     expect(limiter.getStatus().queued).toBe(0);
+  });
+
+  it('shares a bucket between tabs over a BroadcastChannel', async () => {
+     const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+     const firstTab = new RateLimiter(5, 60, 'rate-limit:test');
+     firstTab.tryRequest();
+     firstTab.tryRequest();
+     await settle();
+
+     // A newly opened tab adopts the level of the busiest one, and consumption propagates both ways
+     const secondTab = new RateLimiter(5, 60, 'rate-limit:test');
+     await settle();
+     expect(secondTab.getStatus().remaining).toBe(3);
+     secondTab.tryRequest();
+     await settle();
+     expect(firstTab.getStatus().remaining).toBe(2);
+  });
+});
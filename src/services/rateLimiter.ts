@@ -1,22 +1,96 @@
+import { createAbortError } from '../utils';
+
 /**
  * Client-Side Rate Limiter (Token Bucket Algorithm)
  * 
- * Implements a strict limit of 60 requests per 60 seconds to prevent
- * API abuse and ensure production stability.
+ * Each endpoint class has its own bucket (see RATE_LIMITS): 60 capacity advice
+ * requests, 120 list and metadata requests and 10 Gemini requests per 60
+ * seconds. Requests over a limit wait in that bucket's queue (interactive
+ * ahead of background, FIFO within each) until a token frees up.
+ *
+ * Open tabs share every bucket: consumption is broadcast over a
+ * BroadcastChannel so N tabs together stay within one tab's limit.
  */
 
-class RateLimiter {
+/** Interactive runs jump ahead of background metadata refreshes. */
+export type RequestPriority = 'interactive' | 'background';
+
+/** Endpoint classes with independent limits. */
+export type RateLimitBucket = 'capacityAdvice' | 'list' | 'gemini';
+
+export const RATE_LIMITS: Record<RateLimitBucket, { maxRequests: number; windowSeconds: number; label: string }> = {
+  capacityAdvice: { maxRequests: 60, windowSeconds: 60, label: 'Capacity Advice' },
+  list: { maxRequests: 120, windowSeconds: 60, label: 'List & Metadata' },
+  gemini: { maxRequests: 10, windowSeconds: 60, label: 'Gemini' }
+};
+
+export interface RateLimiterStatus {
+  /** Bucket size (requests per window). */
+  limit: number;
+  remaining: number;
+  resetInSeconds: number;
+  /** Requests waiting for a token. */
+  queued: number;
+  /** Epoch ms when the next token becomes available (now if one is available). */
+  nextTokenAt: number;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+type SyncMessage =
+  | { type: 'consume' }
+  | { type: 'hello' }
+  | { type: 'state'; tokens: number };
+
+export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
   private readonly maxTokens: number;
   private readonly refillRate: number; // Tokens per ms
+  private queue: QueuedRequest[] = [];
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private channel: BroadcastChannel | null = null;
 
-  constructor(maxRequests: number, timeWindowSeconds: number) {
+  /**
+   * @param channelName Shares the bucket with other tabs through this BroadcastChannel (omit for a local bucket).
+   */
+  constructor(maxRequests: number, timeWindowSeconds: number, channelName?: string) {
     this.maxTokens = maxRequests;
     this.tokens = maxRequests;
     this.lastRefill = Date.now();
     // Calculate how many tokens to add per millisecond
     this.refillRate = maxRequests / (timeWindowSeconds * 1000);
+
+    if (channelName && typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(channelName);
+      // Never keep a Node process (tests, CLI) alive just for tab sync; browsers have no unref
+      if ('unref' in channel && typeof channel.unref === 'function') channel.unref();
+      this.channel = channel;
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => this.onSyncMessage(event.data);
+      // A new tab adopts the lowest level among the open ones
+      this.channel.postMessage({ type: 'hello' } satisfies SyncMessage);
+    }
+  }
+
+  private onSyncMessage(message: SyncMessage) {
+    this.refill();
+    if (message.type === 'consume') {
+      // May go negative when tabs race for the last token; the debt refills like any other
+      this.tokens -= 1;
+    } else if (message.type === 'hello') {
+      this.channel?.postMessage({ type: 'state', tokens: this.tokens } satisfies SyncMessage);
+      return;
+    } else if (message.type === 'state') {
+      this.tokens = Math.min(this.tokens, message.tokens);
+    }
+    this.notify();
   }
 
   /**
@@ -42,23 +116,92 @@ class RateLimiter {
 
     if (this.tokens >= 1) {
       this.tokens -= 1;
+      this.channel?.postMessage({ type: 'consume' } satisfies SyncMessage);
+      this.notify();
       return true;
     }
 
     return false;
   }
 
+  /**
+   * Waits for a token. Resolves immediately when one is free and nobody is queued;
+   * rejects with an AbortError if the signal fires while waiting.
+   */
+  public acquire(signal?: AbortSignal, priority: RequestPriority = 'interactive'): Promise<void> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+    if (this.queue.length === 0 && this.tryRequest()) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = { priority, resolve, reject, signal };
+      request.onAbort = () => {
+        this.queue = this.queue.filter(q => q !== request);
+        reject(createAbortError());
+        this.notify();
+      };
+      signal?.addEventListener('abort', request.onAbort, { once: true });
+
+      const firstBackground = priority === 'interactive' ? this.queue.findIndex(q => q.priority === 'background') : -1;
+      if (firstBackground === -1) this.queue.push(request);
+      else this.queue.splice(firstBackground, 0, request);
+
+      this.notify();
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Hands freed tokens to queued requests in order, then waits for the next refill.
+   */
+  private drain() {
+    this.drainTimer = null;
+    let released = false;
+    while (this.queue.length > 0 && this.tryRequest()) {
+      const next = this.queue.shift()!;
+      if (next.onAbort) next.signal?.removeEventListener('abort', next.onAbort);
+      next.resolve();
+      released = true;
+    }
+    if (released) this.notify();
+    this.scheduleDrain();
+  }
+
+  private scheduleDrain() {
+    if (this.drainTimer !== null || this.queue.length === 0) return;
+    this.drainTimer = setTimeout(() => this.drain(), Math.max(0, this.getStatus().nextTokenAt - Date.now()));
+  }
+
+  /**
+   * Registers a listener for queue changes; returns the unsubscribe function.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
   /**
    * Returns metadata about the current limit status.
    */
-  public getStatus() {
+  public getStatus(): RateLimiterStatus {
     this.refill();
+    const now = Date.now();
     return {
-      remaining: Math.floor(this.tokens),
-      resetInSeconds: Math.ceil((1 - this.tokens) / (this.refillRate * 1000))
+      limit: this.maxTokens,
+      remaining: Math.max(0, Math.floor(this.tokens)),
+      resetInSeconds: Math.ceil((1 - this.tokens) / (this.refillRate * 1000)),
+      queued: this.queue.length,
+      nextTokenAt: this.tokens >= 1 ? now : now + Math.ceil((1 - this.tokens) / this.refillRate)
     };
   }
 }
 
-// Singleton instance configured for 60 requests in 60 seconds
-export const apiRateLimiter = new RateLimiter(60, 60);
+// One shared bucket per endpoint class (see RATE_LIMITS)
+export const rateLimiters: Record<RateLimitBucket, RateLimiter> = {
+  capacityAdvice: new RateLimiter(RATE_LIMITS.capacityAdvice.maxRequests, RATE_LIMITS.capacityAdvice.windowSeconds, 'rate-limit:capacityAdvice'),
+  list: new RateLimiter(RATE_LIMITS.list.maxRequests, RATE_LIMITS.list.windowSeconds, 'rate-limit:list'),
+  gemini: new RateLimiter(RATE_LIMITS.gemini.maxRequests, RATE_LIMITS.gemini.windowSeconds, 'rate-limit:gemini')
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { RequestCache } from './requestCache';
+
+describe('Request Cache', () => {
+  it('keeps one-off entries within its capacity', async () => {
+     const cache = new RequestCache(2);
+     for (const key of ['a', 'b', 'c', 'd', 'e']) {
+       await cache.get(key, 60_000, () => Promise.resolve(key));
+     }
+     expect(cache.size()).toBe(2);
+  });
+
+  it('evicts the least recently used response beyond its capacity', async () => {
+     const cache = new RequestCache(2);
+     const outcomes: string[] = [];
+     await cache.get('a', 60_000, () => Promise.resolve('a'));
+     await cache.get('b', 60_000, () => Promise.resolve('b'));
+     // Reading "a" makes "b" the least recently used
+     await cache.get('a', 60_000, () => Promise.resolve('a'));
+     await cache.get('c', 60_000, () => Promise.resolve('c'));
+
+     await cache.get('a', 60_000, () => Promise.resolve('a'), undefined, o => outcomes.push(o));
+     await cache.get('b', 60_000, () => Promise.resolve('b'), undefined, o => outcomes.push(o));
+     expect(outcomes).toEqual(['hit', 'miss']);
+     expect(cache.size()).toBe(2);
+  });
+
+  it('never evicts a request that is still in flight', async () => {
+     const cache = new RequestCache(1);
+     let release: (value: string) => void = () => {};
+     const pending = cache.get('slow', 60_000, () => new Promise<string>(resolve => { release = resolve; }));
+     await cache.get('fast', 60_000, () => Promise.resolve('fast'));
+
+     const outcomes: string[] = [];
+     const shared = cache.get('slow', 60_000, () => Promise.resolve('duplicate'), undefined, o => outcomes.push(o));
+     release('slow');
+     expect(await Promise.all([pending, shared])).toEqual(['slow', 'slow']);
+     expect(outcomes).toEqual(['shared']);
+  });
+});
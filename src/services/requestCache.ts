@@ -0,0 +1,157 @@
+import { createAbortError } from '../utils';
+
+/**
+ * In-Memory Response Cache
+ *
+ * Successful responses are kept for a per-endpoint TTL, keyed by method, URL, body and
+ * credential. Identical requests made while one is in flight share its response instead of
+ * hitting the API again (e.g. a double-clicked "Run"). Failures are never cached.
+ *
+ * Expired entries are swept whenever a new one is stored, and the cache holds at most
+ * MAX_CACHE_ENTRIES responses, evicting the least recently used.
+ */
+
+export const CACHE_TTLS = {
+  regions: 30 * 60 * 1000,
+  machineTypes: 30 * 60 * 1000,
+  acceleratorTypes: 30 * 60 * 1000,
+  quotas: 60 * 1000,
+  // Obtainability moves quickly; only absorbs duplicate submits
+  capacityAdvice: 5 * 1000
+};
+
+export const MAX_CACHE_ENTRIES = 200;
+
+export type CacheOutcome = 'hit' | 'shared' | 'miss';
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  /** Set once the response arrives; until then the entry is in flight. */
+  expiresAt: number | null;
+  /** Callers still waiting on the in-flight request. */
+  waiters: number;
+  controller: AbortController;
+}
+
+/**
+ * Cache key for a request; the token tail keeps different credentials from sharing entries.
+ */
+export const getCacheKey = (method: string, url: string, body: any | null, accessToken: string): string =>
+  `${method} ${url} ${body ? JSON.stringify(body) : ''} ${accessToken.slice(-16)}`;
+
+export class RequestCache {
+  // Map order doubles as recency: hits are moved to the end, eviction starts at the front
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = MAX_CACHE_ENTRIES) {}
+
+  /**
+   * Returns the cached or in-flight response for `key`, or runs `fetcher` and caches its result for `ttlMs`.
+   * The shared request is cancelled only when every caller waiting on it has aborted.
+   */
+  public async get<T>(
+    key: string,
+    ttlMs: number,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    onOutcome?: (outcome: CacheOutcome) => void
+  ): Promise<T> {
+    if (signal?.aborted) throw createAbortError();
+
+    let entry = this.entries.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      entry = undefined;
+    }
+
+    if (entry) {
+      onOutcome?.(entry.expiresAt === null ? 'shared' : 'hit');
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    } else {
+      onOutcome?.('miss');
+      this.evict();
+      const controller = new AbortController();
+      const created: CacheEntry = { promise: Promise.resolve(), expiresAt: null, waiters: 0, controller };
+      created.promise = fetcher(controller.signal).then(
+        data => {
+          created.expiresAt = Date.now() + ttlMs;
+          return data;
+        },
+        error => {
+          if (this.entries.get(key) === created) this.entries.delete(key);
+          throw error;
+        }
+      );
+      this.entries.set(key, created);
+      entry = created;
+    }
+
+    if (entry.expiresAt !== null) return entry.promise as Promise<T>;
+    if (!signal) {
+      // A caller that can't cancel keeps the shared request alive
+      entry.waiters++;
+      return entry.promise as Promise<T>;
+    }
+    return this.wait(key, entry, signal) as Promise<T>;
+  }
+
+  /**
+   * Makes room for one more entry: drops expired responses, then the least recently used
+   * completed ones. In-flight requests are never evicted (their callers still wait on them).
+   */
+  private evict() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) this.entries.delete(key);
+    }
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size < this.maxEntries) break;
+      if (entry.expiresAt !== null) this.entries.delete(key);
+    }
+  }
+
+  private wait(key: string, entry: CacheEntry, signal: AbortSignal): Promise<unknown> {
+    entry.waiters++;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (finish: () => void) => {
+        if (settled) return;
+        settled = true;
+        entry.waiters--;
+        signal.removeEventListener('abort', onAbort);
+        finish();
+      };
+      const onAbort = () => settle(() => {
+        reject(createAbortError());
+        if (entry.waiters === 0 && entry.expiresAt === null) {
+          entry.controller.abort();
+          if (this.entries.get(key) === entry) this.entries.delete(key);
+        }
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        data => settle(() => resolve(data)),
+        error => settle(() => reject(error))
+      );
+    });
+  }
+
+  /** Number of live (unexpired or in-flight) entries. */
+  public size(): number {
+    const now = Date.now();
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt === null || entry.expiresAt > now) count++;
+    }
+    return count;
+  }
+
+  /** Drops every cached response; in-flight requests still resolve for their current callers. */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Singleton shared by every API call in the app
+export const apiRequestCache = new RequestCache();
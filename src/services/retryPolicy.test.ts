@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, parseRetryAfter } from './retryPolicy';
+
+describe('Retry Policy', () => {
+  it('parses Retry-After as seconds or an HTTP date', () => {
+     expect(parseRetryAfter('2')).toBe(2000);
+     expect(parseRetryAfter(new Date(10000).toUTCString(), 4000)).toBe(6000);
+     expect(parseRetryAfter('soon')).toBeNull();
+  });
+
+  it('caps exponential backoff at the policy maximum', () => {
+     expect(getBackoffDelay(1, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.baseDelayMs);
+     expect(getBackoffDelay(3, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.baseDelayMs * 4);
+     expect(getBackoffDelay(20, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+     expect(getBackoffDelay(3, DEFAULT_RETRY_POLICY, () => 0)).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { createAbortError } from '../utils';
+
+/**
+ * Retry Policies for the GCP request layer.
+ *
+ * Transient failures (429 / 5xx / network errors) are retried with exponential
+ * backoff and full jitter, honoring the server's Retry-After when it sends one.
+ */
+
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries). */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** A Retry-After longer than this ends the retries instead of stalling the run. */
+  maxRetryAfterMs: number;
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  retryableStatuses: [429, 500, 502, 503, 504]
+};
+
+// Best-effort lookups (e.g. the quota pre-check) shouldn't hold up an analysis.
+export const QUICK_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 2,
+  maxRetryAfterMs: 5000
+};
+
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1
+};
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (header: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Full-jitter exponential backoff for the given (1-based) failed attempt.
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+};
+
+/**
+ * Waits for the given delay, rejecting with an AbortError as soon as the signal fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ProvisioningModel, Recommendation } from '../types';
+import { mockState } from '../testFixtures';
+import { pickScenarioConfig } from './scenarioStore';
+import { diffResponses, diffConfigs, getVerdict } from './runDiffService';
+
+describe('Run Comparison', () => {
+  const rec = (obtainability: number, uptime: number, shards: [string, number][]): Recommendation => ({
+    scores: [{ name: 'obtainability', value: obtainability }, { name: 'uptime', value: uptime }],
+    shards: shards.map(([zone, count]) => ({ location: `projects/p/zones/${zone}`, machineType: 'e2-medium', count, provisioningModel: ProvisioningModel.SPOT }))
+  });
+
+  it('aligns recommendations by zone set and reports deltas, shard changes and verdict shifts', () => {
+     const before = { recommendations: [rec(0.9, 0.95, [['us-central1-a', 10]]), rec(0.8, 0.9, [['us-central1-b', 5], ['us-central1-c', 5]])] };
+     const after = { recommendations: [rec(0.6, 0.9, [['us-central1-c', 4], ['us-central1-b', 6]]), rec(0.5, 0.9, [['us-central1-f', 10]])] };
+
+     const diff = diffResponses(before, after);
+     expect(diff.rows.map(r => [r.key, r.status])).toEqual([
+       ['us-central1-b,us-central1-c', 'changed'],
+       ['us-central1-f', 'appeared'],
+       ['us-central1-a', 'disappeared']
+     ]);
+     expect(diff.rows[0].obtainabilityDelta).toBeCloseTo(-0.2);
+     expect(diff.rows[0].beforeRank).toBe(1);
+     expect(diff.rows[0].shardChanges.map(c => [c.zone, c.beforeCount, c.afterCount])).toEqual([['us-central1-b', 5, 6], ['us-central1-c', 5, 4]]);
+     expect(diff.rows[1].obtainabilityDelta).toBeNull();
+     expect([diff.verdictBefore, diff.verdictAfter, diff.verdictChanged]).toEqual(['Go', 'Caution', true]);
+     expect(getVerdict({ recommendations: [] })).toBe('No-Go');
+  });
+
+  it('lists the configuration fields that differ', () => {
+     const a = pickScenarioConfig(mockState);
+     expect(diffConfigs(a, pickScenarioConfig({ ...mockState, size: 20, region: 'us-east1' })).map(c => c.field)).toEqual(['region', 'size']);
+     expect(diffConfigs(a, pickScenarioConfig(mockState))).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { CapacityAdvisorResponse, Recommendation } from '../types';
+import { getRiskTier } from '../utils';
+import { SCENARIO_FIELDS, ScenarioConfig } from './scenarioStore';
+
+/**
+ * Run Comparison
+ *
+ * Aligns the recommendations of two capacity advice responses by the set of zones they place
+ * shards in, so the same placement can be tracked across runs even when its rank moved.
+ */
+
+export type Verdict = 'Go' | 'Caution' | 'No-Go';
+
+/**
+ * Verdict for a response, from its best option (same bands as the Gemini report: Go at 70%+).
+ */
+export const getVerdict = (response: CapacityAdvisorResponse | null): Verdict => {
+  const tier = getRiskTier(getScore(response?.recommendations?.[0], 'obtainability') ?? 0);
+  if (tier === 'critical') return 'No-Go';
+  if (tier === 'constrained') return 'Caution';
+  return 'Go';
+};
+
+export const getScore = (rec: Recommendation | undefined | null, name: 'obtainability' | 'uptime'): number | null =>
+  rec?.scores.find(s => s.name === name)?.value ?? null;
+
+const zoneOf = (location: string) => location.split('/').pop() || location;
+
+/** Sorted zones a recommendation places shards in; identifies the placement across runs. */
+export const getZoneSet = (rec: Recommendation): string[] =>
+  Array.from(new Set(rec.shards.map(s => zoneOf(s.location)))).sort();
+
+export interface ShardChange {
+  zone: string;
+  machineType: string;
+  /** null when the shard is new in the second run. */
+  beforeCount: number | null;
+  /** null when the shard is gone in the second run. */
+  afterCount: number | null;
+}
+
+export type DiffStatus = 'appeared' | 'disappeared' | 'changed' | 'unchanged';
+
+export interface RecommendationDiffRow {
+  /** Sorted zone set, plus an occurrence suffix when one response repeats a zone set. */
+  key: string;
+  zones: string[];
+  before: Recommendation | null;
+  after: Recommendation | null;
+  beforeRank: number | null;
+  afterRank: number | null;
+  status: DiffStatus;
+  obtainabilityDelta: number | null;
+  uptimeDelta: number | null;
+  shardChanges: ShardChange[];
+}
+
+export interface RunDiff {
+  rows: RecommendationDiffRow[];
+  verdictBefore: Verdict;
+  verdictAfter: Verdict;
+  verdictChanged: boolean;
+  appeared: number;
+  disappeared: number;
+}
+
+export interface ConfigChange {
+  field: keyof ScenarioConfig;
+  before: unknown;
+  after: unknown;
+}
+
+const keyRecommendations = (response: CapacityAdvisorResponse | null): Map<string, { rec: Recommendation; rank: number; zones: string[] }> => {
+  const keyed = new Map<string, { rec: Recommendation; rank: number; zones: string[] }>();
+  const seen = new Map<string, number>();
+  (response?.recommendations || []).forEach((rec, rank) => {
+    const zones = getZoneSet(rec);
+    const zoneKey = zones.join(',');
+    const occurrence = seen.get(zoneKey) || 0;
+    seen.set(zoneKey, occurrence + 1);
+    keyed.set(occurrence === 0 ? zoneKey : `${zoneKey}#${occurrence + 1}`, { rec, rank, zones });
+  });
+  return keyed;
+};
+
+const diffShards = (before: Recommendation | null, after: Recommendation | null): ShardChange[] => {
+  const counts = new Map<string, ShardChange>();
+  const add = (rec: Recommendation | null, side: 'beforeCount' | 'afterCount') => {
+    rec?.shards.forEach(shard => {
+      const zone = zoneOf(shard.location);
+      const id = `${zone} ${shard.machineType}`;
+      const change = counts.get(id) || { zone, machineType: shard.machineType, beforeCount: null, afterCount: null };
+      change[side] = (change[side] || 0) + shard.count;
+      counts.set(id, change);
+    });
+  };
+  add(before, 'beforeCount');
+  add(after, 'afterCount');
+  return Array.from(counts.values()).filter(c => c.beforeCount !== c.afterCount);
+};
+
+const delta = (before: number | null, after: number | null): number | null =>
+  before === null || after === null ? null : after - before;
+
+/**
+ * Compares two responses (`before` is the baseline). Rows follow the second run's ranking,
+ * with placements that disappeared listed last.
+ */
+export const diffResponses = (before: CapacityAdvisorResponse | null, after: CapacityAdvisorResponse | null): RunDiff => {
+  const beforeKeyed = keyRecommendations(before);
+  const afterKeyed = keyRecommendations(after);
+  const keys = [...afterKeyed.keys(), ...[...beforeKeyed.keys()].filter(k => !afterKeyed.has(k))];
+
+  const rows = keys.map((key): RecommendationDiffRow => {
+    const b = beforeKeyed.get(key) || null;
+    const a = afterKeyed.get(key) || null;
+    const obtainabilityDelta = delta(getScore(b?.rec, 'obtainability'), getScore(a?.rec, 'obtainability'));
+    const uptimeDelta = delta(getScore(b?.rec, 'uptime'), getScore(a?.rec, 'uptime'));
+    const shardChanges = diffShards(b?.rec || null, a?.rec || null);
+    const status: DiffStatus = !b ? 'appeared' : !a ? 'disappeared'
+      : (obtainabilityDelta || uptimeDelta || shardChanges.length > 0) ? 'changed' : 'unchanged';
+    return {
+      key,
+      zones: (a || b)!.zones,
+      before: b?.rec || null,
+      after: a?.rec || null,
+      beforeRank: b ? b.rank : null,
+      afterRank: a ? a.rank : null,
+      status,
+      obtainabilityDelta,
+      uptimeDelta,
+      shardChanges
+    };
+  });
+
+  const verdictBefore = getVerdict(before);
+  const verdictAfter = getVerdict(after);
+  return {
+    rows,
+    verdictBefore,
+    verdictAfter,
+    verdictChanged: verdictBefore !== verdictAfter,
+    appeared: rows.filter(r => r.status === 'appeared').length,
+    disappeared: rows.filter(r => r.status === 'disappeared').length
+  };
+};
+
+/** Configuration fields that differ between two runs. */
+export const diffConfigs = (before: ScenarioConfig, after: ScenarioConfig): ConfigChange[] =>
+  SCENARIO_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+
+/**
+ * The latest run with placements, paired with the most recent earlier run of the same configuration.
+ * @param runs Newest first, as listed by the history store.
+ */
+export const findLatestComparablePair = <T extends { config: ScenarioConfig; response: CapacityAdvisorResponse | null }>(runs: T[]): [T, T] | null => {
+  const [latest, ...earlier] = runs.filter(run => run.response);
+  const previous = latest && earlier.find(run => diffConfigs(run.config, latest.config).length === 0);
+  return previous ? [previous, latest] : null;
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { AppState } from '../types';
+import { mockState } from '../testFixtures';
+import { pickScenarioConfig } from './scenarioStore';
+import { RunRecord, selectRunsToEvict, filterRuns } from './runHistoryStore';
+
+describe('Run History', () => {
+  const makeRun = (id: string, completedAt: number, sizeBytes: number, overrides: Partial<AppState> = {}): RunRecord => ({
+    id, startedAt: completedAt - 500, completedAt, latencyMs: 500, source: 'mock', analysisMode: overrides.analysisMode || 'single',
+    config: pickScenarioConfig({ ...mockState, ...overrides }), response: null, regionResults: null, sweepResult: null,
+    quotaCheck: null, groundingMetadata: null, sizeBytes
+  });
+
+  it('evicts expired runs, then the oldest ones past the count or size cap', () => {
+     const limits = { maxRuns: 3, maxBytes: 1000, maxAgeMs: 10000 };
+     const runs = [makeRun('a', 1000, 100), makeRun('b', 15000, 100), makeRun('c', 16000, 100), makeRun('d', 17000, 100), makeRun('e', 18000, 100)];
+     expect(selectRunsToEvict(runs, limits, 20000).sort()).toEqual(['a', 'b']);
+     expect(selectRunsToEvict(runs, { ...limits, maxRuns: 10, maxBytes: 250 }, 20000).sort()).toEqual(['a', 'b', 'c']);
+     // The newest run is kept even when it alone exceeds the size cap
+     expect(selectRunsToEvict([makeRun('big', 19000, 5000)], limits, 20000)).toEqual([]);
+  });
+
+  it('filters by region (including fan-out regions) and by ranked machine types', () => {
+     const runs = [
+       makeRun('single', 1, 10, { region: 'us-east1', selectedMachineType: 'n2-standard-4' }),
+       makeRun('fanout', 2, 10, { analysisMode: 'multiRegion', fanOutRegions: ['europe-west1', 'us-east1'], alternativeMachineTypes: ['c3-standard-4'] })
+     ];
+     expect(filterRuns(runs, { region: 'us-east1' }).map(r => r.id)).toEqual(['single', 'fanout']);
+     expect(filterRuns(runs, { region: 'europe-west1', machineType: 'c3-standard-4' }).map(r => r.id)).toEqual(['fanout']);
+     expect(filterRuns(runs, { machineType: 'n2-standard-4' }).map(r => r.id)).toEqual(['single']);
+  });
+});
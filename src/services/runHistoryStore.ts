@@ -0,0 +1,116 @@
+import { AnalysisMode, CapacityAdvisorResponse, GroundingMetadata, QuotaCheckResult, RegionRunResult, SweepResult } from '../types';
+import { ScenarioConfig } from './scenarioStore';
+import { runTransaction, STORES } from './localDb';
+
+/**
+ * Run History
+ *
+ * Every completed analysis is kept in IndexedDB with its configuration and full results, so
+ * earlier runs can be re-opened after a new search or a "Clear". Storage is capped by count,
+ * total size and age; the oldest runs are evicted first.
+ */
+
+/** Who started a run: the user, or watch mode on its interval. */
+export type RunTrigger = 'manual' | 'watch';
+
+export interface RunRecord {
+  id: string;
+  startedAt: number;
+  completedAt: number;
+  latencyMs: number;
+  /** Simulation or live API. */
+  source: 'mock' | 'live';
+  /** Absent on runs saved before watch mode existed. */
+  trigger?: RunTrigger;
+  analysisMode: AnalysisMode;
+  config: ScenarioConfig;
+  response: CapacityAdvisorResponse | null;
+  regionResults: RegionRunResult[] | null;
+  sweepResult: SweepResult | null;
+  quotaCheck: QuotaCheckResult | null;
+  /** Gemini insight text and grounding sources, attached once the stream finishes. */
+  groundingMetadata: GroundingMetadata | null;
+  /** Serialized size, used for the storage cap. */
+  sizeBytes: number;
+}
+
+export const RUN_HISTORY_LIMITS = {
+  maxRuns: 200,
+  maxBytes: 25 * 1024 * 1024,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000
+};
+
+export interface RunFilters {
+  region?: string;
+  machineType?: string;
+}
+
+export const measureRun = (run: Omit<RunRecord, 'sizeBytes'>): number =>
+  new Blob([JSON.stringify(run)]).size;
+
+/**
+ * Ids of the runs to drop so the rest fit `limits`: anything past its age, then the oldest
+ * runs until both the count and size caps hold. The newest run is always kept.
+ */
+export const selectRunsToEvict = (runs: RunRecord[], limits = RUN_HISTORY_LIMITS, now = Date.now()): string[] => {
+  const newestFirst = [...runs].sort((a, b) => b.completedAt - a.completedAt);
+  const evicted: string[] = [];
+  let kept = 0;
+  let bytes = 0;
+
+  newestFirst.forEach((run, index) => {
+    const tooOld = now - run.completedAt > limits.maxAgeMs;
+    const overCount = kept + 1 > limits.maxRuns;
+    const overSize = bytes + run.sizeBytes > limits.maxBytes;
+    if (index > 0 && (tooOld || overCount || overSize)) {
+      evicted.push(run.id);
+    } else {
+      kept++;
+      bytes += run.sizeBytes;
+    }
+  });
+  return evicted;
+};
+
+/** Machine types a run covered (primary plus ranked fallbacks). */
+export const getRunMachineTypes = (run: RunRecord): string[] =>
+  [run.config.selectedMachineType, ...run.config.alternativeMachineTypes].filter(Boolean);
+
+/** Regions a run covered (the fan-out list for multi-region runs). */
+export const getRunRegions = (run: RunRecord): string[] =>
+  run.analysisMode === 'multiRegion' ? run.config.fanOutRegions : [run.config.region];
+
+export const filterRuns = (runs: RunRecord[], { region, machineType }: RunFilters): RunRecord[] =>
+  runs.filter(run =>
+    (!region || getRunRegions(run).includes(region)) &&
+    (!machineType || getRunMachineTypes(run).includes(machineType))
+  );
+
+// --- IndexedDB ---
+
+/** All stored runs, newest first. */
+export const listRuns = async (): Promise<RunRecord[]> => {
+  const runs = (await runTransaction<RunRecord[]>(STORES.runs, 'readonly', store => store.getAll())) || [];
+  return runs.sort((a, b) => b.completedAt - a.completedAt);
+};
+
+/**
+ * Stores (or replaces) a run, then evicts whatever no longer fits the limits.
+ * @returns Number of runs evicted.
+ */
+export const saveRun = async (run: RunRecord): Promise<number> => {
+  await runTransaction(STORES.runs, 'readwrite', store => store.put(run));
+  const evicted = selectRunsToEvict(await listRuns());
+  if (evicted.length > 0) {
+    await runTransaction(STORES.runs, 'readwrite', store => { evicted.forEach(id => store.delete(id)); });
+  }
+  return evicted.length;
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await runTransaction(STORES.runs, 'readwrite', store => store.delete(id));
+};
+
+export const clearRuns = async (): Promise<void> => {
+  await runTransaction(STORES.runs, 'readwrite', store => store.clear());
+};
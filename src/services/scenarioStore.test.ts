@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { mockState } from '../testFixtures';
+import { createScenario, pickScenarioConfig, serializeScenarios, parseScenarioFile } from './scenarioStore';
+
+describe('Saved Scenarios', () => {
+  it('exports and re-imports scenarios with only the workload fields', () => {
+     const scenario = createScenario('  Nightly batch ', ['Batch', 'batch ', 'GPU'], pickScenarioConfig({ ...mockState, accessToken: 'ya29.secret' }));
+     expect(scenario.name).toBe('Nightly batch');
+     expect(scenario.tags).toEqual(['batch', 'gpu']);
+
+     const file = serializeScenarios([scenario]);
+     expect(file).not.toContain('ya29');
+     expect(parseScenarioFile(file)).toEqual([scenario]);
+  });
+
+  it('rejects malformed scenario files with a specific message', () => {
+     const scenario = createScenario('Web tier', [], pickScenarioConfig(mockState));
+     expect(() => parseScenarioFile('not json')).toThrow('not valid JSON');
+     expect(() => parseScenarioFile(JSON.stringify({ version: 99, scenarios: [] }))).toThrow('Unsupported scenario file version');
+     expect(() => parseScenarioFile(serializeScenarios([{ ...scenario, config: { ...scenario.config, size: -1 } }]))).toThrow('"Web tier" has an invalid "size"');
+  });
+});
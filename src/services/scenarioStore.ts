@@ -0,0 +1,141 @@
+import { AppState, TargetShape, ProvisioningModel } from '../types';
+import { runTransaction, STORES } from './localDb';
+
+/**
+ * Saved Scenarios
+ *
+ * Named, tagged analysis configurations kept in IndexedDB, plus the JSON file format used to
+ * share a set of them. A scenario holds only workload fields: never results, tokens or UI preferences.
+ */
+
+export const SCENARIO_FIELDS = [
+  'project',
+  'region',
+  'selectedMachineType',
+  'alternativeMachineTypes',
+  'selectedFamilies',
+  'size',
+  'targetShape',
+  'provisioningModel',
+  'acceleratorType',
+  'acceleratorCount',
+  'includedZones',
+  'excludedZones',
+  'analysisMode',
+  'fanOutRegions',
+  'sweepConfig'
+] as const;
+
+export type ScenarioConfig = Pick<AppState, typeof SCENARIO_FIELDS[number]>;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  tags: string[];
+  config: ScenarioConfig;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScenarioFile {
+  version: number;
+  exportedAt: string;
+  scenarios: Scenario[];
+}
+
+export const SCENARIO_FILE_VERSION = 1;
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isPositiveInteger = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+// One check per field; a file that fails any of them is rejected as a whole
+const FIELD_VALIDATORS: Record<keyof ScenarioConfig, (v: unknown) => boolean> = {
+  project: isString,
+  region: isString,
+  selectedMachineType: isString,
+  alternativeMachineTypes: isStringArray,
+  selectedFamilies: v => isStringArray(v) && v.length > 0,
+  size: isPositiveInteger,
+  targetShape: v => Object.values(TargetShape).includes(v as TargetShape),
+  provisioningModel: v => Object.values(ProvisioningModel).includes(v as ProvisioningModel),
+  acceleratorType: isString,
+  acceleratorCount: isPositiveInteger,
+  includedZones: isStringArray,
+  excludedZones: isStringArray,
+  analysisMode: v => ['single', 'multiRegion', 'sweep'].includes(v as string),
+  fanOutRegions: isStringArray,
+  sweepConfig: v => !!v && typeof v === 'object' && !Array.isArray(v)
+};
+
+/**
+ * Copies the scenario fields out of the app state.
+ */
+export const pickScenarioConfig = (state: AppState): ScenarioConfig =>
+  structuredClone(Object.fromEntries(SCENARIO_FIELDS.map(field => [field, state[field]])) as ScenarioConfig);
+
+/** Lowercased, trimmed and de-duplicated tags. */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const createScenario = (name: string, tags: string[], config: ScenarioConfig): Scenario => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name: name.trim(), tags: normalizeTags(tags), config, createdAt: now, updatedAt: now };
+};
+
+export const serializeScenarios = (scenarios: Scenario[]): string =>
+  JSON.stringify({ version: SCENARIO_FILE_VERSION, exportedAt: new Date().toISOString(), scenarios } satisfies ScenarioFile, null, 2);
+
+/**
+ * Parses and validates an exported scenario file.
+ * @throws Error describing the first problem found.
+ */
+export const parseScenarioFile = (text: string): Scenario[] => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!file || typeof file !== 'object' || !Array.isArray(file.scenarios)) {
+    throw new Error('The file does not contain a scenarios list.');
+  }
+  if (file.version !== SCENARIO_FILE_VERSION) {
+    throw new Error(`Unsupported scenario file version ${file.version} (expected ${SCENARIO_FILE_VERSION}).`);
+  }
+
+  return file.scenarios.map((raw: any, index: number): Scenario => {
+    const label = isString(raw?.name) && raw.name.trim() ? `"${raw.name}"` : `#${index + 1}`;
+    if (!isString(raw?.name) || !raw.name.trim()) throw new Error(`Scenario ${label} has no name.`);
+    if (!raw.config || typeof raw.config !== 'object') throw new Error(`Scenario ${label} has no configuration.`);
+    const invalid = SCENARIO_FIELDS.find(field => !FIELD_VALIDATORS[field](raw.config[field]));
+    if (invalid) throw new Error(`Scenario ${label} has an invalid "${invalid}".`);
+
+    const now = Date.now();
+    return {
+      id: isString(raw.id) && raw.id ? raw.id : crypto.randomUUID(),
+      name: raw.name.trim(),
+      tags: isStringArray(raw.tags) ? normalizeTags(raw.tags) : [],
+      config: Object.fromEntries(SCENARIO_FIELDS.map(field => [field, raw.config[field]])) as ScenarioConfig,
+      createdAt: Number.isFinite(raw.createdAt) ? raw.createdAt : now,
+      updatedAt: Number.isFinite(raw.updatedAt) ? raw.updatedAt : now
+    };
+  });
+};
+
+// --- IndexedDB ---
+
+/** All saved scenarios, sorted by name. */
+export const listScenarios = async (): Promise<Scenario[]> => {
+  const scenarios = (await runTransaction<Scenario[]>(STORES.scenarios, 'readonly', store => store.getAll())) || [];
+  return scenarios.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Inserts or replaces scenarios (matched by id) in one transaction. */
+export const putScenarios = async (scenarios: Scenario[]): Promise<void> => {
+  await runTransaction(STORES.scenarios, 'readwrite', store => { scenarios.forEach(scenario => store.put(scenario)); });
+};
+
+export const deleteScenario = async (id: string): Promise<void> => {
+  await runTransaction(STORES.scenarios, 'readwrite', store => store.delete(id));
+};
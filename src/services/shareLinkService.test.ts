@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { ProvisioningModel, TargetShape } from '../types';
+import { mockState } from '../testFixtures';
+import { applySharedLink, buildShareParams, buildShareUrl, markMirroredHistoryState, parseShareParams, readSharedLink } from './shareLinkService';
+
+describe('Shareable Links', () => {
+  it('round-trips the configuration and never writes the access token', () => {
+     const withToken = { ...mockState, accessToken: 'ya29.secret-token', targetShape: TargetShape.BALANCED };
+     const url = buildShareUrl(withToken, { origin: 'http://localhost:3000', pathname: '/' });
+     expect(url).not.toContain('ya29');
+
+     const { config, rejected } = parseShareParams(new URL(url).search);
+     expect(rejected).toEqual([]);
+     expect(config).toEqual({
+       project: 'test-project', region: 'us-central1', selectedMachineType: 'e2-medium',
+       selectedFamilies: ['General Purpose'], size: 10, targetShape: TargetShape.BALANCED,
+       provisioningModel: ProvisioningModel.SPOT, mockMode: true
+     });
+  });
+
+  it('carries fallbacks, provisioning model, accelerator and zones', () => {
+     const sender = {
+       ...mockState,
+       selectedMachineType: 'n1-standard-8',
+       alternativeMachineTypes: ['n2-standard-8', 'n2d-standard-8'],
+       provisioningModel: ProvisioningModel.STANDARD,
+       acceleratorType: 'nvidia-tesla-t4',
+       acceleratorCount: 2,
+       includedZones: ['us-central1-a', 'us-central1-b'],
+       excludedZones: ['us-central1-f']
+     };
+     const { config, rejected } = parseShareParams(buildShareParams(sender).toString());
+     expect(rejected).toEqual([]);
+     expect(config).toMatchObject({
+       alternativeMachineTypes: ['n2-standard-8', 'n2d-standard-8'],
+       provisioningModel: ProvisioningModel.STANDARD,
+       acceleratorType: 'nvidia-tesla-t4',
+       acceleratorCount: 2,
+       includedZones: ['us-central1-a', 'us-central1-b'],
+       excludedZones: ['us-central1-f']
+     });
+  });
+
+  it('builds the link from the shared fields only', () => {
+     const url = new URL(buildShareUrl(mockState, { origin: 'http://localhost:3000', pathname: '/' }));
+     expect(url.searchParams.has('tab')).toBe(false);
+     expect(Array.from(url.searchParams.keys())).toEqual(['project', 'region', 'machineType', 'families', 'size', 'shape', 'provisioningModel', 'mock']);
+  });
+
+  it('resets the recipient saved analysis fields the link leaves out', () => {
+     const recipient = {
+       ...mockState,
+       region: 'europe-west4',
+       alternativeMachineTypes: ['c3-standard-8'],
+       provisioningModel: ProvisioningModel.STANDARD,
+       acceleratorType: 'nvidia-tesla-t4',
+       includedZones: ['europe-west4-a'],
+       analysisMode: 'sweep' as const,
+       darkMode: true
+     };
+     const link = parseShareParams(buildShareParams({ ...mockState, region: 'us-east1' }).toString());
+     const opened = applySharedLink(recipient, mockState, link);
+
+     expect(opened).toMatchObject({ region: 'us-east1', alternativeMachineTypes: [], provisioningModel: ProvisioningModel.SPOT, acceleratorType: '', includedZones: [], analysisMode: 'single' });
+     expect(opened.darkMode).toBe(true);
+     expect(applySharedLink(recipient, mockState, parseShareParams(''))).toBe(recipient);
+  });
+
+  it('keeps saved sweep and fan-out settings when reloading a self-written URL', () => {
+     const saved = {
+       ...mockState,
+       analysisMode: 'sweep' as const,
+       fanOutRegions: ['us-east1', 'europe-west4'],
+       sweepConfig: { ...mockState.sweepConfig, minCount: 8, maxCount: 64, step: 8, strategy: 'linear' as const }
+     };
+     const search = `?${buildShareParams(saved).toString()}`;
+
+     const reloaded = applySharedLink(saved, mockState, readSharedLink(search, markMirroredHistoryState(null)));
+     expect(reloaded).toBe(saved);
+
+     // The same URL opened without the mirror flag (a pasted link) still resets them
+     const opened = applySharedLink(saved, mockState, readSharedLink(search, null));
+     expect(opened).toMatchObject({ analysisMode: 'single', fanOutRegions: mockState.fanOutRegions, sweepConfig: mockState.sweepConfig });
+  });
+
+  it('keeps existing history state when flagging a mirrored entry', () => {
+     expect(markMirroredHistoryState({ idx: 3 })).toMatchObject({ idx: 3 });
+     expect(readSharedLink('?project=test-project', { idx: 3 }).present).toBe(true);
+  });
+
+  it('drops invalid parameters and reports them', () => {
+     const params = buildShareParams(mockState);
+     params.set('project', 'Bad_Project');
+     params.set('size', '-3');
+     params.set('families', 'General Purpose,Nope');
+     params.set('shape', 'any');
+     params.set('zones', 'europe-west4-a');
+
+     const { config, rejected } = parseShareParams(params.toString());
+     expect(rejected).toEqual(['project', 'families', 'size', 'zones']);
+     expect(config.project).toBeUndefined();
+     expect(config.targetShape).toBe(TargetShape.ANY);
+     expect(config.region).toBe('us-central1');
+  });
+});
@@ -0,0 +1,169 @@
+import { AppState, ProvisioningModel, TargetShape } from '../types';
+import { ACCELERATOR_TYPES, MACHINE_FAMILIES } from '../config';
+import { PROJECT_ID_REGEX, REGION_PATTERN, ZONE_PATTERN } from './proxyContract';
+
+/**
+ * Shareable Deep Links
+ *
+ * The analysis configuration round-trips through URL query parameters so a link reproduces it.
+ * Only the allowlisted fields below are ever written; credentials never reach the URL.
+ */
+
+export type ShareableConfig = Pick<AppState,
+  'project' | 'region' | 'selectedMachineType' | 'alternativeMachineTypes' | 'selectedFamilies' | 'size' | 'targetShape' |
+  'provisioningModel' | 'acceleratorType' | 'acceleratorCount' | 'includedZones' | 'excludedZones' | 'mockMode'>;
+
+/**
+ * Analysis fields a link leaves at their defaults: opening a link starts from these rather than
+ * from the recipient's saved configuration, so it reproduces the sender's analysis.
+ */
+export type LinkResetConfig = ShareableConfig & Pick<AppState, 'analysisMode' | 'fanOutRegions' | 'sweepConfig'>;
+
+export const SHARE_PARAMS = {
+  project: 'project',
+  region: 'region',
+  machineType: 'machineType',
+  alternatives: 'alternatives',
+  families: 'families',
+  size: 'size',
+  shape: 'shape',
+  provisioningModel: 'provisioningModel',
+  accelerator: 'accelerator',
+  zones: 'zones',
+  excludeZones: 'excludeZones',
+  mock: 'mock'
+} as const;
+
+const MAX_SHARED_SIZE = 9999;
+const MACHINE_TYPE_REGEX = /^[a-z][a-z0-9]*-[a-z0-9-]+$/;
+
+const MAX_SHARED_LIST = 20;
+
+export interface ParsedShareParams {
+  /** True when the URL carries any share parameter, valid or not. */
+  present: boolean;
+  config: Partial<ShareableConfig>;
+  /** Parameters that were present but failed validation (ignored). */
+  rejected: string[];
+}
+
+/**
+ * The shareable fields as query parameters, built from nothing else (no unrelated parameters).
+ * Empty lists and a missing accelerator are left out; the reader treats them as the default.
+ */
+export const buildShareParams = (config: ShareableConfig): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set(SHARE_PARAMS.project, config.project);
+  params.set(SHARE_PARAMS.region, config.region);
+  params.set(SHARE_PARAMS.machineType, config.selectedMachineType);
+  if (config.alternativeMachineTypes.length > 0) params.set(SHARE_PARAMS.alternatives, config.alternativeMachineTypes.join(','));
+  params.set(SHARE_PARAMS.families, config.selectedFamilies.join(','));
+  params.set(SHARE_PARAMS.size, String(config.size));
+  params.set(SHARE_PARAMS.shape, config.targetShape);
+  params.set(SHARE_PARAMS.provisioningModel, config.provisioningModel);
+  if (config.acceleratorType) params.set(SHARE_PARAMS.accelerator, `${config.acceleratorType}:${config.acceleratorCount}`);
+  if (config.includedZones.length > 0) params.set(SHARE_PARAMS.zones, config.includedZones.join(','));
+  if (config.excludedZones.length > 0) params.set(SHARE_PARAMS.excludeZones, config.excludedZones.join(','));
+  params.set(SHARE_PARAMS.mock, config.mockMode ? '1' : '0');
+  return params;
+};
+
+export const buildShareUrl = (config: ShareableConfig, location: { origin: string; pathname: string }): string =>
+  `${location.origin}${location.pathname}?${buildShareParams(config).toString()}`;
+
+/**
+ * Reads and validates the shareable fields from a query string. Invalid values are dropped
+ * (and reported) so the rest of the link still applies.
+ */
+export const parseShareParams = (search: string): ParsedShareParams => {
+  const params = new URLSearchParams(search);
+  const config: Partial<ShareableConfig> = {};
+  const rejected: string[] = [];
+  const present = Object.values(SHARE_PARAMS).some(name => params.has(name));
+
+  const readList = (v: string, valid: (item: string) => boolean): string[] | undefined => {
+    const items = Array.from(new Set(v.split(',').map(item => item.trim()).filter(Boolean)));
+    return items.length > 0 && items.length <= MAX_SHARED_LIST && items.every(valid) ? items : undefined;
+  };
+
+  // `parse` returns undefined for an invalid value
+  const read = <T>(name: string, parse: (value: string) => T | undefined, assign: (value: T) => void) => {
+    const raw = params.get(name);
+    if (raw === null) return;
+    const value = parse(raw.trim());
+    if (value === undefined) rejected.push(name);
+    else assign(value);
+  };
+
+  read(SHARE_PARAMS.project, v => PROJECT_ID_REGEX.test(v) ? v : undefined, v => { config.project = v; });
+  read(SHARE_PARAMS.region, v => REGION_PATTERN.test(v) ? v : undefined, v => { config.region = v; });
+  read(SHARE_PARAMS.machineType, v => MACHINE_TYPE_REGEX.test(v) ? v : undefined, v => { config.selectedMachineType = v; });
+  read(SHARE_PARAMS.alternatives, v => readList(v, type => MACHINE_TYPE_REGEX.test(type)), v => { config.alternativeMachineTypes = v; });
+  read(SHARE_PARAMS.families, v => {
+    const families = v.split(',').map(f => f.trim()).filter(Boolean);
+    if (families.length === 0 || !families.every(f => MACHINE_FAMILIES.includes(f))) return undefined;
+    return families.includes('All') ? ['All'] : families;
+  }, v => { config.selectedFamilies = v; });
+  read(SHARE_PARAMS.size, v => /^\d+$/.test(v) && Number(v) >= 1 && Number(v) <= MAX_SHARED_SIZE ? Number(v) : undefined, v => { config.size = v; });
+  read(SHARE_PARAMS.shape, v => (Object.values(TargetShape) as string[]).includes(v.toUpperCase()) ? v.toUpperCase() as TargetShape : undefined, v => { config.targetShape = v; });
+  read(SHARE_PARAMS.provisioningModel, v => (Object.values(ProvisioningModel) as string[]).includes(v.toUpperCase()) ? v.toUpperCase() as ProvisioningModel : undefined, v => { config.provisioningModel = v; });
+  read(SHARE_PARAMS.accelerator, v => {
+    const [type, count] = v.split(':');
+    return ACCELERATOR_TYPES.some(a => a.id === type) && /^\d+$/.test(count || '') && Number(count) >= 1 && Number(count) <= 16
+      ? { type, count: Number(count) }
+      : undefined;
+  }, v => { config.acceleratorType = v.type; config.acceleratorCount = v.count; });
+  // Zones must belong to the shared region, or the request would fail its zone policy
+  const inRegion = (zone: string) => !!config.region && ZONE_PATTERN.test(zone) && zone.startsWith(`${config.region}-`);
+  read(SHARE_PARAMS.zones, v => readList(v, inRegion), v => { config.includedZones = v; });
+  read(SHARE_PARAMS.excludeZones, v => readList(v, inRegion), v => { config.excludedZones = v; });
+  read(SHARE_PARAMS.mock, v => ['1', 'true'].includes(v) ? true : ['0', 'false'].includes(v) ? false : undefined, v => { config.mockMode = v; });
+
+  return { present, config, rejected };
+};
+
+/** History-state flag on entries whose query the app mirrored itself rather than received as a link. */
+const MIRRORED_STATE_KEY = 'shareParamsMirrored';
+
+/** The history state to write alongside a mirrored query, keeping whatever else the entry holds. */
+export const markMirroredHistoryState = (historyState: unknown): Record<string, unknown> => ({
+  ...(historyState && typeof historyState === 'object' ? historyState as Record<string, unknown> : {}),
+  [MIRRORED_STATE_KEY]: true
+});
+
+/**
+ * The link the page was opened with. A reload keeps the entry's history state, so a query the app
+ * wrote itself reads as no link and the saved configuration (sweep, fan-out) is left alone.
+ */
+export const readSharedLink = (search: string, historyState: unknown): ParsedShareParams => {
+  const mirrored = !!historyState && typeof historyState === 'object' && (historyState as Record<string, unknown>)[MIRRORED_STATE_KEY] === true;
+  return mirrored ? { present: false, config: {}, rejected: [] } : parseShareParams(search);
+};
+
+/**
+ * The state to start from when a link is opened: the link's fields over the defaults for every
+ * analysis field, keeping only the recipient's non-analysis settings (theme, credentials).
+ */
+export const applySharedLink = <T extends LinkResetConfig>(saved: T, defaults: LinkResetConfig, link: ParsedShareParams): T => {
+  if (!link.present) return saved;
+  return {
+    ...saved,
+    project: defaults.project,
+    region: defaults.region,
+    selectedMachineType: defaults.selectedMachineType,
+    alternativeMachineTypes: defaults.alternativeMachineTypes,
+    selectedFamilies: defaults.selectedFamilies,
+    size: defaults.size,
+    targetShape: defaults.targetShape,
+    provisioningModel: defaults.provisioningModel,
+    acceleratorType: defaults.acceleratorType,
+    acceleratorCount: defaults.acceleratorCount,
+    includedZones: defaults.includedZones,
+    excludedZones: defaults.excludedZones,
+    mockMode: defaults.mockMode,
+    analysisMode: defaults.analysisMode,
+    fanOutRegions: defaults.fanOutRegions,
+    sweepConfig: defaults.sweepConfig,
+    ...link.config
+  };
+};
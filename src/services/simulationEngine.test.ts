@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { TargetShape, ProvisioningModel, Recommendation, Score } from '../types';
+import { MACHINE_TYPES } from '../config';
+import { generateMockRecommendationsWithShape, getNuancedSimulationMetrics } from './simulationEngine';
+
+describe('Mock Simulation Engine (Server Logic)', () => {
+  const mockMachineDetails = MACHINE_TYPES[0]; // e2-micro
+
+  it('generates correct number of recommendations based on region config', () => {
+    // us-central1 has 4 zones in constants.tsx
+    const response = generateMockRecommendationsWithShape('us-central1', 'e2-medium', mockMachineDetails, 10, TargetShape.ANY);
+    expect(response.recommendations).toHaveLength(4);
+  });
+
+  it('ensures recommendations are sorted by obtainability (Logic Check)', () => {
+    const response = generateMockRecommendationsWithShape('us-central1', 'e2-medium', mockMachineDetails, 50, TargetShape.ANY);
+    const scores = response.recommendations.map((r: Recommendation) => r.scores.find((s: Score) => s.name === 'obtainability')?.value || 0);
+    
+    // Check if sorted descending
+    for (let i = 0; i < scores.length - 1; i++) {
+      expect(scores[i]).toBeGreaterThanOrEqual(scores[i + 1]);
+    }
+  });
+
+  it('lands shards only on the ranked machine types', () => {
+    const ranked = ['c3-standard-8', 'n2-standard-8', 'n2d-standard-8'];
+    const response = generateMockRecommendationsWithShape('us-central1', ranked[0], undefined, 20, TargetShape.BALANCED, {
+      alternativeMachineTypes: ranked.slice(1)
+    });
+    const landed = response.recommendations.flatMap((r: Recommendation) => r.shards.map(s => s.machineType));
+
+    expect(landed.length).toBeGreaterThan(0);
+    landed.forEach((type: string) => expect(ranked).toContain(type));
+  });
+
+  it('tags shards with the requested provisioning model', () => {
+    const response = generateMockRecommendationsWithShape('us-central1', 'n2-standard-4', undefined, 10, TargetShape.ANY_SINGLE_ZONE, {
+      provisioningModel: ProvisioningModel.STANDARD
+    });
+    response.recommendations.forEach((r: Recommendation) => r.shards.forEach(s => expect(s.provisioningModel).toBe(ProvisioningModel.STANDARD)));
+  });
+
+  it('models deeper pools and no preemption for On-Demand', () => {
+    const spot = getNuancedSimulationMetrics('Compute Optimized', 'c3-standard-8', 'us-east1', 'us-east1-b', 150, ProvisioningModel.SPOT);
+    const onDemand = getNuancedSimulationMetrics('Compute Optimized', 'c3-standard-8', 'us-east1', 'us-east1-b', 150, ProvisioningModel.STANDARD);
+
+    expect(onDemand.obtainability).toBeGreaterThan(spot.obtainability);
+    expect(onDemand.uptimeScore).toBeGreaterThanOrEqual(0.99);
+  });
+
+  it('restricts simulated placements to the zone policy', () => {
+    const response = generateMockRecommendationsWithShape('us-central1', 'e2-medium', mockMachineDetails, 10, TargetShape.ANY, {
+      includedZones: ['us-central1-a', 'us-central1-b', 'us-central1-c'],
+      excludedZones: ['us-central1-b']
+    });
+    const zones = response.recommendations.map((r: Recommendation) => r.shards[0].location.split('/').pop());
+    expect(zones.sort()).toEqual(['us-central1-a', 'us-central1-c']);
+  });
+
+  it('applies scarcity penalties for GPU families (Data Integrity)', () => {
+    // Compare generic vs GPU
+    const genericMetrics = getNuancedSimulationMetrics('General Purpose', 'n1-standard-1', 'us-central1', 'us-central1-a', 10);
+    const gpuMetrics = getNuancedSimulationMetrics('Accelerator Optimized (GPU)', 'a2-highgpu-1g', 'us-central1', 'us-central1-a', 10);
+
+    expect(gpuMetrics.obtainability).toBeLessThan(genericMetrics.obtainability);
+  });
+
+  it('factors attached GPUs into scarcity and saturation', () => {
+    const plain = getNuancedSimulationMetrics('General Purpose', 'n1-standard-8', 'us-central1', 'us-central1-a', 10);
+    const t4 = getNuancedSimulationMetrics('General Purpose', 'n1-standard-8', 'us-central1', 'us-central1-a', 10, ProvisioningModel.SPOT, [{ acceleratorType: 'nvidia-tesla-t4', acceleratorCount: 1 }]);
+    const v100x8 = getNuancedSimulationMetrics('General Purpose', 'n1-standard-8', 'us-central1', 'us-central1-a', 10, ProvisioningModel.SPOT, [{ acceleratorType: 'nvidia-tesla-v100', acceleratorCount: 8 }]);
+
+    expect(t4.obtainability).toBeLessThan(plain.obtainability);
+    // 80 GPUs in one zone hits the hard GPU cap
+    expect(v100x8.obtainability).toBeLessThanOrEqual(0.25);
+  });
+
+  it('applies scarcity penalties for new gen instances (N4/C4)', () => {
+     const legacyMetrics = getNuancedSimulationMetrics('General Purpose', 'n2-standard-4', 'us-central1', 'us-central1-a', 5);
+     const modernMetrics = getNuancedSimulationMetrics('General Purpose', 'n4-standard-4', 'us-central1', 'us-central1-a', 5);
+     
+     // N4 should generally be scarcer in spot than N2
+     expect(modernMetrics.obtainability).toBeLessThanOrEqual(legacyMetrics.obtainability + 0.1); 
+  });
+});
@@ -1,6 +1,7 @@
 
-import { ProvisioningModel, CapacityAdvisorResponse, Recommendation, TargetShape, Shard } from '../types';
-import { REGION_CONFIG, MachineTypeOption } from '../config';
+import { ProvisioningModel, CapacityAdvisorResponse, Recommendation, TargetShape, Shard, GuestAccelerator } from '../types';
+import { REGION_CONFIG, MachineTypeOption, ACCELERATOR_TYPES } from '../config';
+import { getMachineTypeFamily, getRankedMachineTypes, resolveCandidateZones } from '../utils';
 
 /**
  * DETERMINISTIC HASH FUNCTION
@@ -74,6 +75,9 @@ const REGION_CONGESTION: Record<string, number> = {
   'europe-north1': -0.20, // Finland usually empty
 };
 
+// On-Demand draws from the full zonal pool rather than the preemptible surplus.
+const ON_DEMAND_DEPTH_MULTIPLIER = 4;
+
 // Zone Bias: Simulate that Zone 'a' is often legacy/full
 const ZONE_BIAS: Record<string, number> = {
   'a': 0.05, 'b': 0.0, 'c': -0.05, 'd': 0.0, 'f': -0.10
@@ -84,15 +88,23 @@ export const getNuancedSimulationMetrics = (
   machineType: string,
   region: string,
   zone: string,
-  size: number
+  size: number,
+  provisioningModel: ProvisioningModel = ProvisioningModel.SPOT,
+  guestAccelerators: GuestAccelerator[] = []
 ) => {
   const series = machineType.split('-')[0].toUpperCase();
-  const tier = getFamilyScarcityTier(family, series);
-  const isGPU = family.includes('Accelerator') || series.startsWith('A') || series.startsWith('G');
+  const attached = guestAccelerators[0];
+  const attachedTier = attached ? (ACCELERATOR_TYPES.find(a => a.id === attached.acceleratorType)?.scarcityTier ?? 3) : 0;
+  // An attached GPU is at least as scarce as its accelerator tier
+  const tier = Math.max(getFamilyScarcityTier(family, series), attachedTier);
+  const isGPU = !!attached || family.includes('Accelerator') || series.startsWith('A') || series.startsWith('G');
+  const isOnDemand = provisioningModel === ProvisioningModel.STANDARD;
   
   // 1. Calculate Base Pool Depth & Saturation
-  const poolDepth = getEstimatedSpotDepth(tier, isGPU);
-  const saturation = size / poolDepth; // 0.1 = 10% of pool, 1.5 = 150% (Impossible)
+  // Attached GPUs drain the pool per GPU, not per VM
+  const demand = attached ? size * attached.acceleratorCount : size;
+  const poolDepth = getEstimatedSpotDepth(tier, isGPU) * (isOnDemand ? ON_DEMAND_DEPTH_MULTIPLIER : 1);
+  const saturation = demand / poolDepth; // 0.1 = 10% of pool, 1.5 = 150% (Impossible)
 
   // 2. Base Obtainability based on Saturation
   let obtainability = 1.0;
@@ -121,12 +133,12 @@ export const getNuancedSimulationMetrics = (
   obtainability -= ((regionMod + zoneMod) * sensitivityMultiplier);
 
   // 4. Deterministic Noise & Events
-  const seed = `${region}-${zone}-${machineType}`;
+  const seed = `${region}-${zone}-${machineType}${attached ? `-${attached.acceleratorType}` : ''}`;
   const noise = (pseudoRandom(seed) * 0.15) - 0.07; 
   obtainability += noise;
 
   // 5. Special GPU Constraints (Hard Cap)
-  if (isGPU && size > 50) {
+  if (isGPU && demand > (isOnDemand ? 50 * ON_DEMAND_DEPTH_MULTIPLIER : 50)) {
       // Even if math says yes, getting >50 Spot GPUs in one zone is rare
       obtainability = Math.min(obtainability, 0.25);
   }
@@ -153,6 +165,11 @@ export const getNuancedSimulationMetrics = (
       uptimeScore = Math.max(uptimeScore, 0.90); // E2 is very stable if request is small
   }
 
+  // On-Demand VMs are never preempted once running
+  if (isOnDemand) {
+      uptimeScore = 0.99;
+  }
+
   // Clamp values
   obtainability = Math.max(0.01, Math.min(0.99, obtainability));
   uptimeScore = Math.max(0.01, Math.min(0.99, uptimeScore));
@@ -160,16 +177,79 @@ export const getNuancedSimulationMetrics = (
   return { obtainability, uptimeScore };
 };
 
+export interface MockSimulationOptions {
+  /** Ranked fallback machine types (rank 2+). */
+  alternativeMachineTypes?: string[];
+  provisioningModel?: ProvisioningModel;
+  /** Zone allowlist; empty means every zone in the region. */
+  includedZones?: string[];
+  excludedZones?: string[];
+  /** GPUs attached to every VM (N1 only). */
+  guestAccelerators?: GuestAccelerator[];
+}
+
+interface MachineTypeCandidate {
+  id: string;
+  family: string;
+}
+
+interface ZonePlacement {
+  zone: string;
+  machineType: string;
+  obtainability: number;
+  uptimeScore: number;
+}
+
+// A higher-ranked type is kept as long as it clears this bar, mirroring the API's rank preference.
+const RANK_PREFERENCE_THRESHOLD = 0.5;
+
+/**
+ * Picks the machine type a zone would actually fulfil with.
+ * Prefers the highest-ranked viable candidate, otherwise whichever scores best.
+ */
+const evaluateZonePlacement = (
+  candidates: MachineTypeCandidate[],
+  region: string,
+  zone: string,
+  size: number,
+  provisioningModel: ProvisioningModel,
+  guestAccelerators: GuestAccelerator[] = []
+): ZonePlacement => {
+  const evaluated = candidates.map(candidate => ({
+    zone,
+    machineType: candidate.id,
+    ...getNuancedSimulationMetrics(candidate.family, candidate.id, region, zone, size, provisioningModel, guestAccelerators)
+  }));
+
+  const preferred = evaluated.find(p => p.obtainability >= RANK_PREFERENCE_THRESHOLD);
+  if (preferred) return preferred;
+
+  return evaluated.reduce((best, p) => p.obtainability > best.obtainability ? p : best, evaluated[0]);
+};
+
 export const generateMockRecommendationsWithShape = (
     region: string,
     machineType: string,
     machineTypeDetails: MachineTypeOption | undefined,
     size: number,
-    shape: TargetShape
+    shape: TargetShape,
+    options: MockSimulationOptions = {}
   ): CapacityAdvisorResponse => {
     
-    const zones = REGION_CONFIG[region] || [`${region}-a`, `${region}-b`, `${region}-c`];
+    const regionZones = REGION_CONFIG[region] || [`${region}-a`, `${region}-b`, `${region}-c`];
+    const zones = resolveCandidateZones(regionZones, options.includedZones, options.excludedZones);
     const recommendations: Recommendation[] = [];
+
+    // Zone policy leaves nothing to place on
+    if (zones.length === 0) return { recommendations };
+    const provisioningModel = options.provisioningModel || ProvisioningModel.SPOT;
+    const guestAccelerators = options.guestAccelerators || [];
+
+    const candidates: MachineTypeCandidate[] = getRankedMachineTypes(machineType, options.alternativeMachineTypes).map(id => ({
+        id,
+        family: id === machineType ? (machineTypeDetails?.family || 'General Purpose') : getMachineTypeFamily(id)
+    }));
+    if (candidates.length === 0) candidates.push({ id: machineType, family: machineTypeDetails?.family || 'General Purpose' });
   
     if (shape === TargetShape.BALANCED) {
         // BALANCED Mode: Generate multiple options with different distribution strategies
@@ -181,19 +261,18 @@ export const generateMockRecommendationsWithShape = (
             const remainder = size % numShards;
             
             // Pick top 3 zones
-            const zoneMetrics = zones.map(z => ({
-                zone: z,
-                ...getNuancedSimulationMetrics(machineTypeDetails?.family || 'General Purpose', machineType, region, z, splitSize)
-            })).sort((a, b) => b.obtainability - a.obtainability);
+            const zoneMetrics = zones
+                .map(z => evaluateZonePlacement(candidates, region, z, splitSize, provisioningModel, guestAccelerators))
+                .sort((a, b) => b.obtainability - a.obtainability);
 
             const top3 = zoneMetrics.slice(0, 3);
             
             if (top3.every(z => z.obtainability > 0.05)) {
                 const shards: Shard[] = top3.map((z, idx) => ({
                     location: `projects/mock/zones/${z.zone}`,
-                    machineType,
+                    machineType: z.machineType,
                     count: idx === 0 ? splitSize + remainder : splitSize,
-                    provisioningModel: ProvisioningModel.SPOT
+                    provisioningModel
                 }));
                 
                 const avgScore = shards.reduce((acc, s, i) => acc + top3[i].obtainability, 0) / numShards;
@@ -216,19 +295,18 @@ export const generateMockRecommendationsWithShape = (
             const remainder = size % numShards;
 
             // Pick top 2 zones
-            const zoneMetrics = zones.map(z => ({
-                zone: z,
-                ...getNuancedSimulationMetrics(machineTypeDetails?.family || 'General Purpose', machineType, region, z, splitSize)
-            })).sort((a, b) => b.obtainability - a.obtainability);
+            const zoneMetrics = zones
+                .map(z => evaluateZonePlacement(candidates, region, z, splitSize, provisioningModel, guestAccelerators))
+                .sort((a, b) => b.obtainability - a.obtainability);
 
             const top2 = zoneMetrics.slice(0, 2);
 
             if (top2.every(z => z.obtainability > 0.05)) {
                 const shards: Shard[] = top2.map((z, idx) => ({
                     location: `projects/mock/zones/${z.zone}`,
-                    machineType,
+                    machineType: z.machineType,
                     count: idx === 0 ? splitSize + remainder : splitSize,
-                    provisioningModel: ProvisioningModel.SPOT
+                    provisioningModel
                 }));
 
                 const avgScore = shards.reduce((acc, s, i) => acc + top2[i].obtainability, 0) / numShards;
@@ -246,10 +324,9 @@ export const generateMockRecommendationsWithShape = (
 
         // Strategy 3: Fallback to Best Single Zone (if splitting is bad or size is small)
         // Even in Balanced mode, sometimes 1 zone is just better.
-        const zoneMetrics = zones.map(z => ({
-            zone: z,
-            ...getNuancedSimulationMetrics(machineTypeDetails?.family || 'General Purpose', machineType, region, z, size)
-        })).sort((a, b) => b.obtainability - a.obtainability);
+        const zoneMetrics = zones
+            .map(z => evaluateZonePlacement(candidates, region, z, size, provisioningModel, guestAccelerators))
+            .sort((a, b) => b.obtainability - a.obtainability);
 
         const bestZone = zoneMetrics[0];
         if (bestZone.obtainability > 0.05) {
@@ -260,9 +337,9 @@ export const generateMockRecommendationsWithShape = (
                 ],
                 shards: [{
                     location: `projects/mock/zones/${bestZone.zone}`,
-                    machineType,
+                    machineType: bestZone.machineType,
                     count: size,
-                    provisioningModel: ProvisioningModel.SPOT
+                    provisioningModel
                 }]
             });
         }
@@ -277,26 +354,20 @@ export const generateMockRecommendationsWithShape = (
     } else {
         // ANY_SINGLE_ZONE Mode
         zones.forEach(zone => {
-            const { obtainability, uptimeScore } = getNuancedSimulationMetrics(
-              machineTypeDetails?.family || 'General Purpose',
-              machineType,
-              region,
-              zone,
-              size
-            );
+            const placement = evaluateZonePlacement(candidates, region, zone, size, provisioningModel, guestAccelerators);
 
             // Only recommend if obtainability is non-trivial (Stockout Filter)
-            if (obtainability > 0.02) {
+            if (placement.obtainability > 0.02) {
                 recommendations.push({
                   scores: [
-                    { name: 'obtainability', value: obtainability },
-                    { name: 'uptime', value: uptimeScore }
+                    { name: 'obtainability', value: placement.obtainability },
+                    { name: 'uptime', value: placement.uptimeScore }
                   ],
                   shards: [{
                     location: `projects/mock/zones/${zone}`,
-                    machineType: machineType,
+                    machineType: placement.machineType,
                     count: size,
-                    provisioningModel: ProvisioningModel.SPOT,
+                    provisioningModel,
                   }]
                 });
             }
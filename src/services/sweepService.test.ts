@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AppState } from '../types';
+import { MACHINE_TYPES } from '../config';
+import { mockState } from '../testFixtures';
+import { runCountSweep, findZoneCliffs, getLinearSweepCounts, MAX_SWEEP_CALLS } from './sweepService';
+
+describe('Instance-count Sweep', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('linear sweep always probes the max count', () => {
+    expect(getLinearSweepCounts({ minCount: 10, maxCount: 45, step: 10, strategy: 'linear', targetObtainability: 0.7 }))
+      .toEqual([10, 20, 30, 40, 45]);
+  });
+
+  it('locates the cliff where each zone drops below target', () => {
+    const points = [
+      { count: 10, scores: { 'zone-a': 0.9, 'zone-b': 0.5 } },
+      { count: 50, scores: { 'zone-a': 0.8, 'zone-b': 0.3 } },
+      { count: 100, scores: { 'zone-a': 0.2, 'zone-b': 0.1 } }
+    ];
+    const [a, b] = findZoneCliffs(points, ['zone-a', 'zone-b'], 0.7);
+
+    expect(a).toEqual({ zone: 'zone-a', maxViableCount: 50, cliffCount: 100, scoreBeforeCliff: 0.8, scoreAtCliff: 0.2 });
+    expect(b.maxViableCount).toBeNull();
+    expect(b.cliffCount).toBe(10);
+  });
+
+  it('binary search narrows the cliff to the requested resolution', async () => {
+    const zones = ['us-central1-a', 'us-central1-b', 'us-central1-c', 'us-central1-f'];
+    const sweepState: AppState = {
+      ...mockState,
+      selectedMachineType: 'n2-standard-8',
+      sweepConfig: { minCount: 10, maxCount: 2000, step: 10, strategy: 'binary', targetObtainability: 0.6 }
+    };
+    // Skip the simulated mock latency between probes
+    vi.useFakeTimers();
+    const run = runCountSweep(sweepState, zones, { machineDetails: MACHINE_TYPES.find(m => m.id === 'n2-standard-8') });
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    const bounded = result.cliffs.filter(c => c.maxViableCount !== null && c.cliffCount !== null);
+    expect(bounded.length).toBeGreaterThan(0);
+    bounded.forEach(c => expect(c.cliffCount! - c.maxViableCount!).toBeLessThanOrEqual(10));
+    expect(result.callCount).toBeLessThanOrEqual(MAX_SWEEP_CALLS);
+  });
+});
@@ -0,0 +1,169 @@
+import { AppState, CapacityAdvisorResponse, NetworkLogEntry, SweepConfig, SweepPoint, SweepResult, SweepZoneCliff, TargetShape } from '../types';
+import { MachineTypeOption } from '../config';
+import { createAbortError, getGuestAccelerators, isStockoutError } from '../utils';
+import { fetchAllZonesCapacity } from './apiService';
+import { generateMockRecommendationsWithShape } from './simulationEngine';
+
+type NetworkLogCallback = (entry: NetworkLogEntry) => void;
+
+// Hard ceiling on capacity advice calls per sweep (live budget is 60/min).
+export const MAX_SWEEP_CALLS = 20;
+const MOCK_LATENCY_MS = 150;
+
+export interface SweepRunOptions {
+  machineDetails?: MachineTypeOption;
+  signal?: AbortSignal;
+  onNetworkLog?: NetworkLogCallback;
+  /** Fired after every probe so the chart can fill in progressively. */
+  onProbe?: (point: SweepPoint, callCount: number) => void;
+}
+
+/**
+ * Counts probed by a linear sweep. The max count is always included.
+ */
+export const getLinearSweepCounts = (config: SweepConfig): number[] => {
+  const counts: number[] = [];
+  const step = Math.max(1, config.step);
+  for (let count = config.minCount; count < config.maxCount; count += step) counts.push(count);
+  counts.push(config.maxCount);
+  return counts;
+};
+
+/**
+ * Best single-zone obtainability per zone; zones without a recommendation score 0.
+ */
+export const extractZoneScores = (response: CapacityAdvisorResponse, zones: string[]): Record<string, number> => {
+  const scores: Record<string, number> = Object.fromEntries(zones.map(zone => [zone, 0]));
+
+  for (const rec of response.recommendations) {
+    const recZones = new Set(rec.shards.map(s => s.location.split('/').pop() || ''));
+    if (recZones.size !== 1) continue;
+    const [zone] = recZones;
+    if (!(zone in scores)) continue;
+    const value = rec.scores.find(s => s.name === 'obtainability')?.value || 0;
+    scores[zone] = Math.max(scores[zone], value);
+  }
+  return scores;
+};
+
+/**
+ * Locates the obtainability cliff per zone: the largest viable count and the first probed count past it.
+ */
+export const findZoneCliffs = (points: SweepPoint[], zones: string[], target: number): SweepZoneCliff[] => {
+  const sorted = [...points].sort((a, b) => a.count - b.count);
+
+  return zones.map(zone => {
+    const viable = sorted.filter(p => (p.scores[zone] || 0) >= target);
+    const lastViable = viable.length > 0 ? viable[viable.length - 1] : null;
+    const cliff = sorted.find(p => p.count > (lastViable?.count ?? 0) && (p.scores[zone] || 0) < target) || null;
+
+    return {
+      zone,
+      maxViableCount: lastViable?.count ?? null,
+      cliffCount: cliff?.count ?? null,
+      scoreBeforeCliff: lastViable ? lastViable.scores[zone] : null,
+      scoreAtCliff: cliff ? (cliff.scores[zone] || 0) : null
+    };
+  });
+};
+
+const probeCount = async (
+  count: number,
+  state: AppState,
+  zones: string[],
+  options: SweepRunOptions
+): Promise<Record<string, number>> => {
+  // Single-zone shape so each recommendation maps to exactly one zone
+  const probeState: AppState = { ...state, size: count, targetShape: TargetShape.ANY_SINGLE_ZONE };
+
+  if (state.mockMode) {
+    await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+    if (options.signal?.aborted) throw createAbortError();
+    const response = generateMockRecommendationsWithShape(state.region, state.selectedMachineType, options.machineDetails, count, TargetShape.ANY_SINGLE_ZONE, {
+      alternativeMachineTypes: state.alternativeMachineTypes,
+      provisioningModel: state.provisioningModel,
+      includedZones: state.includedZones,
+      excludedZones: state.excludedZones,
+      guestAccelerators: getGuestAccelerators(state.acceleratorType, state.acceleratorCount)
+    });
+    return extractZoneScores(response, zones);
+  }
+
+  try {
+    const response = await fetchAllZonesCapacity(state.accessToken, state.project, state.region, probeState, options.signal, options.onNetworkLog);
+    return extractZoneScores(response, zones);
+  } catch (error: any) {
+    // A stockout is a data point (every zone at 0), not a failure
+    if (isStockoutError(error)) {
+      return Object.fromEntries(zones.map(zone => [zone, 0]));
+    }
+    throw error;
+  }
+};
+
+/**
+ * Instance-count Sweep
+ * Probes the capacity advisor across a count range (linear steps or per-zone binary search)
+ * and reports where each zone's obtainability falls below the target.
+ */
+export const runCountSweep = async (
+  state: AppState,
+  zones: string[],
+  options: SweepRunOptions = {}
+): Promise<SweepResult> => {
+  const config = state.sweepConfig;
+  const probes = new Map<number, Record<string, number>>();
+  let truncated = false;
+
+  // Returns null once the call budget is spent
+  const probe = async (count: number): Promise<Record<string, number> | null> => {
+    const cached = probes.get(count);
+    if (cached) return cached;
+    if (probes.size >= MAX_SWEEP_CALLS) {
+      truncated = true;
+      return null;
+    }
+    if (options.signal?.aborted) throw createAbortError();
+
+    const scores = await probeCount(count, state, zones, options);
+    probes.set(count, scores);
+    options.onProbe?.({ count, scores }, probes.size);
+    return scores;
+  };
+
+  if (config.strategy === 'linear') {
+    for (const count of getLinearSweepCounts(config)) {
+      if (!(await probe(count))) break;
+    }
+  } else {
+    const resolution = Math.max(1, config.step);
+    for (const zone of zones) {
+      const low = await probe(config.minCount);
+      if (!low || low[zone] < config.targetObtainability) continue;
+      const high = await probe(config.maxCount);
+      if (!high || high[zone] >= config.targetObtainability) continue;
+
+      // Invariant: lo is viable, hi is not
+      let lo = config.minCount;
+      let hi = config.maxCount;
+      while (hi - lo > resolution) {
+        const mid = Math.round((lo + hi) / 2);
+        const scores = await probe(mid);
+        if (!scores) break;
+        if (scores[zone] >= config.targetObtainability) lo = mid;
+        else hi = mid;
+      }
+    }
+  }
+
+  const points = Array.from(probes.entries())
+    .map(([count, scores]) => ({ count, scores }))
+    .sort((a, b) => a.count - b.count);
+
+  return {
+    points,
+    cliffs: findZoneCliffs(points, zones, config.targetObtainability),
+    callCount: probes.size,
+    truncated
+  };
+};
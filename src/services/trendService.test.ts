@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { AppState, ProvisioningModel, Recommendation } from '../types';
+import { mockState } from '../testFixtures';
+import { pickScenarioConfig } from './scenarioStore';
+import { RunRecord } from './runHistoryStore';
+import { selectTrendRuns, buildZoneTrend, buildPlacementSparklines, filterRunsByWindow, TREND_WINDOWS } from './trendService';
+
+describe('Score Trends', () => {
+  const rec = (obtainability: number, zones: string[]): Recommendation => ({
+    scores: [{ name: 'obtainability', value: obtainability }, { name: 'uptime', value: 0.9 }],
+    shards: zones.map(zone => ({ location: `projects/p/zones/${zone}`, machineType: 'e2-medium', count: 1, provisioningModel: ProvisioningModel.SPOT }))
+  });
+  const makeRun = (id: string, completedAt: number, recommendations: Recommendation[] | null, overrides: Partial<AppState> = {}): RunRecord => ({
+    id, startedAt: completedAt, completedAt, latencyMs: 0, source: 'mock', analysisMode: 'single',
+    config: pickScenarioConfig({ ...mockState, ...overrides }), response: recommendations && { recommendations },
+    regionResults: null, sweepResult: null, quotaCheck: null, groundingMetadata: null, sizeBytes: 0
+  });
+
+  // Newest first, as the history store lists them
+  const runs = [
+    makeRun('c', 3000, [rec(0.5, ['us-central1-b']), rec(0.4, ['us-central1-a', 'us-central1-b'])]),
+    makeRun('other', 2500, [rec(0.9, ['us-central1-a'])], { size: 99 }),
+    makeRun('sweep', 2200, null),
+    makeRun('b', 2000, [rec(0.8, ['us-central1-a']), rec(0.6, ['us-central1-b'])]),
+    makeRun('a', 1000, [rec(0.7, ['us-central1-a'])])
+  ];
+
+  it('keeps runs with placements for the same configuration, oldest first', () => {
+     const trendRuns = selectTrendRuns(runs, pickScenarioConfig(mockState), 'mock');
+     expect(trendRuns.map(r => r.id)).toEqual(['a', 'b', 'c']);
+     expect(selectTrendRuns(runs, pickScenarioConfig(mockState), 'live')).toEqual([]);
+     expect(filterRunsByWindow(trendRuns, TREND_WINDOWS.find(w => w.id === '1h')!, 1000 + 60 * 60 * 1000 + 1).map(r => r.id)).toEqual(['b', 'c']);
+  });
+
+  it('scores each zone by its best placement and tracks placements across runs', () => {
+     const trendRuns = selectTrendRuns(runs, pickScenarioConfig(mockState), 'mock');
+     const trend = buildZoneTrend(trendRuns);
+     expect(trend.zones).toEqual(['us-central1-a', 'us-central1-b']);
+     expect(trend.points.map(p => p.zones['us-central1-a']?.obtainability)).toEqual([0.7, 0.8, 0.4]);
+     expect(buildPlacementSparklines(trendRuns)).toEqual({
+       'us-central1-a': [0.7, 0.8, null],
+       'us-central1-b': [null, 0.6, 0.5],
+       'us-central1-a,us-central1-b': [null, null, 0.4]
+     });
+     expect(buildPlacementSparklines(trendRuns, 2)['us-central1-a']).toEqual([0.8, null]);
+  });
+
+  it('shows a stockout run as every zone and placement dropping to 0', () => {
+     const withStockout = [makeRun('d', 4000, []), ...runs];
+     const trendRuns = selectTrendRuns(withStockout, pickScenarioConfig(mockState), 'mock');
+     expect(trendRuns.map(r => r.id)).toEqual(['a', 'b', 'c', 'd']);
+
+     const trend = buildZoneTrend(trendRuns);
+     expect(trend.points[3].zones).toEqual({ 'us-central1-a': { obtainability: 0, uptime: null }, 'us-central1-b': { obtainability: 0, uptime: null } });
+     expect(buildPlacementSparklines(trendRuns)['us-central1-b']).toEqual([null, 0.6, 0.5, 0]);
+  });
+});
@@ -0,0 +1,102 @@
+import { CapacityAdvisorResponse } from '../types';
+import { RunRecord } from './runHistoryStore';
+import { ScenarioConfig } from './scenarioStore';
+import { diffConfigs, getScore, getZoneSet } from './runDiffService';
+
+/**
+ * Score Trends
+ *
+ * Turns the stored runs of one configuration into time series: per-zone obtainability and
+ * uptime for the trend chart, and per-placement obtainability for the row sparklines.
+ * A run without recommendations is a stockout and scores every zone and placement at 0.
+ */
+
+export interface TrendWindow {
+  id: string;
+  label: string;
+  /** null keeps every run. */
+  durationMs: number | null;
+}
+
+export const TREND_WINDOWS: TrendWindow[] = [
+  { id: '1h', label: '1 hour', durationMs: 60 * 60 * 1000 },
+  { id: '24h', label: '24 hours', durationMs: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: '7 days', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { id: 'all', label: 'All', durationMs: null }
+];
+
+/** Runs shown in a row sparkline (most recent). */
+export const SPARKLINE_RUNS = 20;
+
+export interface ZoneScore {
+  obtainability: number;
+  uptime: number | null;
+}
+
+export interface ZoneTrendPoint {
+  runId: string;
+  completedAt: number;
+  /** Best-scoring placement that uses each zone; zones the run didn't recommend are absent (0 on a stockout). */
+  zones: Record<string, ZoneScore>;
+}
+
+export interface ZoneTrend {
+  zones: string[];
+  points: ZoneTrendPoint[];
+}
+
+/**
+ * Runs with placements for `config` from the same data source, oldest first.
+ * @param runs Newest first, as listed by the history store.
+ */
+export const selectTrendRuns = (runs: RunRecord[], config: ScenarioConfig, source: RunRecord['source']): RunRecord[] =>
+  runs
+    .filter(run => run.response && run.source === source && diffConfigs(run.config, config).length === 0)
+    .reverse();
+
+export const filterRunsByWindow = <T extends { completedAt: number }>(runs: T[], window: TrendWindow, now = Date.now()): T[] =>
+  window.durationMs === null ? runs : runs.filter(run => now - run.completedAt <= window.durationMs!);
+
+const scoreZones = (response: CapacityAdvisorResponse): Record<string, ZoneScore> => {
+  const zones: Record<string, ZoneScore> = {};
+  response.recommendations.forEach(rec => {
+    const obtainability = getScore(rec, 'obtainability') ?? 0;
+    getZoneSet(rec).forEach(zone => {
+      if (!zones[zone] || obtainability > zones[zone].obtainability) {
+        zones[zone] = { obtainability, uptime: getScore(rec, 'uptime') };
+      }
+    });
+  });
+  return zones;
+};
+
+/** Per-zone scores of each run (oldest first); zones are listed in first-seen order. */
+export const buildZoneTrend = (runs: RunRecord[]): ZoneTrend => {
+  const points = runs.map(run => ({ runId: run.id, completedAt: run.completedAt, zones: scoreZones(run.response!) }));
+  const zones = Array.from(new Set(points.flatMap(point => Object.keys(point.zones))));
+  runs.forEach((run, index) => {
+    if (run.response!.recommendations.length === 0) {
+      points[index].zones = Object.fromEntries(zones.map(zone => [zone, { obtainability: 0, uptime: null }]));
+    }
+  });
+  return { zones, points };
+};
+
+/**
+ * Obtainability of each placement (by zone set, see getZoneSet) across the last `limit` runs,
+ * with null for runs that didn't recommend it and 0 for stockouts.
+ */
+export const buildPlacementSparklines = (runs: RunRecord[], limit = SPARKLINE_RUNS): Record<string, (number | null)[]> => {
+  const recent = runs.slice(-limit);
+  const byRun = recent.map(run => {
+    const scores = new Map<string, number>();
+    run.response!.recommendations.forEach(rec => {
+      const key = getZoneSet(rec).join(',');
+      // A repeated zone set keeps its best-ranked score
+      if (!scores.has(key)) scores.set(key, getScore(rec, 'obtainability') ?? 0);
+    });
+    return scores;
+  });
+  const keys = new Set(byRun.flatMap(scores => [...scores.keys()]));
+  return Object.fromEntries([...keys].map(key => [key, byRun.map(scores => scores.size === 0 ? 0 : scores.get(key) ?? null)]));
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ProvisioningModel } from '../types';
+import { mockState } from '../testFixtures';
+import { evaluateWatchAlerts, fetchWatchResponse, getMinWatchIntervalMs, getEffectiveWatchIntervalMs, getWatchKey, DEFAULT_WATCH_SETTINGS } from './watchService';
+
+describe('Watch Mode', () => {
+  const response = (obtainability: number, zones: string[]) => ({
+    recommendations: [{
+      scores: [{ name: 'obtainability', value: obtainability }],
+      shards: zones.map(zone => ({ location: `projects/p/zones/${zone}`, machineType: 'e2-medium', count: 1, provisioningModel: ProvisioningModel.SPOT }))
+    }]
+  });
+
+  it('alerts when the top obtainability crosses the threshold or zones change', () => {
+     const before = response(0.6, ['us-central1-a', 'us-central1-b']);
+     const after = response(0.75, ['us-central1-b', 'us-central1-c']);
+     expect(evaluateWatchAlerts(before, after, 0.7).map(a => a.kind)).toEqual(['crossedAbove', 'zoneAppeared', 'zoneDisappeared']);
+     expect(evaluateWatchAlerts(after, before, 0.7).map(a => a.kind)).toEqual(['crossedBelow', 'zoneAppeared', 'zoneDisappeared']);
+     expect(evaluateWatchAlerts(before, response(0.65, ['us-central1-b', 'us-central1-a']), 0.7)).toEqual([]);
+  });
+
+  it('alerts when a live stockout hits between two ticks', async () => {
+     const stockout = new Error(JSON.stringify({ error: { code: 404, message: 'Capacity Stockout', errors: [{ reason: 'stockout' }] } }));
+     const ticks = [
+       () => Promise.resolve(response(0.8, ['us-central1-a', 'us-central1-b'])),
+       () => Promise.reject(stockout)
+     ];
+
+     const first = await fetchWatchResponse(ticks[0]);
+     const second = await fetchWatchResponse(ticks[1]);
+     expect(second).toEqual({ recommendations: [] });
+
+     const alerts = evaluateWatchAlerts(first, second, 0.7);
+     expect(alerts.map(a => a.kind)).toEqual(['crossedBelow', 'zoneDisappeared']);
+     expect(alerts[0].message).toContain('fell to 0%');
+     await expect(fetchWatchResponse(() => Promise.reject(new Error('HTTP 500 Error')))).rejects.toThrow('HTTP 500');
+  });
+
+  it('keeps watch runs within half of the capacity advice budget', () => {
+     // 60 calls/minute, half reserved for manual runs
+     expect(getMinWatchIntervalMs(1)).toBe(2000);
+     expect(getEffectiveWatchIntervalMs({ ...DEFAULT_WATCH_SETTINGS, intervalMinutes: 1 }, 40)).toBe(80000);
+     expect(getEffectiveWatchIntervalMs({ ...DEFAULT_WATCH_SETTINGS, intervalMinutes: 5 }, 3)).toBe(300000);
+  });
+
+  it('keys baselines by configuration and data source', () => {
+     expect(getWatchKey(mockState)).toBe(getWatchKey({ ...mockState, loading: true }));
+     expect(getWatchKey(mockState)).not.toBe(getWatchKey({ ...mockState, mockMode: !mockState.mockMode }));
+  });
+});
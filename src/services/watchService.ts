@@ -0,0 +1,103 @@
+import { AppState, CapacityAdvisorResponse } from '../types';
+import { isStockoutError } from '../utils';
+import { RATE_LIMITS } from './rateLimiter';
+import { getScore } from './runDiffService';
+import { pickScenarioConfig } from './scenarioStore';
+
+/**
+ * Watch Mode
+ *
+ * Re-runs the current analysis on an interval and raises alerts when the top obtainability
+ * crosses a threshold or the set of recommended zones changes. Watch runs may use at most
+ * WATCH_BUDGET_SHARE of the capacity advice rate limit so manual runs stay responsive.
+ */
+
+export interface WatchSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Top obtainability (0-1) that triggers an alert when crossed in either direction. */
+  threshold: number;
+}
+
+export const WATCH_INTERVALS = [1, 5, 15, 30, 60];
+
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = {
+  enabled: false,
+  intervalMinutes: 5,
+  threshold: 0.7
+};
+
+export const WATCH_BUDGET_SHARE = 0.5;
+
+export type WatchAlertKind = 'crossedAbove' | 'crossedBelow' | 'zoneAppeared' | 'zoneDisappeared';
+
+export interface WatchAlert {
+  kind: WatchAlertKind;
+  title: string;
+  message: string;
+}
+
+/** Identifies the configuration a watch result belongs to; alerts only compare runs with the same key. */
+export const getWatchKey = (state: AppState): string =>
+  JSON.stringify({ ...pickScenarioConfig(state), mockMode: state.mockMode });
+
+/** Capacity advice calls one run of `state` makes (one per region). */
+export const estimateCallsPerRun = (state: Pick<AppState, 'analysisMode' | 'fanOutRegions'>): number =>
+  state.analysisMode === 'multiRegion' ? Math.max(1, state.fanOutRegions.length) : 1;
+
+/**
+ * Shortest interval that keeps watch runs within their share of the capacity advice bucket.
+ */
+export const getMinWatchIntervalMs = (callsPerRun: number): number => {
+  const { maxRequests, windowSeconds } = RATE_LIMITS.capacityAdvice;
+  const callsPerMs = (maxRequests * WATCH_BUDGET_SHARE) / (windowSeconds * 1000);
+  return Math.ceil(callsPerRun / callsPerMs);
+};
+
+export const getEffectiveWatchIntervalMs = (settings: WatchSettings, callsPerRun: number): number =>
+  Math.max(settings.intervalMinutes * 60 * 1000, getMinWatchIntervalMs(callsPerRun));
+
+/** Zones that appear in any recommendation of a response. */
+export const getResponseZones = (response: CapacityAdvisorResponse): Set<string> =>
+  new Set(response.recommendations.flatMap(rec => rec.shards.map(s => s.location.split('/').pop() || s.location)));
+
+/**
+ * Runs a watch fetch. A stockout is the reading the watch exists for (capacity at zero), so it
+ * becomes an empty result for `evaluateWatchAlerts` instead of an error.
+ */
+export const fetchWatchResponse = async (fetcher: () => Promise<CapacityAdvisorResponse>): Promise<CapacityAdvisorResponse> => {
+  try {
+    return await fetcher();
+  } catch (error) {
+    if (isStockoutError(error)) return { recommendations: [] };
+    throw error;
+  }
+};
+
+/**
+ * Alerts raised by `next` relative to the previous watch result.
+ */
+export const evaluateWatchAlerts = (previous: CapacityAdvisorResponse, next: CapacityAdvisorResponse, threshold: number): WatchAlert[] => {
+  const alerts: WatchAlert[] = [];
+  const before = getScore(previous.recommendations[0], 'obtainability') ?? 0;
+  const after = getScore(next.recommendations[0], 'obtainability') ?? 0;
+  const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (before < threshold && after >= threshold) {
+    alerts.push({ kind: 'crossedAbove', title: 'Capacity Recovered', message: `Top obtainability rose to ${pct(after)} (threshold ${pct(threshold)}, was ${pct(before)}).` });
+  } else if (before >= threshold && after < threshold) {
+    alerts.push({ kind: 'crossedBelow', title: 'Capacity Dropped', message: `Top obtainability fell to ${pct(after)} (threshold ${pct(threshold)}, was ${pct(before)}).` });
+  }
+
+  const previousZones = getResponseZones(previous);
+  const nextZones = getResponseZones(next);
+  const appeared = [...nextZones].filter(z => !previousZones.has(z)).sort();
+  const disappeared = [...previousZones].filter(z => !nextZones.has(z)).sort();
+  if (appeared.length > 0) {
+    alerts.push({ kind: 'zoneAppeared', title: 'Zone Appeared', message: `Now recommended: ${appeared.join(', ')}.` });
+  }
+  if (disappeared.length > 0) {
+    alerts.push({ kind: 'zoneDisappeared', title: 'Zone Disappeared', message: `No longer recommended: ${disappeared.join(', ')}.` });
+  }
+  return alerts;
+};
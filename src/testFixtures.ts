@@ -0,0 +1,69 @@
+import { vi } from 'vitest';
+import { AppState, TargetShape, ProvisioningModel } from './types';
+
+/**
+ * Shared fixtures for the unit tests.
+ */
+
+// Mock minimal state for testing
+export const mockState: AppState = {
+  project: 'test-project',
+  region: 'us-central1',
+  selectedMachineType: 'e2-medium',
+  alternativeMachineTypes: [],
+  selectedFamilies: ['General Purpose'],
+  size: 10,
+  targetShape: TargetShape.ANY,
+  provisioningModel: ProvisioningModel.SPOT,
+  acceleratorType: '',
+  acceleratorCount: 1,
+  includedZones: [],
+  excludedZones: [],
+  analysisMode: 'single',
+  fanOutRegions: [],
+  regionResults: null,
+  sweepConfig: { minCount: 10, maxCount: 500, step: 10, strategy: 'binary', targetObtainability: 0.7 },
+  sweepResult: null,
+  quotaCheck: null,
+  loading: false,
+  groundingLoading: false,
+  result: null,
+  error: null,
+  debugData: { 
+    request: null, 
+    response: null, 
+    geminiDebug: null,
+    startTime: null, 
+    endTime: null, 
+    status: 'idle', 
+    mode: 'mock', 
+    logs: [], 
+    network: [] 
+  },
+  showDebug: false,
+  mockMode: true,
+  accessToken: 'fake-token',
+  authSession: null,
+  searchTerm: '',
+  darkMode: false,
+  groundingMetadata: null,
+  toasts: [],
+  validationErrors: {}
+};
+
+/** Stubs fetch with a response per URL; undo with vi.unstubAllGlobals(). */
+export const mockFetchResponse = (responseGenerator: (url: string) => { ok: boolean; status: number; data: any }) => {
+  vi.stubGlobal('fetch', (url: string) => {
+    const result = responseGenerator(url);
+    return Promise.resolve({
+      ok: result.ok,
+      status: result.status,
+      text: () => Promise.resolve(JSON.stringify(result.data)),
+      json: () => Promise.resolve(result.data)
+    });
+  });
+};
+
+/** Stubs fetch with the same response for every call. */
+export const mockSingleResponse = (ok: boolean, status: number, data: any) =>
+  mockFetchResponse(() => ({ ok, status, data }));
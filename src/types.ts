@@ -10,6 +10,20 @@ export enum TargetShape {
   BALANCED = 'BALANCED'
 }
 
+export enum LocationPreference {
+  ALLOW = 'ALLOW',
+  DENY = 'DENY'
+}
+
+export interface LocationPolicyLocation {
+  preference: LocationPreference;
+}
+
+export interface GuestAccelerator {
+  acceleratorType: string;
+  acceleratorCount: number;
+}
+
 export interface InstanceSelection {
   machineTypes: string[];
   rank?: number;
@@ -20,13 +34,15 @@ export interface CapacityAdvisorRequest {
     scheduling: {
       provisioningModel: ProvisioningModel;
     };
+    guestAccelerators?: GuestAccelerator[];
   };
   instanceFlexibilityPolicy: {
     instanceSelections: Record<string, InstanceSelection>;
   };
   locationPolicy: {
     targetShape: TargetShape;
-    locations?: string[];
+    /** Keyed by zone path, e.g. "zones/us-central1-a". */
+    locations?: Record<string, LocationPolicyLocation>;
   };
   count: number;
 }
@@ -68,6 +84,10 @@ export interface NetworkLogEntry {
   latencyMs?: number;
   status?: number;
   curl?: string;
+  /** 1-based attempt number when the request layer retried the call. */
+  attempt?: number;
+  /** Response cache outcome: served from cache, joined an identical in-flight request, or fetched. */
+  cache?: 'hit' | 'shared' | 'miss';
 }
 
 export interface GeminiDebugEntry {
@@ -108,13 +128,115 @@ export interface Toast {
   duration?: number;
 }
 
+export type AnalysisMode = 'single' | 'multiRegion' | 'sweep';
+
+export type SweepStrategy = 'linear' | 'binary';
+
+export interface SweepConfig {
+  minCount: number;
+  maxCount: number;
+  /** Linear step; for binary search, the resolution at which the search stops. */
+  step: number;
+  strategy: SweepStrategy;
+  /** Obtainability (0-1) a count must reach to be considered viable. */
+  targetObtainability: number;
+}
+
+export interface SweepPoint {
+  count: number;
+  /** Obtainability per zone at this count. */
+  scores: Record<string, number>;
+}
+
+export interface SweepZoneCliff {
+  zone: string;
+  /** Largest probed count at or above the target, null if none. */
+  maxViableCount: number | null;
+  /** First probed count past the viable range where the score drops below target. */
+  cliffCount: number | null;
+  scoreBeforeCliff: number | null;
+  scoreAtCliff: number | null;
+}
+
+export interface SweepResult {
+  points: SweepPoint[];
+  cliffs: SweepZoneCliff[];
+  callCount: number;
+  /** True when the call budget ran out before the sweep finished. */
+  truncated: boolean;
+}
+
+export interface RegionRunResult {
+  region: string;
+  status: 'success' | 'error';
+  recommendationCount: number;
+  topObtainability: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  /** Epoch ms at which the access token expires. */
+  expiresAt: number;
+  /** Signed-in identity from tokeninfo, for display and as the renewal login hint. */
+  email?: string;
+}
+
+export interface TokenInfo {
+  /** 'unreachable' when the tokeninfo endpoint couldn't be queried (the token is then not judged). */
+  status: 'valid' | 'invalid' | 'unreachable';
+  /** Epoch ms at which the token expires, if known. */
+  expiresAt: number | null;
+  scopes: string[];
+  email?: string;
+  error?: string;
+}
+
+export interface RegionQuota {
+  metric: string;
+  limit: number;
+  usage: number;
+}
+
+export interface QuotaMetricCheck {
+  metric: string;
+  limit: number;
+  usage: number;
+  required: number;
+  /** Headroom left before this request (limit - usage). */
+  available: number;
+  sufficient: boolean;
+}
+
+export interface QuotaCheckResult {
+  region: string;
+  checks: QuotaMetricCheck[];
+  /** False when any checked metric lacks headroom for the request. */
+  sufficient: boolean;
+}
+
 export interface AppState {
   project: string;
   region: string;
   selectedMachineType: string;
+  alternativeMachineTypes: string[];
   selectedFamilies: string[];
   size: number;
   targetShape: TargetShape;
+  provisioningModel: ProvisioningModel;
+  /** Attached GPU type ('' for none). */
+  acceleratorType: string;
+  acceleratorCount: number;
+  includedZones: string[];
+  excludedZones: string[];
+  analysisMode: AnalysisMode;
+  fanOutRegions: string[];
+  regionResults: RegionRunResult[] | null;
+  sweepConfig: SweepConfig;
+  sweepResult: SweepResult | null;
+  /** Pre-flight quota verdict for the target region (live single-region runs only). */
+  quotaCheck: QuotaCheckResult | null;
   loading: boolean;
   groundingLoading: boolean;
   result: CapacityAdvisorResponse | null;
@@ -123,6 +245,8 @@ export interface AppState {
   showDebug: boolean;
   mockMode: boolean;
   accessToken: string;
+  /** OAuth sign-in session backing `accessToken`; null when the token was pasted. */
+  authSession: AuthSession | null;
   searchTerm: string;
   darkMode: boolean;
   groundingMetadata: GroundingMetadata | null;
@@ -1,5 +1,32 @@
 
-import { AppState, CapacityAdvisorRequest, ProvisioningModel, TargetShape } from './types';
+import { AppState, CapacityAdvisorRequest, CapacityAdvisorResponse, GuestAccelerator, InstanceSelection, LocationPolicyLocation, LocationPreference, ProvisioningModel, TargetShape } from './types';
+
+/** Status the API layer sets on requests that failed without an HTTP response. */
+export const NETWORK_ERROR_STATUS = 0;
+
+/** HTTP status of a thrown request error; 500 when it carries none. */
+export const getErrorStatus = (error: any): number =>
+  typeof error?.status === 'number' ? error.status : 500;
+
+/**
+ * The error a cancelled run throws. Built by hand rather than as a DOMException, which isn't
+ * available everywhere the services run.
+ */
+export const createAbortError = (): Error => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/** True for a cancellation (ours or fetch's), which callers swallow rather than report. */
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * True for the "Capacity Stockout" the API layer throws when nothing is obtainable. A stockout
+ * is an answer (0% obtainability), not a failure: callers record it as an empty result.
+ */
+export const isStockoutError = (error: any): boolean =>
+  !isAbortError(error) && typeof error?.message === 'string' && error.message.includes('"stockout"');
 
 /**
  * Parses raw API errors into user-friendly, actionable messages.
@@ -100,7 +127,11 @@ export const getFriendlyErrorMessage = (status: number, rawText: string) => {
     }
   } catch (e) {
     // Non-JSON Error (e.g. HTML 502 Bad Gateway)
-    if (status === 401) {
+    if (status === NETWORK_ERROR_STATUS) {
+        title = 'Network Unavailable';
+        detail = 'The request never reached Google Cloud (offline, DNS failure or a blocked connection).';
+        actionable = 'Check your network connection, VPN or firewall, then retry.';
+    } else if (status === 401) {
         title = 'Session Expired';
         detail = 'Your access token is no longer valid.';
         actionable = 'Generate a new token via CLI.';
@@ -127,35 +158,138 @@ export const getFriendlyErrorMessage = (status: number, rawText: string) => {
   return `${title}: ${detail} ${actionable ? `(${actionable})` : ''}`;
 };
 
-const buildInstanceProperties = (): CapacityAdvisorRequest['instanceProperties'] => ({
+export type RiskTier = 'optimal' | 'good' | 'constrained' | 'critical';
+
+/** Obtainability bands shared by the placement table, the comparison view and the verdicts. */
+export const getRiskTier = (obtainability: number): RiskTier => {
+  if (obtainability < 0.4) return 'critical';
+  if (obtainability < 0.7) return 'constrained';
+  if (obtainability < 0.85) return 'good';
+  return 'optimal';
+};
+
+/**
+ * Human readable label for a provisioning model (used in UI, prompts and exports).
+ */
+export const getProvisioningModelLabel = (model: ProvisioningModel): string => {
+  return model === ProvisioningModel.STANDARD ? 'On-Demand' : 'Spot';
+};
+
+/**
+ * Attached GPUs for the request, or an empty list when none are selected.
+ */
+export const getGuestAccelerators = (acceleratorType: string, acceleratorCount: number): GuestAccelerator[] => {
+  if (!acceleratorType || acceleratorCount < 1) return [];
+  return [{ acceleratorType, acceleratorCount }];
+};
+
+const buildInstanceProperties = (
+  provisioningModel: ProvisioningModel = ProvisioningModel.SPOT,
+  guestAccelerators: GuestAccelerator[] = []
+): CapacityAdvisorRequest['instanceProperties'] => ({
   scheduling: { 
-    provisioningModel: ProvisioningModel.SPOT 
+    provisioningModel 
   },
+  ...(guestAccelerators.length > 0 ? { guestAccelerators } : {})
 });
 
-const buildInstanceFlexibilityPolicy = (machineType: string): CapacityAdvisorRequest['instanceFlexibilityPolicy'] => ({
-  instanceSelections: {
+/**
+ * Returns the de-duplicated, ordered list of acceptable machine types.
+ * The primary selection always holds rank 1; fallbacks follow in the order chosen.
+ */
+export const getRankedMachineTypes = (primary: string, alternatives: string[] = []): string[] => {
+  const ranked: string[] = [];
+  [primary, ...alternatives].forEach(type => {
+    const trimmed = (type || '').trim();
+    if (trimmed && !ranked.includes(trimmed)) ranked.push(trimmed);
+  });
+  return ranked;
+};
+
+const buildInstanceFlexibilityPolicy = (machineType: string, alternatives: string[] = []): CapacityAdvisorRequest['instanceFlexibilityPolicy'] => {
+  const instanceSelections: Record<string, InstanceSelection> = {
     "primary": { 
       machineTypes: [machineType],
       rank: 1
     },
-  },
+  };
+
+  // Each fallback becomes its own ranked selection so the API can report where shards landed.
+  getRankedMachineTypes(machineType, alternatives).filter(type => type !== machineType).forEach((type, idx) => {
+    instanceSelections[`alternative-${idx + 1}`] = {
+      machineTypes: [type],
+      rank: idx + 2
+    };
+  });
+
+  return { instanceSelections };
+};
+
+/**
+ * Applies the zone allowlist / denylist to a region's zones.
+ * An empty allowlist means every zone is allowed.
+ */
+export const resolveCandidateZones = (zones: string[], includedZones: string[] = [], excludedZones: string[] = []): string[] => {
+  const allowed = includedZones.length > 0 ? zones.filter(z => includedZones.includes(z)) : zones;
+  return allowed.filter(z => !excludedZones.includes(z));
+};
+
+/**
+ * Zones where none of the given machine types is offered, per the zone x machine type matrix.
+ * Zones missing from the matrix are assumed to offer everything.
+ */
+export const getZonesMissingMachineTypes = (zones: string[], machineTypes: string[], zoneMachineTypes: Record<string, string[]>): string[] => {
+  return zones.filter(zone => {
+    const offered = zoneMachineTypes[zone];
+    return !!offered && !machineTypes.some(type => offered.includes(type));
+  });
+};
+
+/**
+ * Drops recommendations with a shard placed in a zone that doesn't offer its machine type.
+ */
+export const filterRecommendationsByAvailability = (
+  response: CapacityAdvisorResponse,
+  zoneMachineTypes: Record<string, string[]>
+): CapacityAdvisorResponse => ({
+  ...response,
+  recommendations: response.recommendations.filter(rec => rec.shards.every(shard => {
+    const offered = zoneMachineTypes[shard.location.split('/').pop() || ''];
+    return !offered || offered.includes(shard.machineType.split('/').pop() || '');
+  }))
 });
 
 /**
  * Maps internal AppState to strict API `locationPolicy` structure.
  */
-const buildLocationPolicy = (targetShape: TargetShape): CapacityAdvisorRequest['locationPolicy'] => {
-  return { 
-    targetShape: targetShape 
-  };
+const buildLocationPolicy = (
+  targetShape: TargetShape,
+  includedZones: string[] = [],
+  excludedZones: string[] = []
+): CapacityAdvisorRequest['locationPolicy'] => {
+  if (includedZones.length === 0 && excludedZones.length === 0) {
+    return { 
+      targetShape: targetShape 
+    };
+  }
+
+  const locations: Record<string, LocationPolicyLocation> = {};
+  includedZones.forEach(zone => { locations[`zones/${zone}`] = { preference: LocationPreference.ALLOW }; });
+  excludedZones.forEach(zone => { locations[`zones/${zone}`] = { preference: LocationPreference.DENY }; });
+
+  return { targetShape, locations };
 };
 
-export const buildCapacityAdvisorRequest = (state: AppState): CapacityAdvisorRequest => {
+/** The part of the configuration a capacity advice request is built from. */
+export type CapacityRequestConfig = Pick<AppState,
+  'selectedMachineType' | 'alternativeMachineTypes' | 'size' | 'targetShape' | 'provisioningModel' |
+  'acceleratorType' | 'acceleratorCount' | 'includedZones' | 'excludedZones'>;
+
+export const buildCapacityAdvisorRequest = (state: CapacityRequestConfig): CapacityAdvisorRequest => {
   return {
-    instanceProperties: buildInstanceProperties(),
-    instanceFlexibilityPolicy: buildInstanceFlexibilityPolicy(state.selectedMachineType),
-    locationPolicy: buildLocationPolicy(state.targetShape),
+    instanceProperties: buildInstanceProperties(state.provisioningModel, getGuestAccelerators(state.acceleratorType, state.acceleratorCount)),
+    instanceFlexibilityPolicy: buildInstanceFlexibilityPolicy(state.selectedMachineType, state.alternativeMachineTypes),
+    locationPolicy: buildLocationPolicy(state.targetShape, state.includedZones, state.excludedZones),
     count: state.size,
   };
 };
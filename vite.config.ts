@@ -1,4 +1,5 @@
 
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -9,8 +10,16 @@ export default defineConfig({
     host: true,
     port: 3000,
     open: true,
+    // Backend proxy (npm run start:server) for VITE_USE_PROXY=true
+    proxy: {
+      '/api': 'http://localhost:8080',
+    },
   },
   build: {
     outDir: 'dist', 
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
 });